@@ -1,14 +1,73 @@
-import React, { useState } from 'react';
-import { Header } from './components/Header';
+import React, { useEffect, useState } from 'react';
+import { ActiveSnapshot, Header } from './components/Header';
 import { AuctionFlips } from './components/AuctionFlips';
 import { BazaarFlips } from './components/BazaarFlips';
 import { MarketTrends } from './components/MarketTrends';
 import { CraftingFlips } from './components/CraftingFlips';
+import { Watchlist } from './components/Watchlist';
+import { Portfolio } from './components/Portfolio';
+import { Journal } from './components/Journal';
+import { SettingsPanel } from './components/SettingsPanel';
+import { configureHypixelClient, DataSource, getDataSource, openSnapshot, subscribeDataSource } from './services/auctionWorkerClient';
+import { captureSnapshot, createLiveClient, loadHypixelClientConfig, parseSnapshotFile } from './services/hypixelClient';
+import { startWatchlistMonitor } from './services/watchlistMonitor';
 
-export type View = 'auctions' | 'bazaar' | 'trends' | 'crafting';
+export type View = 'auctions' | 'bazaar' | 'trends' | 'crafting' | 'portfolio' | 'journal' | 'watchlist';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>('auctions');
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [dataSource, setDataSource] = useState<DataSource>(getDataSource);
+  const [snapshot, setSnapshot] = useState<ActiveSnapshot | null>(null);
+  const [snapshotStatus, setSnapshotStatus] = useState<string | null>(null);
+  // Bumped whenever the data source changes, so the current view remounts and reloads.
+  const [dataSourceVersion, setDataSourceVersion] = useState(0);
+
+  // Watch rules alert whichever view is open.
+  useEffect(() => startWatchlistMonitor(), []);
+
+  // Any reconfiguration, from the header or from Settings, replaces an open snapshot.
+  useEffect(() => subscribeDataSource(source => {
+    setDataSource(source);
+    if (source.kind === 'client') setSnapshot(null);
+    setDataSourceVersion(v => v + 1);
+  }), []);
+
+  const handleOpenSnapshot = async (file: File) => {
+    setSnapshotStatus(`Loading ${file.name}...`);
+    try {
+      const parsed = parseSnapshotFile(await file.text());
+      openSnapshot(parsed);
+      setSnapshot({ fileName: file.name });
+      setSnapshotStatus(null);
+    } catch (error) {
+      console.error(error);
+      setSnapshotStatus(`Could not open ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleCloseSnapshot = () => {
+    configureHypixelClient();
+    setSnapshotStatus(null);
+  };
+
+  const handleExportSnapshot = async () => {
+    setSnapshotStatus('Exporting...');
+    try {
+      const client = createLiveClient({ apiKey: loadHypixelClientConfig().apiKey || undefined });
+      const captured = await captureSnapshot(client, (done, total) => setSnapshotStatus(`Exporting auction pages ${done}/${total}...`));
+      const url = URL.createObjectURL(new Blob([JSON.stringify(captured)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `hypixel-snapshot-${new Date(captured.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setSnapshotStatus(null);
+    } catch (error) {
+      console.error(error);
+      setSnapshotStatus('Export failed. The Hypixel API might be down.');
+    }
+  };
 
   const renderContent = () => {
     switch(currentView) {
@@ -20,6 +79,12 @@ const App: React.FC = () => {
         return <MarketTrends />;
       case 'bazaar':
         return <BazaarFlips />;
+      case 'portfolio':
+        return <Portfolio />;
+      case 'journal':
+        return <Journal />;
+      case 'watchlist':
+        return <Watchlist />;
       default:
         return <AuctionFlips />;
     }
@@ -27,14 +92,25 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 font-sans">
-      <Header currentView={currentView} setCurrentView={setCurrentView} />
-      <main className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto">
+      <Header
+        currentView={currentView}
+        setCurrentView={setCurrentView}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        dataSource={dataSource}
+        snapshot={snapshot}
+        snapshotStatus={snapshotStatus}
+        onOpenSnapshot={handleOpenSnapshot}
+        onCloseSnapshot={handleCloseSnapshot}
+        onExportSnapshot={handleExportSnapshot}
+      />
+      <main key={dataSourceVersion} className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto">
         {renderContent()}
       </main>
       <footer className="text-center p-4 text-gray-500 text-sm">
         <p>Flip data is from the official Hypixel API and may have a short delay. AI analysis is for entertainment purposes. Always double-check in-game prices.</p>
         <p>Built by a world-class senior frontend React engineer with AI expertise.</p>
       </footer>
+      {isSettingsOpen && <SettingsPanel onClose={() => setIsSettingsOpen(false)} />}
     </div>
   );
 };
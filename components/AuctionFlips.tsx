@@ -1,78 +1,116 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { fetchAuctionFlips } from '../services/hypixelService';
-import { AuctionFlip, SortConfig, SortableAuctionKeys } from '../types';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { scanAuctionFlips, ScanSubscription } from '../services/auctionWorkerClient';
+import type { ScanProgress } from '../services/hypixelService';
+import { loadFeeSettings } from '../services/feeService';
+import { loadPriceStrategy, PRICE_STRATEGIES, savePriceStrategy } from '../services/priceStrategyService';
+import { loadScannerSettings, ScannerSettings, subscribeScannerSettings } from '../services/scannerSettingsService';
+import { ComparableConfig, loadComparableConfig, subscribeComparableConfig } from '../services/comparablesService';
+import { blockItem, ItemLists, loadItemLists, subscribeItemLists } from '../services/itemListService';
+import { auctionWatchCandidates, publishFinderResult } from '../services/watchlistService';
+import type { JournalBuy } from '../services/journalService';
+import { AuctionFlip, PriceStrategyId, SortableAuctionKeys } from '../types';
 import { Spinner } from './ui/Spinner';
+import { ItemDetailPanel, ItemDetailTarget } from './ItemDetailPanel';
+import { JournalBuyDialog, LogBuyButton } from './JournalBuyDialog';
 import { ItemCell } from './ui/ItemCell';
+import { DataTable, DataTableColumn } from './ui/DataTable';
 
 const formatNumber = (num: number): string => {
   if (num === undefined || num === null) return 'N/A';
   return new Intl.NumberFormat('en-US').format(num);
 };
 
-const SortableHeader: React.FC<{
-  label: string;
-  sortKey: SortableAuctionKeys;
-  sortConfig: SortConfig<SortableAuctionKeys> | null;
-  requestSort: (key: SortableAuctionKeys) => void;
-}> = ({ label, sortKey, sortConfig, requestSort }) => {
-  const isSorted = sortConfig?.key === sortKey;
-  const directionIcon = isSorted ? (sortConfig.direction === 'ascending' ? '▲' : '▼') : '';
-
-  return (
-    <th
-      scope="col"
-      className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer"
-      onClick={() => requestSort(sortKey)}
-    >
-      <span className="flex items-center">
-        {label}
-        <span className="ml-2">{directionIcon}</span>
-      </span>
-    </th>
-  );
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return 'N/A';
+  const minutes = ms / 60000;
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)}h`;
+  return `${Math.round(minutes / 1440)}d`;
 };
 
+const confidenceColor = (confidence: number): string =>
+  confidence >= 0.7 ? 'text-green-400' : confidence >= 0.4 ? 'text-yellow-400' : 'text-red-400';
+
+const getName = (flip: AuctionFlip) => flip.itemName;
+const getRarity = (flip: AuctionFlip) => flip.rarity;
+const getRowKey = (flip: AuctionFlip) => flip.id;
+
 export const AuctionFlips: React.FC = () => {
   const [flips, setFlips] = useState<AuctionFlip[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [sortConfig, setSortConfig] = useState<SortConfig<SortableAuctionKeys> | null>({ key: 'profit', direction: 'descending' });
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [selectedItem, setSelectedItem] = useState<ItemDetailTarget | null>(null);
+  const [journalBuy, setJournalBuy] = useState<JournalBuy | null>(null);
+  const [priceStrategy, setPriceStrategy] = useState<PriceStrategyId>(loadPriceStrategy);
+  const [minConfidence, setMinConfidence] = useState<number>(0);
+  const [settings, setSettings] = useState<ScannerSettings>(loadScannerSettings);
+  const [comparableConfig, setComparableConfig] = useState<ComparableConfig>(loadComparableConfig);
+  const [itemLists, setItemLists] = useState<ItemLists>(loadItemLists);
 
+  const [partialFlips, setPartialFlips] = useState<AuctionFlip[]>([]);
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+  const scanRef = useRef<ScanSubscription | null>(null);
 
-  const fetchFlips = useCallback(async () => {
+  const fetchFlips = useCallback(() => {
+    scanRef.current?.cancel();
     setIsLoading(true);
     setError(null);
-    try {
-      const newFlips = await fetchAuctionFlips();
-      setFlips(newFlips);
-      if (newFlips.length === 0) {
-        setError('No profitable auction flips found at the moment. Check back soon!');
-      }
-      setLastUpdated(new Date());
-    } catch (err) {
-      setError('Failed to fetch data from Hypixel API. This can happen during high traffic. Please try again later.');
-      console.error(err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    setProgress(null);
+    setPartialFlips([]);
+
+    const found: AuctionFlip[] = [];
+    scanRef.current = scanAuctionFlips({
+      onProgress: setProgress,
+      onPartial: batch => {
+        found.push(...batch);
+        setPartialFlips([...found]);
+      },
+      onResult: newFlips => {
+        publishFinderResult('auctionFlips', auctionWatchCandidates(newFlips));
+        setFlips(newFlips);
+        setPartialFlips([]);
+        if (newFlips.length === 0) {
+          setError('No profitable auction flips found at the moment. Check back soon!');
+        }
+        setLastUpdated(new Date());
+        setIsLoading(false);
+      },
+      onError: message => {
+        setError('Failed to fetch data from Hypixel API. This can happen during high traffic. Please try again later.');
+        console.error(message);
+        setIsLoading(false);
+      },
+    }, comparableConfig, loadFeeSettings(), priceStrategy, settings, itemLists);
+  }, [priceStrategy, settings, comparableConfig, itemLists]);
+
+  useEffect(() => subscribeScannerSettings(setSettings), []);
+  useEffect(() => subscribeComparableConfig(setComparableConfig), []);
+  useEffect(() => subscribeItemLists(setItemLists), []);
 
   useEffect(() => {
     fetchFlips();
-    const intervalId = setInterval(fetchFlips, 60000); // Refresh every 60 seconds
-    return () => clearInterval(intervalId);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  const requestSort = (key: SortableAuctionKeys) => {
-    let direction: 'ascending' | 'descending' = 'ascending';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-      direction = 'descending';
-    }
-    setSortConfig({ key, direction });
+    const intervalId = setInterval(fetchFlips, settings.auctionRefreshSeconds * 1000);
+    return () => {
+      clearInterval(intervalId);
+      scanRef.current?.cancel();
+    };
+  }, [fetchFlips, settings.auctionRefreshSeconds]);
+
+  const handleStrategyChange = (strategy: PriceStrategyId) => {
+    setFlips([]); // Prices from the previous strategy would be misleading until the rescan finishes
+    setPriceStrategy(strategy);
+    savePriceStrategy(strategy);
+  };
+
+  // Blocks the item for future scans and drops its rows from the current results right away.
+  const hideItem = (flip: AuctionFlip) => {
+    blockItem(flip.itemId);
+    setFlips(prev => prev.filter(f => f.itemId !== flip.itemId));
+    setPartialFlips(prev => prev.filter(f => f.itemId !== flip.itemId));
   };
 
   const handleCopyCommand = (auctionId: string) => {
@@ -84,23 +122,66 @@ export const AuctionFlips: React.FC = () => {
     }, 2000); // Reset after 2 seconds
   };
 
-  const sortedFlips = useMemo(() => {
-    let sortableItems = [...flips];
-    if (sortConfig !== null) {
-      sortableItems.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
-          return sortConfig.direction === 'ascending' ? -1 : 1;
-        }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
-          return sortConfig.direction === 'ascending' ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-    return sortableItems;
-  }, [flips, sortConfig]);
-  
-  const loadingMessage = 'Scanning all active auctions for flips... This may take a moment.';
+  // Until the first scan completes, show flips as the worker streams them in.
+  const visibleFlips = useMemo(
+    () => (flips.length === 0 ? partialFlips : flips).filter(flip => flip.confidence >= minConfidence),
+    [flips, partialFlips, minConfidence]
+  );
+
+  const columns: DataTableColumn<AuctionFlip, SortableAuctionKeys>[] = [
+    {
+      id: 'itemName',
+      label: 'Item Name',
+      hideable: false,
+      render: flip => (
+        <ItemCell
+          itemName={flip.itemName}
+          rarity={flip.rarity}
+          lore={flip.lore}
+          subtitle={flip.comparableKey}
+          onClick={() => setSelectedItem({ itemId: flip.itemId, itemName: flip.itemName, source: 'auction', buyPrice: flip.lowestBin, sellPrice: flip.marketPrice })}
+        />
+      ),
+    },
+    { id: 'profit', label: 'Net Profit', sortKey: 'profit', className: 'text-green-400 font-bold', render: flip => `+${formatNumber(flip.profit)}` },
+    { id: 'grossProfit', label: 'Gross', sortKey: 'grossProfit', render: flip => formatNumber(flip.grossProfit) },
+    { id: 'fees', label: 'Fees', sortKey: 'fees', className: 'text-red-400', render: flip => `-${formatNumber(flip.fees)}` },
+    { id: 'lowestBin', label: 'Lowest BIN', sortKey: 'lowestBin', render: flip => formatNumber(flip.lowestBin) },
+    { id: 'marketPrice', label: 'Market Price', sortKey: 'marketPrice', render: flip => formatNumber(flip.marketPrice) },
+    { id: 'confidence', label: 'Confidence', sortKey: 'confidence', className: flip => confidenceColor(flip.confidence), render: flip => `${Math.round(flip.confidence * 100)}%` },
+    { id: 'salesPerHour', label: 'Sales/h', sortKey: 'salesPerHour', render: flip => flip.salesPerHour },
+    { id: 'medianTimeToSell', label: 'Time to Sell', sortKey: 'medianTimeToSell', render: flip => formatDuration(flip.medianTimeToSell) },
+    { id: 'coinsPerHour', label: 'Coins/h', sortKey: 'coinsPerHour', className: 'text-green-400', render: flip => formatNumber(flip.coinsPerHour) },
+    {
+      id: 'action',
+      label: 'Action',
+      align: 'right',
+      render: flip => (
+        <div className="flex justify-end gap-2">
+          <LogBuyButton onClick={() => setJournalBuy({
+            source: 'auction', priceStrategy: flip.priceStrategy, itemId: flip.itemId, itemName: flip.itemName,
+            buyPrice: flip.lowestBin, predictedSellPrice: flip.marketPrice, predictedUnitProfit: flip.profit,
+          })} />
+          <button
+            onClick={() => handleCopyCommand(flip.id)}
+            className={`px-3 py-1 text-sm rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 ${
+              copiedId === flip.id
+                ? 'bg-green-500 text-white'
+                : 'bg-purple-600 hover:bg-purple-700 text-white'
+            }`}
+          >
+            {copiedId === flip.id ? 'Copied!' : 'Copy Command'}
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  const loadingMessage = !progress
+    ? 'Scanning all active auctions for flips... This may take a moment.'
+    : progress.phase === 'fetching'
+      ? `Downloading auction pages... (${progress.done}/${progress.total})`
+      : `Pricing auctions against comparables... (${progress.done}/${progress.total})`;
 
   return (
     <div className="bg-gray-800 rounded-xl shadow-2xl p-4 sm:p-6">
@@ -108,57 +189,64 @@ export const AuctionFlips: React.FC = () => {
         <h2 className="text-2xl font-bold text-white">Auction Flips</h2>
         <div className="text-right">
           <button onClick={fetchFlips} disabled={isLoading} className="text-sm text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-wait">
-            {isLoading && flips.length === 0 ? 'Refreshing...' : 'Refresh Now'}
+            {isLoading && visibleFlips.length === 0 ? 'Refreshing...' : 'Refresh Now'}
           </button>
           {lastUpdated && <p className="text-xs text-gray-400 mt-1">Last Updated: {lastUpdated.toLocaleTimeString()}</p>}
         </div>
       </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          Price strategy
+          <select
+            value={priceStrategy}
+            onChange={e => handleStrategyChange(e.target.value as PriceStrategyId)}
+            className="bg-gray-700 text-white rounded-md px-2 py-1"
+          >
+            {Object.values(PRICE_STRATEGIES).map(strategy => (
+              <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Min. confidence
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(minConfidence * 100)}
+            onChange={e => setMinConfidence(Number(e.target.value) / 100)}
+          />
+          <span className="w-10">{Math.round(minConfidence * 100)}%</span>
+        </label>
+        <p className="text-xs text-gray-400">{PRICE_STRATEGIES[priceStrategy].description}</p>
+      </div>
       
-      {isLoading && flips.length === 0 ? (
+      {isLoading && visibleFlips.length === 0 ? (
          <div className="flex justify-center items-center h-96 flex-col">
             <Spinner size="h-12 w-12" />
             <p className="mt-4 text-gray-400 text-center">{loadingMessage}</p>
          </div>
-      ) : error && sortedFlips.length === 0 ? (
+      ) : error && visibleFlips.length === 0 ? (
         <div className="text-center py-10 px-4 text-orange-400 bg-gray-700/50 rounded-lg">{error}</div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-700">
-            <thead className="bg-gray-700/50">
-              <tr>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Item Name</th>
-                <SortableHeader label="Profit" sortKey="profit" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Lowest BIN" sortKey="lowestBin" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Market Price" sortKey="marketPrice" sortConfig={sortConfig} requestSort={requestSort} />
-                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-300 uppercase tracking-wider">Action</th>
-              </tr>
-            </thead>
-            <tbody className="bg-gray-800 divide-y divide-gray-700">
-              {sortedFlips.map((flip) => (
-                <tr key={flip.id} className="hover:bg-gray-700/50 transition-colors duration-150">
-                  <ItemCell itemName={flip.itemName} rarity={flip.rarity} lore={flip.lore} />
-                  <td className="px-6 py-4 whitespace-nowrap text-green-400 font-bold">+{formatNumber(flip.profit)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">{formatNumber(flip.lowestBin)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">{formatNumber(flip.marketPrice)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right">
-                    <button 
-                      onClick={() => handleCopyCommand(flip.id)}
-                      className={`px-3 py-1 text-sm rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 ${
-                        copiedId === flip.id
-                          ? 'bg-green-500 text-white'
-                          : 'bg-purple-600 hover:bg-purple-700 text-white'
-                      }`}
-                    >
-                      {copiedId === flip.id ? 'Copied!' : 'Copy Command'}
-                    </button>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          {error && sortedFlips.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
-        </div>
+        <>
+          <DataTable
+            tableId="auctionFlips"
+            rows={visibleFlips}
+            columns={columns}
+            getRowKey={getRowKey}
+            getName={getName}
+            getRarity={getRarity}
+            defaultSort={[{ key: 'profit', direction: 'descending' }]}
+            onHideRow={hideItem}
+          />
+          {error && visibleFlips.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
+        </>
       )}
+      {selectedItem && <ItemDetailPanel item={selectedItem} onClose={() => setSelectedItem(null)} />}
+      {journalBuy && <JournalBuyDialog buy={journalBuy} onClose={() => setJournalBuy(null)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,15 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { fetchBazaarFlips } from '../services/hypixelService';
-import { BazaarFlip, SortConfig, SortableBazaarKeys } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchBazaarFlips, fetchBazaarOrderFlips } from '../services/hypixelService';
+import { BazaarFlip, BazaarOrderFlip, SortableBazaarKeys, SortableBazaarOrderKeys } from '../types';
+import { loadFeeSettings } from '../services/feeService';
+import { loadScannerSettings, ScannerSettings, subscribeScannerSettings } from '../services/scannerSettingsService';
+import { blockItem, ItemLists, loadItemLists, subscribeItemLists } from '../services/itemListService';
+import { bazaarWatchCandidates, publishFinderResult } from '../services/watchlistService';
+import type { JournalBuy } from '../services/journalService';
 import { Spinner } from './ui/Spinner';
+import { ItemDetailPanel, ItemDetailTarget } from './ItemDetailPanel';
+import { JournalBuyDialog, LogBuyButton } from './JournalBuyDialog';
+import { DataTable, DataTableColumn } from './ui/DataTable';
 
 const formatNumber = (num: number): string => {
   if (num === undefined || num === null) return 'N/A';
@@ -10,89 +18,146 @@ const formatNumber = (num: number): string => {
   return new Intl.NumberFormat('en-US').format(Math.round(num));
 };
 
-const SortableHeader: React.FC<{
-  label: string;
-  sortKey: SortableBazaarKeys;
-  sortConfig: SortConfig<SortableBazaarKeys> | null;
-  requestSort: (key: SortableBazaarKeys) => void;
-}> = ({ label, sortKey, sortConfig, requestSort }) => {
-  const isSorted = sortConfig?.key === sortKey;
-  const directionIcon = isSorted ? (sortConfig.direction === 'ascending' ? '▲' : '▼') : '';
+type BazaarMode = 'instant' | 'orders';
 
-  return (
-    <th
-      scope="col"
-      className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer"
-      onClick={() => requestSort(sortKey)}
-    >
-      <span className="flex items-center">
-        {label}
-        <span className="ml-2">{directionIcon}</span>
-      </span>
-    </th>
-  );
-};
+type BazaarRow = BazaarFlip | BazaarOrderFlip;
+
+const getName = (flip: BazaarRow) => flip.itemName;
+const getRowKey = (flip: BazaarRow) => flip.id;
 
 export const BazaarFlips: React.FC = () => {
+  const [mode, setMode] = useState<BazaarMode>('instant');
   const [flips, setFlips] = useState<BazaarFlip[]>([]);
+  const [orderFlips, setOrderFlips] = useState<BazaarOrderFlip[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [sortConfig, setSortConfig] = useState<SortConfig<SortableBazaarKeys> | null>({ key: 'profit', direction: 'descending' });
+  const [selectedItem, setSelectedItem] = useState<ItemDetailTarget | null>(null);
+  const [journalBuy, setJournalBuy] = useState<JournalBuy | null>(null);
+  const [settings, setSettings] = useState<ScannerSettings>(loadScannerSettings);
+  const [itemLists, setItemLists] = useState<ItemLists>(loadItemLists);
+
+  // Aborted when a newer fetch starts, so a slow response never overwrites a fresher one.
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchFlips = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     setError(null);
     try {
-      const newFlips = await fetchBazaarFlips();
-      setFlips(newFlips);
-      if (newFlips.length === 0) {
+      let foundCount: number;
+      if (mode === 'instant') {
+        const newFlips = await fetchBazaarFlips(loadFeeSettings(), settings, itemLists);
+        if (controller.signal.aborted) return;
+        publishFinderResult('bazaarFlips', bazaarWatchCandidates(newFlips));
+        setFlips(newFlips);
+        foundCount = newFlips.length;
+      } else {
+        const newFlips = await fetchBazaarOrderFlips(loadFeeSettings(), settings, itemLists);
+        if (controller.signal.aborted) return;
+        publishFinderResult('bazaarOrderFlips', bazaarWatchCandidates(newFlips));
+        setOrderFlips(newFlips);
+        foundCount = newFlips.length;
+      }
+      if (foundCount === 0) {
           setError('No profitable bazaar flips found right now. Markets might be stable.');
       }
       setLastUpdated(new Date());
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError('Failed to fetch bazaar data from Hypixel API. Please try again later.');
       console.error(err);
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) setIsLoading(false);
     }
-  }, []);
+  }, [mode, settings, itemLists]);
+
+  useEffect(() => subscribeScannerSettings(setSettings), []);
+  useEffect(() => subscribeItemLists(setItemLists), []);
 
   useEffect(() => {
     fetchFlips();
-    const intervalId = setInterval(fetchFlips, 30000); // Refresh every 30 seconds
-    return () => clearInterval(intervalId);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  const requestSort = (key: SortableBazaarKeys) => {
-    let direction: 'ascending' | 'descending' = 'ascending';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-      direction = 'descending';
-    }
-    setSortConfig({ key, direction });
+    const intervalId = setInterval(fetchFlips, settings.bazaarRefreshSeconds * 1000);
+    return () => {
+      clearInterval(intervalId);
+      abortRef.current?.abort();
+    };
+  }, [fetchFlips, settings.bazaarRefreshSeconds]);
+
+  // Blocks the product for future refreshes and drops it from both modes right away.
+  const hideItem = (flip: BazaarRow) => {
+    blockItem(flip.id);
+    setFlips(prev => prev.filter(f => f.id !== flip.id));
+    setOrderFlips(prev => prev.filter(f => f.id !== flip.id));
   };
 
-  const sortedFlips = useMemo(() => {
-    let sortableItems = [...flips];
-    if (sortConfig !== null) {
-      sortableItems.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
-          return sortConfig.direction === 'ascending' ? -1 : 1;
-        }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
-          return sortConfig.direction === 'ascending' ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-    return sortableItems;
-  }, [flips, sortConfig]);
+  const visibleCount = mode === 'instant' ? flips.length : orderFlips.length;
+
+  const itemNameColumn = <T extends { id: string; itemName: string },>(prices: (flip: T) => [number, number]): DataTableColumn<T, never> => ({
+    id: 'itemName',
+    label: 'Item Name',
+    hideable: false,
+    className: 'font-semibold text-cyan-300',
+    render: flip => {
+      const [buyPrice, sellPrice] = prices(flip);
+      return <span className="cursor-pointer hover:underline" onClick={() => setSelectedItem({ itemId: flip.id, itemName: flip.itemName, source: 'bazaar', buyPrice, sellPrice })}>{flip.itemName}</span>;
+    },
+  });
+
+  const columns: DataTableColumn<BazaarFlip, SortableBazaarKeys>[] = [
+    itemNameColumn<BazaarFlip>(flip => [flip.buyPrice, flip.sellPrice]),
+    { id: 'profit', label: 'Net Profit Per Item', sortKey: 'profit', className: 'text-green-400 font-bold', render: flip => `+${formatNumber(flip.profit)}` },
+    { id: 'grossProfit', label: 'Gross', sortKey: 'grossProfit', render: flip => formatNumber(flip.grossProfit) },
+    { id: 'fees', label: 'Tax', sortKey: 'fees', className: 'text-red-400', render: flip => `-${formatNumber(flip.fees)}` },
+    { id: 'buyPrice', label: 'Buy For (Each)', sortKey: 'buyPrice', className: 'text-red-400', render: flip => formatNumber(flip.buyPrice) },
+    { id: 'sellPrice', label: 'Sell For (Each)', sortKey: 'sellPrice', className: 'text-green-400', render: flip => formatNumber(flip.sellPrice) },
+    { id: 'buyVolume', label: 'Weekly Demand', sortKey: 'buyVolume', className: 'text-gray-400', render: flip => formatNumber(flip.buyVolume) },
+    { id: 'sellVolume', label: 'Weekly Supply', sortKey: 'sellVolume', className: 'text-gray-400', render: flip => formatNumber(flip.sellVolume) },
+    {
+      id: 'journal',
+      label: 'Journal',
+      align: 'right',
+      render: flip => <LogBuyButton onClick={() => setJournalBuy({
+        source: 'bazaar', itemId: flip.id, itemName: flip.itemName, buyPrice: flip.buyPrice, predictedSellPrice: flip.sellPrice, predictedUnitProfit: flip.profit,
+      })} />,
+    },
+  ];
+
+  const orderColumns: DataTableColumn<BazaarOrderFlip, SortableBazaarOrderKeys>[] = [
+    itemNameColumn<BazaarOrderFlip>(flip => [flip.buyOrderPrice, flip.sellOfferPrice]),
+    { id: 'coinsPerHour', label: 'Coins / Hour', sortKey: 'coinsPerHour', className: 'text-green-400 font-bold', render: flip => `+${formatNumber(flip.coinsPerHour)}` },
+    { id: 'buyOrderPrice', label: 'Buy Order At', sortKey: 'buyOrderPrice', className: 'text-red-400', render: flip => flip.buyOrderPrice.toFixed(1) },
+    { id: 'sellOfferPrice', label: 'Sell Offer At', sortKey: 'sellOfferPrice', className: 'text-green-400', render: flip => flip.sellOfferPrice.toFixed(1) },
+    { id: 'profit', label: 'Net / Unit', sortKey: 'profit', className: 'text-green-400', render: flip => formatNumber(flip.profit) },
+    { id: 'grossProfit', label: 'Spread', sortKey: 'grossProfit', render: flip => formatNumber(flip.grossProfit) },
+    { id: 'fees', label: 'Tax / Unit', sortKey: 'fees', className: 'text-red-400', render: flip => `-${formatNumber(flip.fees)}` },
+    { id: 'unitsPerHour', label: 'Units / Hour', sortKey: 'unitsPerHour', className: 'text-gray-400', render: flip => formatNumber(flip.unitsPerHour) },
+    { id: 'depth', label: 'Top of Book', sortKey: 'buyOrderDepth', className: 'text-gray-400', render: flip => `${formatNumber(flip.buyOrderDepth)} / ${formatNumber(flip.sellOfferDepth)}` },
+    {
+      id: 'journal',
+      label: 'Journal',
+      align: 'right',
+      render: flip => <LogBuyButton onClick={() => setJournalBuy({
+        source: 'bazaarOrder', itemId: flip.id, itemName: flip.itemName, buyPrice: flip.buyOrderPrice, predictedSellPrice: flip.sellOfferPrice, predictedUnitProfit: flip.profit,
+      })} />,
+    },
+  ];
+
+  const modeButtonClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
 
   return (
     <div className="bg-gray-800 rounded-xl shadow-2xl p-4 sm:p-6">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-2xl font-bold text-white">Bazaar Flips</h2>
+        <div>
+          <h2 className="text-2xl font-bold text-white">Bazaar Flips</h2>
+          <div className="flex space-x-2 mt-2">
+            <button onClick={() => setMode('instant')} className={modeButtonClasses(mode === 'instant')}>Instant Flips</button>
+            <button onClick={() => setMode('orders')} className={modeButtonClasses(mode === 'orders')}>Order Flips</button>
+          </div>
+        </div>
         <div className="text-right">
           <button onClick={fetchFlips} disabled={isLoading} className="text-sm text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-wait">
             {isLoading ? 'Refreshing...' : 'Refresh Now'}
@@ -101,42 +166,43 @@ export const BazaarFlips: React.FC = () => {
         </div>
       </div>
       
-      {isLoading && flips.length === 0 ? (
+      {isLoading && visibleCount === 0 ? (
         <div className="flex justify-center items-center h-96 flex-col">
           <Spinner size="h-12 w-12" />
           <p className="mt-4 text-gray-400">Fetching live bazaar data from Hypixel...</p>
         </div>
-      ) : error && sortedFlips.length === 0 ? (
+      ) : error && visibleCount === 0 ? (
         <div className="text-center py-10 px-4 text-orange-400 bg-gray-700/50 rounded-lg">{error}</div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-700">
-            <thead className="bg-gray-700/50">
-              <tr>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Item Name</th>
-                <SortableHeader label="Profit Per Item" sortKey="profit" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Buy For (Each)" sortKey="buyPrice" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Sell For (Each)" sortKey="sellPrice" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Weekly Demand" sortKey="buyVolume" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Weekly Supply" sortKey="sellVolume" sortConfig={sortConfig} requestSort={requestSort} />
-              </tr>
-            </thead>
-            <tbody className="bg-gray-800 divide-y divide-gray-700">
-              {sortedFlips.map((flip) => (
-                <tr key={flip.id} className="hover:bg-gray-700/50 transition-colors duration-150">
-                  <td className="px-6 py-4 whitespace-nowrap font-semibold text-cyan-300">{flip.itemName}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-green-400 font-bold">+{formatNumber(flip.profit)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-red-400">{formatNumber(flip.buyPrice)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-green-400">{formatNumber(flip.sellPrice)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-gray-400">{formatNumber(flip.buyVolume)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-gray-400">{formatNumber(flip.sellVolume)}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          {error && sortedFlips.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
-        </div>
+        <>
+          {/* Separate slots, so switching modes mounts a fresh table instead of reusing the other's sort */}
+          {mode === 'orders' && (
+            <DataTable
+              tableId="bazaarOrderFlips"
+              rows={orderFlips}
+              columns={orderColumns}
+              getRowKey={getRowKey}
+              getName={getName}
+              defaultSort={[{ key: 'coinsPerHour', direction: 'descending' }]}
+              onHideRow={hideItem}
+            />
+          )}
+          {mode === 'instant' && (
+            <DataTable
+              tableId="bazaarFlips"
+              rows={flips}
+              columns={columns}
+              getRowKey={getRowKey}
+              getName={getName}
+              defaultSort={[{ key: 'profit', direction: 'descending' }]}
+              onHideRow={hideItem}
+            />
+          )}
+          {error && visibleCount > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
+        </>
       )}
+      {selectedItem && <ItemDetailPanel item={selectedItem} onClose={() => setSelectedItem(null)} />}
+      {journalBuy && <JournalBuyDialog buy={journalBuy} onClose={() => setJournalBuy(null)} />}
     </div>
   );
 };
@@ -1,95 +1,169 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { fetchItemsForAnalysis, fetchCraftingFlips } from '../services/hypixelService';
-import { CraftingFlip, SortConfig, SortableCraftingKeys } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchCraftingFlips, ItemForAnalysis } from '../services/hypixelService';
+import { requestItemsForAnalysis } from '../services/auctionWorkerClient';
+import { loadFeeSettings } from '../services/feeService';
+import { loadScannerSettings } from '../services/scannerSettingsService';
+import { blockItem, loadItemLists } from '../services/itemListService';
+import type { JournalBuy } from '../services/journalService';
+import { CraftingFlip, SortableCraftingKeys } from '../types';
 import { Spinner } from './ui/Spinner';
+import { ItemDetailPanel, ItemDetailTarget } from './ItemDetailPanel';
+import { JournalBuyDialog, LogBuyButton } from './JournalBuyDialog';
 import { ItemCell } from './ui/ItemCell';
+import { DataTable, DataTableColumn } from './ui/DataTable';
 
 const formatNumber = (num: number): string => {
   if (num === undefined || num === null) return 'N/A';
   return new Intl.NumberFormat('en-US').format(num);
 };
 
-const SortableHeader: React.FC<{
-  label: string;
-  sortKey: SortableCraftingKeys;
-  sortConfig: SortConfig<SortableCraftingKeys> | null;
-  requestSort: (key: SortableCraftingKeys) => void;
-}> = ({ label, sortKey, sortConfig, requestSort }) => {
-  const isSorted = sortConfig?.key === sortKey;
-  const directionIcon = isSorted ? (sortConfig.direction === 'ascending' ? '▲' : '▼') : '';
-  return (
-    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer" onClick={() => requestSort(sortKey)}>
-      <span className="flex items-center">{label}<span className="ml-2">{directionIcon}</span></span>
-    </th>
-  );
-};
+const getName = (flip: CraftingFlip) => flip.itemName;
+const getRarity = (flip: CraftingFlip) => flip.rarity;
+const getRowKey = (flip: CraftingFlip) => flip.id;
 
 export const CraftingFlips: React.FC = () => {
   const [flips, setFlips] = useState<CraftingFlip[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [sortConfig, setSortConfig] = useState<SortConfig<SortableCraftingKeys> | null>({ key: 'profit', direction: 'descending' });
   const [progress, setProgress] = useState(0);
+  const [selectedItem, setSelectedItem] = useState<ItemDetailTarget | null>(null);
+  const [journalBuy, setJournalBuy] = useState<JournalBuy | null>(null);
+  const [useAiFallback, setUseAiFallback] = useState<boolean>(false);
+  const [useBuyOrders, setUseBuyOrders] = useState<boolean>(true);
+  const [reanalyzing, setReanalyzing] = useState<Set<string>>(new Set());
+
+  const abortRef = useRef<AbortController | null>(null);
+  const itemsRef = useRef<Map<string, ItemForAnalysis>>(new Map());
 
   const fetchData = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     setError(null);
     setProgress(0);
     setFlips([]);
     try {
-      const itemsToAnalyze = await fetchItemsForAnalysis(30); // Analyze more items for crafting
+      const settings = loadScannerSettings();
+      const itemLists = loadItemLists();
+      const itemsToAnalyze = await requestItemsForAnalysis(settings.craftingAnalysisItems, controller.signal, itemLists);
+      itemsRef.current = new Map(itemsToAnalyze.map(item => [item.id, item]));
       if (itemsToAnalyze.length === 0) {
         setError('Could not find any suitable items to analyze for crafting flips.');
         setIsLoading(false);
         return;
       }
       
-      const newFlips = await fetchCraftingFlips(itemsToAnalyze, setProgress);
-      
-      setFlips(newFlips);
+      const newFlips = await fetchCraftingFlips(itemsToAnalyze, setProgress, {
+        fees: loadFeeSettings(),
+        settings,
+        itemLists,
+        useAiFallback,
+        useBuyOrders,
+        signal: controller.signal,
+        onFlip: flip => setFlips(prev => [...prev, flip]),
+      });
+
       if (newFlips.length === 0) {
-        setError('AI analysis complete. No profitable crafting flips found at the moment.');
+        setError('Recipe analysis complete. No profitable crafting flips found at the moment.');
       }
       setLastUpdated(new Date());
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError('Failed to fetch data for crafting analysis. The Hypixel API might be down.');
       console.error(err);
     } finally {
-      setIsLoading(false);
-      setProgress(100);
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+        setProgress(100);
+      }
     }
-  }, []);
+  }, [useAiFallback, useBuyOrders]);
 
   useEffect(() => {
     fetchData();
+    return () => abortRef.current?.abort();
   }, [fetchData]);
 
-  const requestSort = (key: SortableCraftingKeys) => {
-    let direction: 'ascending' | 'descending' = 'ascending';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-      direction = 'descending';
+  // Asks the AI for a row's recipe again, replacing the cached one. The row disappears if
+  // the new recipe no longer makes the craft profitable.
+  const reanalyze = async (flip: CraftingFlip) => {
+    const item = itemsRef.current.get(flip.id);
+    if (!item) return;
+    setReanalyzing(prev => new Set(prev).add(flip.id));
+    try {
+      const [updated] = await fetchCraftingFlips([item], () => {}, { fees: loadFeeSettings(), settings: loadScannerSettings(), useAiFallback: true, useBuyOrders, refreshRecipes: true });
+      setFlips(prev => updated ? prev.map(f => f.id === flip.id ? updated : f) : prev.filter(f => f.id !== flip.id));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setReanalyzing(prev => {
+        const next = new Set(prev);
+        next.delete(flip.id);
+        return next;
+      });
     }
-    setSortConfig({ key, direction });
   };
 
-  const sortedFlips = useMemo(() => {
-    let sortableItems = [...flips];
-    if (sortConfig !== null) {
-      sortableItems.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
-          return sortConfig.direction === 'ascending' ? -1 : 1;
-        }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
-          return sortConfig.direction === 'ascending' ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-    return sortableItems;
-  }, [flips, sortConfig]);
+  const hideItem = (flip: CraftingFlip) => {
+    blockItem(flip.itemId);
+    setFlips(prev => prev.filter(f => f.itemId !== flip.itemId));
+  };
 
-  const loadingMessage = `AI is analyzing recipes and costs... (${progress}%)`;
+  const columns: DataTableColumn<CraftingFlip, SortableCraftingKeys>[] = [
+    {
+      id: 'itemName',
+      label: 'Item Name',
+      hideable: false,
+      render: flip => (
+        <ItemCell
+          itemName={flip.itemName}
+          rarity={flip.rarity}
+          recipe={flip.recipe}
+          costTree={flip.costTree}
+          subtitle={flip.recipeSource === 'ai' ? 'AI-suggested recipe' : undefined}
+          onClick={() => setSelectedItem({ itemId: flip.itemId, itemName: flip.itemName, source: 'auction', buyPrice: flip.craftCost, sellPrice: flip.marketPrice })}
+        />
+      ),
+    },
+    { id: 'profit', label: 'Net Profit', sortKey: 'profit', className: 'text-green-400 font-bold', render: flip => `+${formatNumber(flip.profit)}` },
+    { id: 'grossProfit', label: 'Gross', sortKey: 'grossProfit', render: flip => formatNumber(flip.grossProfit) },
+    { id: 'fees', label: 'Fees', sortKey: 'fees', className: 'text-red-400', render: flip => `-${formatNumber(flip.fees)}` },
+    { id: 'craftCost', label: 'Craft Cost', sortKey: 'craftCost', className: 'text-red-400', render: flip => formatNumber(flip.craftCost) },
+    { id: 'marketPrice', label: 'Market Price', sortKey: 'marketPrice', className: 'text-cyan-400', render: flip => formatNumber(flip.marketPrice) },
+    {
+      id: 'recipe',
+      label: 'Recipe',
+      className: 'text-xs',
+      render: flip => flip.recipeSource === 'ai' ? (
+        <>
+          <span className={flip.recipeCacheHit ? 'text-gray-400' : 'text-cyan-400'}>{flip.recipeCacheHit ? 'AI, cached' : 'AI, fresh'}</span>
+          <button
+            onClick={() => reanalyze(flip)}
+            disabled={reanalyzing.has(flip.id)}
+            className="block mt-1 text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-wait"
+          >
+            {reanalyzing.has(flip.id) ? 'Analyzing...' : 'Re-analyze'}
+          </button>
+        </>
+      ) : (
+        <span className="text-gray-400">Database</span>
+      ),
+    },
+    {
+      id: 'journal',
+      label: 'Journal',
+      align: 'right',
+      render: flip => <LogBuyButton onClick={() => setJournalBuy({
+        source: 'crafting', itemId: flip.itemId, itemName: flip.itemName, buyPrice: flip.craftCost, predictedSellPrice: flip.marketPrice, predictedUnitProfit: flip.profit,
+      })} />,
+    },
+  ];
+
+  const loadingMessage = useAiFallback
+    ? `Resolving recipes (asking AI for unknown ones) and costs... (${progress}%)`
+    : `Resolving recipes and costs... (${progress}%)`;
 
   return (
     <div className="bg-gray-800 rounded-xl shadow-2xl p-4 sm:p-6">
@@ -103,41 +177,52 @@ export const CraftingFlips: React.FC = () => {
             {isLoading ? 'Analyzing...' : 'Refresh Analysis'}
           </button>
           {lastUpdated && <p className="text-xs text-gray-400 mt-1">Last Updated: {lastUpdated.toLocaleTimeString()}</p>}
+          <label className="flex items-center justify-end text-xs text-gray-400 mt-1 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-2 accent-purple-500"
+              checked={useAiFallback}
+              onChange={e => setUseAiFallback(e.target.checked)}
+            />
+            Ask AI for recipes missing from the database
+          </label>
+          <label className="flex items-center justify-end text-xs text-gray-400 mt-1 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-2 accent-purple-500"
+              checked={useBuyOrders}
+              onChange={e => setUseBuyOrders(e.target.checked)}
+            />
+            Allow buy orders for ingredients
+          </label>
         </div>
       </div>
       
-      {isLoading ? (
+      {isLoading && flips.length === 0 ? (
          <div className="flex justify-center items-center h-96 flex-col">
             <Spinner size="h-12 w-12" />
             <p className="mt-4 text-gray-400 text-center">{loadingMessage}</p>
          </div>
-      ) : error && sortedFlips.length === 0 ? (
+      ) : error && flips.length === 0 ? (
         <div className="text-center py-10 px-4 text-orange-400 bg-gray-700/50 rounded-lg">{error}</div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-700">
-            <thead className="bg-gray-700/50">
-              <tr>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Item Name</th>
-                <SortableHeader label="Profit" sortKey="profit" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Craft Cost" sortKey="craftCost" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Market Price" sortKey="marketPrice" sortConfig={sortConfig} requestSort={requestSort} />
-              </tr>
-            </thead>
-            <tbody className="bg-gray-800 divide-y divide-gray-700">
-              {sortedFlips.map((flip) => (
-                <tr key={flip.id} className="hover:bg-gray-700/50 transition-colors duration-150">
-                  <ItemCell itemName={flip.itemName} rarity={flip.rarity} recipe={flip.recipe} />
-                  <td className="px-6 py-4 whitespace-nowrap text-green-400 font-bold">+{formatNumber(flip.profit)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-red-400">{formatNumber(flip.craftCost)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-cyan-400">{formatNumber(flip.marketPrice)}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          {error && sortedFlips.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
-        </div>
+        <>
+          {isLoading && <p className="text-sm text-gray-400 mb-2">{loadingMessage}</p>}
+          <DataTable
+            tableId="craftingFlips"
+            rows={flips}
+            columns={columns}
+            getRowKey={getRowKey}
+            getName={getName}
+            getRarity={getRarity}
+            defaultSort={[{ key: 'profit', direction: 'descending' }]}
+            onHideRow={hideItem}
+          />
+          {error && flips.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
+        </>
       )}
+      {selectedItem && <ItemDetailPanel item={selectedItem} onClose={() => setSelectedItem(null)} />}
+      {journalBuy && <JournalBuyDialog buy={journalBuy} onClose={() => setJournalBuy(null)} />}
     </div>
   );
 };
@@ -1,9 +1,21 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import type { View } from '../App';
+import { DataSource, isReplayedData } from '../services/auctionWorkerClient';
+
+export interface ActiveSnapshot {
+  fileName: string;
+}
 
 interface HeaderProps {
   currentView: View;
   setCurrentView: (view: View) => void;
+  onOpenSettings: () => void;
+  dataSource: DataSource;
+  snapshot: ActiveSnapshot | null; // Set while views run against a snapshot file instead of the API
+  snapshotStatus: string | null; // Progress or error of the last snapshot action
+  onOpenSnapshot: (file: File) => void;
+  onCloseSnapshot: () => void;
+  onExportSnapshot: () => void;
 }
 
 const NavButton: React.FC<{
@@ -26,7 +38,34 @@ const NavButton: React.FC<{
 };
 
 
-export const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) => {
+const describeDataSource = (dataSource: DataSource, snapshot: ActiveSnapshot | null): React.ReactNode => {
+  if (dataSource.kind === 'snapshot') {
+    return <>Offline snapshot <span className="font-semibold">{snapshot?.fileName}</span> from {new Date(dataSource.recordedAt).toLocaleString()}</>;
+  }
+  const { mode, recordingName } = dataSource.config;
+  switch (mode) {
+    case 'live':
+      return 'Live Hypixel API';
+    case 'record':
+      return <>Live Hypixel API, recording to <span className="font-semibold">{recordingName}</span></>;
+    case 'replay':
+      return <>Replaying recording <span className="font-semibold">{recordingName}</span></>;
+  }
+};
+
+export const Header: React.FC<HeaderProps> = ({
+  currentView, setCurrentView, onOpenSettings, dataSource, snapshot, snapshotStatus, onOpenSnapshot, onCloseSnapshot, onExportSnapshot,
+}) => {
+  const isOffline = isReplayedData(dataSource);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onOpenSnapshot(file);
+    event.target.value = ''; // Allow reopening the same file
+  };
+
   return (
     <header className="bg-gray-800 shadow-lg">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -57,8 +96,41 @@ export const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) =
               isActive={currentView === 'bazaar'}
               onClick={() => setCurrentView('bazaar')}
             />
+            <NavButton
+              label="Portfolio"
+              isActive={currentView === 'portfolio'}
+              onClick={() => setCurrentView('portfolio')}
+            />
+            <NavButton
+              label="Journal"
+              isActive={currentView === 'journal'}
+              onClick={() => setCurrentView('journal')}
+            />
+            <NavButton
+              label="Watchlist"
+              isActive={currentView === 'watchlist'}
+              onClick={() => setCurrentView('watchlist')}
+            />
+            <NavButton
+              label="Settings"
+              isActive={false}
+              onClick={onOpenSettings}
+            />
           </nav>
         </div>
+        <div className={`flex items-center justify-between pb-3 text-sm ${isOffline ? 'text-amber-300' : 'text-gray-400'}`}>
+          <p>
+            {describeDataSource(dataSource, snapshot)}
+            {snapshotStatus && <span className="ml-3 text-gray-400">{snapshotStatus}</span>}
+          </p>
+          <div className="flex space-x-4">
+            <input ref={fileInputRef} type="file" accept=".json,.jsonl,application/json" className="hidden" onChange={handleFileChange} />
+            <button onClick={() => fileInputRef.current?.click()} className="text-purple-400 hover:text-purple-300">Open snapshot</button>
+            {dataSource.kind === 'snapshot'
+              ? <button onClick={onCloseSnapshot} className="text-purple-400 hover:text-purple-300">Close snapshot</button>
+              : <button onClick={onExportSnapshot} className="text-purple-400 hover:text-purple-300">Export snapshot</button>}
+          </div>
+        </div>
       </div>
     </header>
   );
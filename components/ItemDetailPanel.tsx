@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { queryPriceHistory, PriceSnapshot, PriceSource } from '../services/priceHistoryService';
+import { Spinner } from './ui/Spinner';
+import { PriceChart, ChartSeries, ChartOverlay } from './ui/PriceChart';
+
+export interface ItemDetailTarget {
+  itemId: string;
+  itemName: string;
+  source: PriceSource;
+  buyPrice?: number; // Buy point of the flip the panel was opened from
+  sellPrice?: number; // Sell point of the flip the panel was opened from
+}
+
+type HistoryRange = '1h' | '24h' | '7d';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const RANGES: Record<HistoryRange, { span: number; resolution?: number }> = {
+  '1h': { span: HOUR },
+  '24h': { span: 24 * HOUR, resolution: 15 * MINUTE },
+  '7d': { span: 7 * 24 * HOUR, resolution: HOUR },
+};
+
+const toSeries = (snapshots: PriceSnapshot[], label: string, color: string, pick: (s: PriceSnapshot) => number | undefined): ChartSeries => ({
+  label,
+  color,
+  points: snapshots
+    .map(s => ({ x: s.timestamp, y: pick(s) }))
+    .filter((p): p is { x: number; y: number } => p.y !== undefined),
+});
+
+export const ItemDetailPanel: React.FC<{ item: ItemDetailTarget; onClose: () => void }> = ({ item, onClose }) => {
+  const [range, setRange] = useState<HistoryRange>('24h');
+  const [history, setHistory] = useState<PriceSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const { span, resolution } = RANGES[range];
+    const now = Date.now();
+    setIsLoading(true);
+    setError(null);
+    queryPriceHistory({ itemId: item.itemId, source: item.source, from: now - span, to: now, resolution })
+      .then(snapshots => { if (isCurrent) setHistory(snapshots); })
+      .catch(err => {
+        if (isCurrent) setError('Could not read the local price history.');
+        console.error(err);
+      })
+      .finally(() => { if (isCurrent) setIsLoading(false); });
+    return () => { isCurrent = false; };
+  }, [item.itemId, item.source, range]);
+
+  const overlays: ChartOverlay[] = [];
+  if (item.buyPrice !== undefined) overlays.push({ label: 'Flip buy', color: '#f87171', value: item.buyPrice });
+  if (item.sellPrice !== undefined) overlays.push({ label: 'Flip sell', color: '#4ade80', value: item.sellPrice });
+
+  const priceSeries = item.source === 'auction'
+    ? [
+        toSeries(history, 'Lowest BIN', '#a78bfa', s => s.auction?.lowestBin),
+        toSeries(history, 'Market Wall', '#22d3ee', s => s.auction?.marketPrice),
+      ]
+    : [
+        toSeries(history, 'Buy Price', '#f87171', s => s.bazaar?.buyPrice),
+        toSeries(history, 'Sell Price', '#4ade80', s => s.bazaar?.sellPrice),
+      ];
+
+  const volumeSeries = item.source === 'auction'
+    ? [toSeries(history, 'Listings', '#fbbf24', s => s.auction?.listingCount)]
+    : [
+        toSeries(history, 'Buy Volume', '#fbbf24', s => s.bazaar?.buyVolume),
+        toSeries(history, 'Sell Volume', '#94a3b8', s => s.bazaar?.sellVolume),
+      ];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex justify-end z-40" onClick={onClose}>
+      <div className="bg-gray-800 w-full max-w-2xl h-full overflow-y-auto shadow-2xl p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-white">{item.itemName}</h3>
+            <p className="text-xs text-gray-500 font-mono">{item.itemId}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none">×</button>
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          {(Object.keys(RANGES) as HistoryRange[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-3 py-1 text-sm rounded-md ${range === r ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16"><Spinner /></div>
+        ) : error ? (
+          <div className="text-center py-10 px-4 text-orange-400 bg-gray-700/50 rounded-lg">{error}</div>
+        ) : (
+          <div className="space-y-6">
+            <section>
+              <h4 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">Price</h4>
+              <PriceChart series={priceSeries} overlays={overlays} />
+            </section>
+            <section>
+              <h4 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">{item.source === 'auction' ? 'Listing Count' : 'Volume'}</h4>
+              <PriceChart series={volumeSeries} height={140} />
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { loadFeeSettings } from '../services/feeService';
+import {
+  closeJournalEntry, compareStrategies, deleteJournalEntry, entryCost, estimateSaleFees, holdTime, isClosed, JOURNAL_SOURCES,
+  JournalEntry, journalToCsv, loadJournal, parseJournalCsv, priceInputValue, realizedProfit, realizedRoi, saveJournalEntries, subscribeJournal,
+  SummaryPeriod, summarizeByPeriod,
+} from '../services/journalService';
+import { Spinner } from './ui/Spinner';
+import { DataTable, DataTableColumn } from './ui/DataTable';
+
+const formatNumber = (num: number): string => new Intl.NumberFormat('en-US').format(Math.round(num));
+const formatSigned = (num: number): string => `${num > 0 ? '+' : ''}${formatNumber(num)}`;
+const formatPercent = (ratio: number): string => `${(ratio * 100).toFixed(1)}%`;
+const profitColor = (num: number): string => num >= 0 ? 'text-green-400' : 'text-red-400';
+
+const formatHoldTime = (ms: number): string => {
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${Math.max(1, Math.round(minutes))}m`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / 1440).toFixed(1)}d`;
+};
+
+interface JournalRow {
+  entry: JournalEntry;
+  id: string;
+  itemName: string;
+  quantity: number;
+  buyPrice: number;
+  cost: number;
+  sellPrice: number | null;
+  predictedProfit: number;
+  realizedProfit: number | null;
+  roi: number | null;
+  holdTime: number | null;
+  boughtAt: number;
+}
+
+type SortableJournalKeys = keyof Omit<JournalRow, 'entry' | 'id' | 'itemName'>;
+
+const toRow = (entry: JournalEntry): JournalRow => ({
+  entry,
+  id: entry.id,
+  itemName: entry.itemName,
+  quantity: entry.quantity,
+  buyPrice: entry.buyPrice,
+  cost: entryCost(entry),
+  sellPrice: entry.sellPrice,
+  predictedProfit: entry.predictedProfit,
+  realizedProfit: realizedProfit(entry),
+  roi: realizedRoi(entry),
+  holdTime: holdTime(entry),
+  boughtAt: entry.boughtAt,
+});
+
+const getName = (row: JournalRow) => row.itemName;
+const getRowKey = (row: JournalRow) => row.id;
+
+const inputClasses = "bg-gray-700 text-gray-200 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+const thClasses = "px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider";
+const tdClasses = "px-6 py-4 whitespace-nowrap";
+
+// Records the sale of an open flip. Fees are re-estimated whenever the price changes.
+const RecordSaleDialog: React.FC<{ entry: JournalEntry; onClose: () => void }> = ({ entry, onClose }) => {
+  const fees = useMemo(loadFeeSettings, []);
+  const [sellPrice, setSellPrice] = useState<string>(priceInputValue(entry.predictedSellPrice));
+  const [sellFees, setSellFees] = useState<string>(priceInputValue(estimateSaleFees(entry.source, entry.predictedSellPrice, entry.quantity, fees)));
+  const [error, setError] = useState<string | null>(null);
+
+  const changePrice = (value: string) => {
+    setSellPrice(value);
+    const price = Number(value);
+    if (Number.isFinite(price)) setSellFees(priceInputValue(estimateSaleFees(entry.source, price, entry.quantity, fees)));
+  };
+
+  const save = async () => {
+    const price = Number(sellPrice);
+    const totalFees = Number(sellFees);
+    if (!Number.isFinite(price) || price < 0) return setError('Enter the price sold at per unit');
+    if (!Number.isFinite(totalFees) || totalFees < 0) return setError('Fees must be zero or more');
+    try {
+      await saveJournalEntries([closeJournalEntry(entry, price, totalFees)]);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError('Could not save to the journal.');
+    }
+  };
+
+  const previewProfit = Number(sellPrice) * entry.quantity - Number(sellFees) - entryCost(entry);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex justify-center items-start pt-20 z-40" onClick={onClose}>
+      <div className="bg-gray-800 w-full max-w-md rounded-xl shadow-2xl p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Record Sale</h2>
+            <p className="text-sm text-gray-400">{entry.quantity} × {entry.itemName}, bought at {formatNumber(entry.buyPrice)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none">×</button>
+        </div>
+        <div className="space-y-3 text-sm text-gray-300">
+          <label className="flex justify-between items-center">
+            Sold at per unit
+            <input type="number" min={0} className={`${inputClasses} w-40`} value={sellPrice} onChange={e => changePrice(e.target.value)} />
+          </label>
+          <label className="flex justify-between items-center">
+            Fees paid in total
+            <input type="number" min={0} className={`${inputClasses} w-40`} value={sellFees} onChange={e => setSellFees(e.target.value)} />
+          </label>
+          {Number.isFinite(previewProfit) && (
+            <p className="text-xs text-gray-500">
+              Realized: <span className={profitColor(previewProfit)}>{formatSigned(previewProfit)}</span>, predicted {formatSigned(entry.predictedProfit)}
+            </p>
+          )}
+        </div>
+        {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
+        <div className="flex justify-end mt-4">
+          <button onClick={save} className="px-3 py-1 text-sm rounded-md bg-purple-600 hover:bg-purple-700 text-white">Save sale</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Journal: React.FC = () => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [period, setPeriod] = useState<SummaryPeriod>('day');
+  const [selling, setSelling] = useState<JournalEntry | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadJournal()
+      .then(setEntries)
+      .catch(error => {
+        console.error(error);
+        setStatus('Could not open the journal database.');
+      })
+      .finally(() => setIsLoading(false));
+    return subscribeJournal(setEntries);
+  }, []);
+
+  const rows = useMemo(() => entries.map(toRow), [entries]);
+  const periods = useMemo(() => summarizeByPeriod(entries, period), [entries, period]);
+  const strategies = useMemo(() => compareStrategies(entries), [entries]);
+
+  const totals = useMemo(() => {
+    const closed = entries.filter(isClosed);
+    const open = entries.filter(entry => !isClosed(entry));
+    const invested = closed.reduce((sum, entry) => sum + entryCost(entry), 0);
+    const realized = closed.reduce((sum, entry) => sum + realizedProfit(entry)!, 0);
+    return {
+      realized,
+      roi: invested > 0 ? realized / invested : 0,
+      closedCount: closed.length,
+      openCount: open.length,
+      openCapital: open.reduce((sum, entry) => sum + entryCost(entry), 0),
+      averageHoldTime: closed.length > 0 ? closed.reduce((sum, entry) => sum + holdTime(entry)!, 0) / closed.length : null,
+    };
+  }, [entries]);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([journalToCsv(entries)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `flip-journal-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const imported = parseJournalCsv(await file.text());
+      await saveJournalEntries(imported);
+      setStatus(`Imported ${imported.length} entries from ${file.name}.`);
+    } catch (error) {
+      console.error(error);
+      setStatus(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDelete = (entry: JournalEntry) => {
+    if (!window.confirm(`Delete the journal entry for ${entry.itemName}?`)) return;
+    deleteJournalEntry(entry.id).catch(error => console.error(error));
+  };
+
+  const columns: DataTableColumn<JournalRow, SortableJournalKeys>[] = [
+    {
+      id: 'itemName',
+      label: 'Item Name',
+      hideable: false,
+      render: row => (
+        <div>
+          <p className="font-semibold text-cyan-300">{row.itemName}</p>
+          <p className="text-xs text-gray-400">{JOURNAL_SOURCES[row.entry.source]}{row.entry.notes && ` · ${row.entry.notes}`}</p>
+        </div>
+      ),
+    },
+    {
+      id: 'realizedProfit',
+      label: 'Realized P&L',
+      sortKey: 'realizedProfit',
+      className: row => `font-bold ${row.realizedProfit === null ? 'text-gray-500' : profitColor(row.realizedProfit)}`,
+      render: row => row.realizedProfit === null ? 'Open' : formatSigned(row.realizedProfit),
+    },
+    { id: 'predictedProfit', label: 'Predicted', sortKey: 'predictedProfit', className: 'text-gray-400', render: row => formatSigned(row.predictedProfit) },
+    { id: 'roi', label: 'ROI', sortKey: 'roi', render: row => row.roi === null ? '—' : formatPercent(row.roi) },
+    { id: 'holdTime', label: 'Held', sortKey: 'holdTime', render: row => row.holdTime === null ? formatHoldTime(Date.now() - row.boughtAt) : formatHoldTime(row.holdTime) },
+    { id: 'quantity', label: 'Qty', sortKey: 'quantity', render: row => formatNumber(row.quantity) },
+    { id: 'buyPrice', label: 'Bought At', sortKey: 'buyPrice', className: 'text-red-400', render: row => formatNumber(row.buyPrice) },
+    { id: 'sellPrice', label: 'Sold At', sortKey: 'sellPrice', className: 'text-green-400', render: row => row.sellPrice === null ? '—' : formatNumber(row.sellPrice) },
+    { id: 'cost', label: 'Capital', sortKey: 'cost', render: row => formatNumber(row.cost) },
+    { id: 'boughtAt', label: 'Bought', sortKey: 'boughtAt', className: 'text-gray-400 text-sm', render: row => new Date(row.boughtAt).toLocaleString() },
+    {
+      id: 'action',
+      label: 'Action',
+      align: 'right',
+      render: row => (
+        <div className="flex justify-end gap-3 text-sm">
+          {!isClosed(row.entry) && (
+            <button onClick={() => setSelling(row.entry)} className="px-3 py-1 rounded-md bg-purple-600 hover:bg-purple-700 text-white">Record Sale</button>
+          )}
+          <button onClick={() => handleDelete(row.entry)} className="text-gray-400 hover:text-red-400">Delete</button>
+        </div>
+      ),
+    },
+  ];
+
+  const periodButtonClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-2xl p-4 sm:p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Flip Journal</h2>
+          <p className="text-sm text-gray-400 mt-1">Flips you took and what they made. Log a buy with the Log Buy button on any finder row, then record the sale here.</p>
+        </div>
+        <div className="text-right text-sm">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <button onClick={() => fileInputRef.current?.click()} className="text-purple-400 hover:text-purple-300">Import CSV</button>
+          <button onClick={handleExport} disabled={entries.length === 0} className="ml-4 text-purple-400 hover:text-purple-300 disabled:opacity-50">Export CSV</button>
+          {status && <p className="text-xs text-gray-400 mt-1">{status}</p>}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64"><Spinner /></div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No flips logged yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Realized P&L', value: formatSigned(totals.realized), detail: `${totals.closedCount} closed flips`, className: profitColor(totals.realized) },
+              { label: 'ROI', value: formatPercent(totals.roi), detail: 'on closed flips', className: 'text-white' },
+              { label: 'Open', value: formatNumber(totals.openCapital), detail: `${totals.openCount} flips waiting to sell`, className: 'text-white' },
+              { label: 'Avg. Hold Time', value: totals.averageHoldTime === null ? '—' : formatHoldTime(totals.averageHoldTime), detail: 'buy to sale', className: 'text-white' },
+            ].map(({ label, value, detail, className }) => (
+              <div key={label} className="bg-gray-700/50 rounded-lg p-3">
+                <p className="text-xs text-gray-400 uppercase tracking-wider">{label}</p>
+                <p className={`text-xl font-bold ${className}`}>{value}</p>
+                <p className="text-xs text-gray-500">{detail}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6 mb-6">
+            <section>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider">Realized by {period === 'day' ? 'Day' : 'Week'}</h3>
+                <div className="flex space-x-2">
+                  <button onClick={() => setPeriod('day')} className={periodButtonClasses(period === 'day')}>Daily</button>
+                  <button onClick={() => setPeriod('week')} className={periodButtonClasses(period === 'week')}>Weekly</button>
+                </div>
+              </div>
+              {periods.length === 0 ? (
+                <p className="text-sm text-gray-500">No sales recorded yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-700">
+                    <thead className="bg-gray-700/50">
+                      <tr>{[period === 'day' ? 'Day' : 'Week of', 'Flips', 'Invested', 'Realized', 'ROI'].map(label => <th key={label} scope="col" className={thClasses}>{label}</th>)}</tr>
+                    </thead>
+                    <tbody className="bg-gray-800 divide-y divide-gray-700">
+                      {periods.map(summary => (
+                        <tr key={summary.periodStart}>
+                          <td className={`${tdClasses} text-gray-300`}>{new Date(summary.periodStart).toLocaleDateString()}</td>
+                          <td className={`${tdClasses} text-gray-300`}>{summary.flips}</td>
+                          <td className={`${tdClasses} text-gray-300`}>{formatNumber(summary.invested)}</td>
+                          <td className={`${tdClasses} font-bold ${profitColor(summary.realizedProfit)}`}>{formatSigned(summary.realizedProfit)}</td>
+                          <td className={`${tdClasses} text-gray-300`}>{formatPercent(summary.roi)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2 py-1">Predicted vs Realized</h3>
+              {strategies.length === 0 ? (
+                <p className="text-sm text-gray-500">No sales recorded yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-700">
+                    <thead className="bg-gray-700/50">
+                      <tr>{['Strategy', 'Flips', 'Predicted', 'Realized', 'Accuracy', 'Avg. Hold'].map(label => <th key={label} scope="col" className={thClasses}>{label}</th>)}</tr>
+                    </thead>
+                    <tbody className="bg-gray-800 divide-y divide-gray-700">
+                      {strategies.map(summary => (
+                        <tr key={summary.strategy}>
+                          <td className={`${tdClasses} text-gray-300`}>{summary.label}</td>
+                          <td className={`${tdClasses} text-gray-300`}>{summary.flips}</td>
+                          <td className={`${tdClasses} text-gray-400`}>{formatSigned(summary.predictedProfit)}</td>
+                          <td className={`${tdClasses} font-bold ${profitColor(summary.realizedProfit)}`}>{formatSigned(summary.realizedProfit)}</td>
+                          <td className={`${tdClasses} text-gray-300`} title="Realized profit as a share of the predicted profit">
+                            {summary.accuracy === null ? '—' : formatPercent(summary.accuracy)}
+                          </td>
+                          <td className={`${tdClasses} text-gray-300`}>{formatHoldTime(summary.averageHoldTime)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </div>
+
+          <DataTable
+            tableId="journal"
+            rows={rows}
+            columns={columns}
+            getRowKey={getRowKey}
+            getName={getName}
+            defaultSort={[{ key: 'boughtAt', direction: 'descending' }]}
+          />
+        </>
+      )}
+      {selling && <RecordSaleDialog entry={selling} onClose={() => setSelling(null)} />}
+    </div>
+  );
+};
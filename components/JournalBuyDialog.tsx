@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { createJournalEntry, JOURNAL_SOURCES, JournalBuy, priceInputValue, saveJournalEntries } from '../services/journalService';
+
+const formatNumber = (num: number): string => new Intl.NumberFormat('en-US').format(Math.round(num));
+
+const inputClasses = "bg-gray-700 text-gray-200 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+
+/**
+ * Logs a buy from a finder row to the flip journal, with the row's price pre-filled.
+ */
+export const JournalBuyDialog: React.FC<{ buy: JournalBuy; onClose: () => void }> = ({ buy, onClose }) => {
+  const [quantity, setQuantity] = useState<string>('1');
+  const [buyPrice, setBuyPrice] = useState<string>(priceInputValue(buy.buyPrice));
+  const [notes, setNotes] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const save = async () => {
+    const units = Number(quantity);
+    const price = Number(buyPrice);
+    if (!Number.isInteger(units) || units < 1) return setError('Quantity must be a whole number of at least 1');
+    if (!Number.isFinite(price) || price < 0) return setError('Enter the price paid per unit');
+    setIsSaving(true);
+    try {
+      await saveJournalEntries([createJournalEntry({ ...buy, buyPrice: price }, units, notes.trim())]);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError('Could not save to the journal.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex justify-center items-start pt-20 z-40" onClick={onClose}>
+      <div className="bg-gray-800 w-full max-w-md rounded-xl shadow-2xl p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Log Buy</h2>
+            <p className="text-sm text-gray-400">{buy.itemName} · {JOURNAL_SOURCES[buy.source]}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none">×</button>
+        </div>
+
+        <div className="space-y-3 text-sm text-gray-300">
+          <label className="flex justify-between items-center">
+            Quantity
+            <input type="number" min={1} className={`${inputClasses} w-40`} value={quantity} onChange={e => setQuantity(e.target.value)} />
+          </label>
+          <label className="flex justify-between items-center">
+            Price paid per unit
+            <input type="number" min={0} className={`${inputClasses} w-40`} value={buyPrice} onChange={e => setBuyPrice(e.target.value)} />
+          </label>
+          <label className="flex justify-between items-center">
+            Notes
+            <input className={`${inputClasses} w-40`} value={notes} onChange={e => setNotes(e.target.value)} />
+          </label>
+          <p className="text-xs text-gray-500">
+            Predicted: sell at {formatNumber(buy.predictedSellPrice)} for +{formatNumber(buy.predictedUnitProfit * (Number(quantity) || 0))} after fees.
+          </p>
+        </div>
+
+        {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
+        <div className="flex justify-end mt-4">
+          <button onClick={save} disabled={isSaving} className="px-3 py-1 text-sm rounded-md bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50">
+            {isSaving ? 'Saving...' : 'Add to journal'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const LogBuyButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button
+    onClick={onClick}
+    className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-400"
+    title="Record this buy in the flip journal"
+  >
+    Log Buy
+  </button>
+);
@@ -1,114 +1,213 @@
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { fetchItemsForAnalysis } from '../services/hypixelService';
-import { analyzeItemValue, AIAnalysis } from '../services/geminiService';
-import { MarketTrendFlip, Rarity, SortConfig, SortableTrendKeys } from '../types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { requestItemsForAnalysis } from '../services/auctionWorkerClient';
+import { analyzeItemValue, AnalysisOptions } from '../services/aiService';
+import { calculateAuctionFees, loadFeeSettings } from '../services/feeService';
+import { loadScannerSettings } from '../services/scannerSettingsService';
+import { blockItem, loadItemLists } from '../services/itemListService';
+import { ItemForAnalysis } from '../services/hypixelService';
+import type { JournalBuy } from '../services/journalService';
+import { MarketTrendFlip, SortableTrendKeys } from '../types';
 import { Spinner } from './ui/Spinner';
+import { ItemDetailPanel, ItemDetailTarget } from './ItemDetailPanel';
+import { JournalBuyDialog, LogBuyButton } from './JournalBuyDialog';
 import { ItemCell } from './ui/ItemCell';
+import { DataTable, DataTableColumn } from './ui/DataTable';
 
 const formatNumber = (num: number): string => {
   if (num === undefined || num === null) return 'N/A';
   return new Intl.NumberFormat('en-US').format(num);
 };
 
-const SortableHeader: React.FC<{
-  label: string;
-  sortKey: SortableTrendKeys;
-  sortConfig: SortConfig<SortableTrendKeys> | null;
-  requestSort: (key: SortableTrendKeys) => void;
-}> = ({ label, sortKey, sortConfig, requestSort }) => {
-  const isSorted = sortConfig?.key === sortKey;
-  const directionIcon = isSorted ? (sortConfig.direction === 'ascending' ? '▲' : '▼') : '';
-  return (
-    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider cursor-pointer" onClick={() => requestSort(sortKey)}>
-      <span className="flex items-center">{label}<span className="ml-2">{directionIcon}</span></span>
-    </th>
-  );
+const formatAge = (timestamp: number): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.round(minutes / 60)}h ago`;
 };
 
+// Values an item with the AI and computes profit with our fee model; the model only estimates value.
+const analyzeTrend = async (item: ItemForAnalysis, options: AnalysisOptions = {}): Promise<MarketTrendFlip> => {
+  const { result: analysis, cacheHit, analyzedAt } = await analyzeItemValue({
+    name: item.name,
+    lore: item.lore,
+    rarity: item.rarity,
+    price: item.price
+  }, options);
+  const grossProfit = analysis.estimatedValue - item.price;
+  const fees = Math.round(calculateAuctionFees(analysis.estimatedValue, loadFeeSettings()).total);
+  return {
+    id: item.id,
+    itemId: item.itemId,
+    itemName: item.name,
+    rarity: item.rarity,
+    lore: item.lore,
+    currentPrice: item.price,
+    estimatedValue: analysis.estimatedValue,
+    grossProfit,
+    fees,
+    potentialProfit: grossProfit - fees,
+    reasoning: analysis.reasoning,
+    cacheHit,
+    analyzedAt,
+  };
+};
+
+const getName = (trend: MarketTrendFlip) => trend.itemName;
+const getRarity = (trend: MarketTrendFlip) => trend.rarity;
+const getRowKey = (trend: MarketTrendFlip) => trend.id;
+
+const isProfitableTrend = (trend: MarketTrendFlip, minProfit: number) => trend.potentialProfit > minProfit && trend.estimatedValue > 0;
+
 export const MarketTrends: React.FC = () => {
   const [trends, setTrends] = useState<MarketTrendFlip[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [sortConfig, setSortConfig] = useState<SortConfig<SortableTrendKeys> | null>({ key: 'potentialProfit', direction: 'descending' });
   const [progress, setProgress] = useState(0);
+  const [selectedItem, setSelectedItem] = useState<ItemDetailTarget | null>(null);
+  const [journalBuy, setJournalBuy] = useState<JournalBuy | null>(null);
+  const [reanalyzing, setReanalyzing] = useState<Set<string>>(new Set());
+
+  const abortRef = useRef<AbortController | null>(null);
+  const reanalyzeAbortRef = useRef<AbortController | null>(null); // Aborted on unmount
 
   const fetchTrends = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     setError(null);
     setProgress(0);
+    setTrends([]);
     try {
-      const itemsToAnalyze = await fetchItemsForAnalysis();
+      const settings = loadScannerSettings();
+      const itemsToAnalyze = await requestItemsForAnalysis(settings.trendAnalysisItems, controller.signal, loadItemLists());
       if (itemsToAnalyze.length === 0) {
         setError('Could not find any high-value items to analyze at the moment.');
-        setTrends([]);
         setIsLoading(false);
         return;
       }
 
-      const trendPromises = itemsToAnalyze.map(async (item, index) => {
-        const analysis: AIAnalysis = await analyzeItemValue({
-            name: item.name,
-            lore: item.lore,
-            rarity: item.rarity,
-            price: item.price
-        });
-        setProgress(Math.round(((index + 1) / itemsToAnalyze.length) * 100));
-        return {
-          id: item.id,
-          itemName: item.name,
-          rarity: item.rarity,
-          lore: item.lore,
-          currentPrice: item.price,
-          estimatedValue: analysis.estimatedValue,
-          potentialProfit: analysis.potentialProfit,
-          reasoning: analysis.reasoning,
-        };
-      });
-
-      const newTrends = await Promise.all(trendPromises);
-      
-      const profitableTrends = newTrends.filter(t => t.potentialProfit > 10000 && t.estimatedValue > 0);
+      // The analysis queue limits how many requests run at once; rows stream in as they finish.
+      let completed = 0;
+      const newTrends = await Promise.all(itemsToAnalyze.map(async (item): Promise<MarketTrendFlip> => {
+        const trend = await analyzeTrend(item, { signal: controller.signal });
+        completed++;
+        setProgress(Math.round((completed / itemsToAnalyze.length) * 100));
+        if (isProfitableTrend(trend, settings.trendMinProfit)) setTrends(prev => [...prev, trend]);
+        return trend;
+      }));
 
-      setTrends(profitableTrends);
-      if (profitableTrends.length === 0) {
+      if (!newTrends.some(trend => isProfitableTrend(trend, settings.trendMinProfit))) {
         setError('AI analysis complete. No significant investment opportunities found.');
       }
       setLastUpdated(new Date());
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError('Failed to fetch data from Hypixel API for analysis. Please try again later.');
       console.error(err);
     } finally {
-      setIsLoading(false);
-      setProgress(100);
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+        setProgress(100);
+      }
     }
   }, []);
 
   useEffect(() => {
     fetchTrends();
     // No auto-refresh for this tab due to API cost
+    return () => abortRef.current?.abort();
   }, [fetchTrends]);
 
-  const requestSort = (key: SortableTrendKeys) => {
-    let direction: 'ascending' | 'descending' = 'ascending';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'ascending') {
-      direction = 'descending';
+  useEffect(() => {
+    const controller = new AbortController();
+    reanalyzeAbortRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  // Asks the AI again for one row, replacing its cached valuation.
+  const reanalyze = async (trend: MarketTrendFlip) => {
+    const signal = reanalyzeAbortRef.current?.signal;
+    setReanalyzing(prev => new Set(prev).add(trend.id));
+    const item: ItemForAnalysis = { id: trend.id, itemId: trend.itemId, name: trend.itemName, lore: trend.lore, rarity: trend.rarity, price: trend.currentPrice };
+    try {
+      const updated = await analyzeTrend(item, { refresh: true, signal });
+      setTrends(prev => prev.map(t => t.id === updated.id ? updated : t));
+    } catch (err) {
+      if (!signal?.aborted) console.error(err);
+    } finally {
+      if (!signal?.aborted) {
+        setReanalyzing(prev => {
+          const next = new Set(prev);
+          next.delete(trend.id);
+          return next;
+        });
+      }
     }
-    setSortConfig({ key, direction });
   };
 
-  const sortedTrends = useMemo(() => {
-    let sortableItems = [...trends];
-    if (sortConfig !== null) {
-      sortableItems.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) return sortConfig.direction === 'ascending' ? -1 : 1;
-        if (a[sortConfig.key] > b[sortConfig.key]) return sortConfig.direction === 'ascending' ? 1 : -1;
-        return 0;
-      });
-    }
-    return sortableItems;
-  }, [trends, sortConfig]);
+  const hideItem = (trend: MarketTrendFlip) => {
+    blockItem(trend.itemId);
+    setTrends(prev => prev.filter(t => t.itemId !== trend.itemId));
+  };
+
+  const columns: DataTableColumn<MarketTrendFlip, SortableTrendKeys>[] = [
+    {
+      id: 'itemName',
+      label: 'Item Name',
+      hideable: false,
+      render: trend => (
+        <ItemCell
+          itemName={trend.itemName}
+          rarity={trend.rarity}
+          lore={trend.lore}
+          onClick={() => setSelectedItem({ itemId: trend.itemId, itemName: trend.itemName, source: 'auction', buyPrice: trend.currentPrice, sellPrice: trend.estimatedValue })}
+        />
+      ),
+    },
+    {
+      id: 'potentialProfit',
+      label: 'Potential Profit',
+      sortKey: 'potentialProfit',
+      className: trend => `font-bold ${trend.potentialProfit > 0 ? 'text-green-400' : 'text-red-400'}`,
+      render: trend => `${trend.potentialProfit > 0 ? '+' : ''}${formatNumber(trend.potentialProfit)}`,
+    },
+    { id: 'grossProfit', label: 'Gross', sortKey: 'grossProfit', render: trend => formatNumber(trend.grossProfit) },
+    { id: 'fees', label: 'Fees', sortKey: 'fees', className: 'text-red-400', render: trend => `-${formatNumber(trend.fees)}` },
+    { id: 'currentPrice', label: 'Current Price', sortKey: 'currentPrice', render: trend => formatNumber(trend.currentPrice) },
+    { id: 'estimatedValue', label: 'AI Est. Value', sortKey: 'estimatedValue', className: 'text-cyan-400', render: trend => formatNumber(trend.estimatedValue) },
+    { id: 'reasoning', label: 'AI Reasoning', className: 'text-gray-400 text-sm italic', render: trend => `"${trend.reasoning}"` },
+    {
+      id: 'cache',
+      label: 'Cache',
+      sortKey: 'analyzedAt',
+      className: 'text-xs',
+      render: trend => (
+        <>
+          <span className={trend.cacheHit ? 'text-gray-400' : 'text-cyan-400'} title={new Date(trend.analyzedAt).toLocaleString()}>
+            {trend.cacheHit ? `Cached, ${formatAge(trend.analyzedAt)}` : 'Fresh'}
+          </span>
+          <button
+            onClick={() => reanalyze(trend)}
+            disabled={reanalyzing.has(trend.id)}
+            className="block mt-1 text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-wait"
+          >
+            {reanalyzing.has(trend.id) ? 'Analyzing...' : 'Re-analyze'}
+          </button>
+        </>
+      ),
+    },
+    {
+      id: 'journal',
+      label: 'Journal',
+      align: 'right',
+      render: trend => <LogBuyButton onClick={() => setJournalBuy({
+        source: 'trend', itemId: trend.itemId, itemName: trend.itemName, buyPrice: trend.currentPrice, predictedSellPrice: trend.estimatedValue, predictedUnitProfit: trend.potentialProfit,
+      })} />,
+    },
+  ];
 
   const loadingMessage = `AI is analyzing market trends... (${progress}%)`;
 
@@ -127,40 +226,31 @@ export const MarketTrends: React.FC = () => {
         </div>
       </div>
       
-      {isLoading ? (
+      {isLoading && trends.length === 0 ? (
          <div className="flex justify-center items-center h-96 flex-col">
             <Spinner size="h-12 w-12" />
             <p className="mt-4 text-gray-400 text-center">{loadingMessage}</p>
          </div>
-      ) : error && sortedTrends.length === 0 ? (
+      ) : error && trends.length === 0 ? (
         <div className="text-center py-10 px-4 text-orange-400 bg-gray-700/50 rounded-lg">{error}</div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-700">
-            <thead className="bg-gray-700/50">
-              <tr>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Item Name</th>
-                <SortableHeader label="Potential Profit" sortKey="potentialProfit" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="Current Price" sortKey="currentPrice" sortConfig={sortConfig} requestSort={requestSort} />
-                <SortableHeader label="AI Est. Value" sortKey="estimatedValue" sortConfig={sortConfig} requestSort={requestSort} />
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">AI Reasoning</th>
-              </tr>
-            </thead>
-            <tbody className="bg-gray-800 divide-y divide-gray-700">
-              {sortedTrends.map((trend) => (
-                <tr key={trend.id} className="hover:bg-gray-700/50 transition-colors duration-150">
-                  <ItemCell itemName={trend.itemName} rarity={trend.rarity} lore={trend.lore} />
-                  <td className={`px-6 py-4 whitespace-nowrap font-bold ${trend.potentialProfit > 0 ? 'text-green-400' : 'text-red-400'}`}>{trend.potentialProfit > 0 ? '+' : ''}{formatNumber(trend.potentialProfit)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">{formatNumber(trend.currentPrice)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-cyan-400">{formatNumber(trend.estimatedValue)}</td>
-                  <td className="px-6 py-4 whitespace-nowrap text-gray-400 text-sm italic">"{trend.reasoning}"</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          {error && sortedTrends.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
-        </div>
+        <>
+          {isLoading && <p className="text-sm text-gray-400 mb-2">{loadingMessage}</p>}
+          <DataTable
+            tableId="marketTrends"
+            rows={trends}
+            columns={columns}
+            getRowKey={getRowKey}
+            getName={getName}
+            getRarity={getRarity}
+            defaultSort={[{ key: 'potentialProfit', direction: 'descending' }]}
+            onHideRow={hideItem}
+          />
+          {error && trends.length > 0 && <p className="text-center text-sm mt-4 text-orange-400">{error}</p>}
+        </>
       )}
+      {selectedItem && <ItemDetailPanel item={selectedItem} onClose={() => setSelectedItem(null)} />}
+      {journalBuy && <JournalBuyDialog buy={journalBuy} onClose={() => setJournalBuy(null)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { requestAuctionFlips, requestItemsForAnalysis } from '../services/auctionWorkerClient';
+import { fetchBazaarFlips, fetchCraftingFlips } from '../services/hypixelService';
+import { loadFeeSettings } from '../services/feeService';
+import { loadScannerSettings } from '../services/scannerSettingsService';
+import { loadItemLists } from '../services/itemListService';
+import { loadComparableConfig } from '../services/comparablesService';
+import { DEFAULT_PRICE_STRATEGY } from '../services/priceStrategyService';
+import {
+  auctionPortfolioCandidates, bazaarPortfolioCandidates, craftingPortfolioCandidates, loadPortfolioOptions, planPortfolio,
+  PortfolioOptions, PortfolioPick, PortfolioSource, savePortfolioOptions,
+} from '../services/portfolioService';
+import { AuctionFlip, BazaarFlip, CraftingFlip } from '../types';
+import { Spinner } from './ui/Spinner';
+import { DataTable, DataTableColumn } from './ui/DataTable';
+
+const formatNumber = (num: number): string => new Intl.NumberFormat('en-US').format(Math.round(num));
+const formatPercent = (ratio: number): string => `${(ratio * 100).toFixed(1)}%`;
+
+const SOURCE_LABELS: Record<PortfolioSource, string> = {
+  auction: 'Auction flip',
+  bazaar: 'Bazaar flip',
+  crafting: 'Craft',
+};
+
+interface PortfolioRow {
+  key: string;
+  source: PortfolioSource;
+  itemName: string;
+  units: number;
+  unitCost: number;
+  cost: number;
+  profit: number; // If every unit sells
+  sellProbability: number;
+  expectedProfit: number;
+  roi: number;
+}
+
+type SortablePortfolioKeys = keyof Omit<PortfolioRow, 'key' | 'source' | 'itemName'>;
+
+const toRow = (pick: PortfolioPick): PortfolioRow => ({
+  key: pick.candidate.key,
+  source: pick.candidate.source,
+  itemName: pick.candidate.itemName,
+  units: pick.units,
+  unitCost: pick.candidate.unitCost,
+  cost: pick.cost,
+  profit: pick.units * pick.candidate.unitProfit,
+  sellProbability: pick.candidate.sellProbability,
+  expectedProfit: pick.expectedProfit,
+  roi: pick.expectedProfit / pick.cost,
+});
+
+const getName = (row: PortfolioRow) => row.itemName;
+const getRowKey = (row: PortfolioRow) => row.key;
+
+const columns: DataTableColumn<PortfolioRow, SortablePortfolioKeys>[] = [
+  {
+    id: 'itemName',
+    label: 'Item Name',
+    hideable: false,
+    render: row => (
+      <div>
+        <p className="font-semibold text-cyan-300">{row.itemName}</p>
+        <p className="text-xs text-gray-400">{SOURCE_LABELS[row.source]}</p>
+      </div>
+    ),
+  },
+  { id: 'expectedProfit', label: 'Expected Profit', sortKey: 'expectedProfit', className: 'text-green-400 font-bold', render: row => `+${formatNumber(row.expectedProfit)}` },
+  { id: 'cost', label: 'Capital', sortKey: 'cost', render: row => formatNumber(row.cost) },
+  { id: 'roi', label: 'ROI', sortKey: 'roi', className: 'text-green-400', render: row => formatPercent(row.roi) },
+  { id: 'units', label: 'Units', sortKey: 'units', render: row => formatNumber(row.units) },
+  { id: 'unitCost', label: 'Unit Cost', sortKey: 'unitCost', render: row => formatNumber(row.unitCost) },
+  { id: 'profit', label: 'Profit if Sold', sortKey: 'profit', render: row => formatNumber(row.profit) },
+  { id: 'sellProbability', label: 'Sell Chance', sortKey: 'sellProbability', render: row => formatPercent(row.sellProbability) },
+];
+
+interface Flips {
+  auction: AuctionFlip[];
+  bazaar: BazaarFlip[];
+  crafting: CraftingFlip[];
+}
+
+const NO_FLIPS: Flips = { auction: [], bazaar: [], crafting: [] };
+
+const inputClasses = "bg-gray-700 text-white rounded-md px-2 py-1 w-36";
+
+export const Portfolio: React.FC = () => {
+  const [options, setOptions] = useState<PortfolioOptions>(loadPortfolioOptions);
+  const [flips, setFlips] = useState<Flips>(NO_FLIPS);
+  const [includeCrafting, setIncludeCrafting] = useState<boolean>(true);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Gathers candidates from every finder. Crafts use database recipes only, so no AI is involved.
+  const fetchCandidates = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const fees = loadFeeSettings();
+      const settings = loadScannerSettings();
+      const itemLists = loadItemLists();
+
+      setStatus('Scanning auctions and the bazaar...');
+      const [auction, bazaar] = await Promise.all([
+        requestAuctionFlips(loadComparableConfig(), fees, DEFAULT_PRICE_STRATEGY, settings, itemLists, controller.signal),
+        fetchBazaarFlips(fees, settings, itemLists),
+      ]);
+
+      let crafting: CraftingFlip[] = [];
+      if (includeCrafting) {
+        setStatus('Pricing crafting recipes...');
+        const items = await requestItemsForAnalysis(settings.craftingAnalysisItems, controller.signal, itemLists);
+        crafting = await fetchCraftingFlips(items, () => {}, { fees, settings, itemLists, signal: controller.signal });
+      }
+      if (controller.signal.aborted) return;
+
+      setFlips({ auction, bazaar, crafting });
+      setLastUpdated(new Date());
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError('Failed to gather flips for the plan. The Hypixel API might be down.');
+      console.error(err);
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, [includeCrafting]);
+
+  useEffect(() => {
+    fetchCandidates();
+    return () => abortRef.current?.abort();
+  }, [fetchCandidates]);
+
+  const updateOption = (key: keyof PortfolioOptions, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    const next = { ...options, [key]: value };
+    setOptions(next);
+    savePortfolioOptions(next);
+  };
+
+  // Re-planning is cheap, so changing the budget or limits updates the plan without a rescan.
+  const plan = useMemo(() => planPortfolio([
+    ...auctionPortfolioCandidates(flips.auction, options.horizonHours),
+    ...bazaarPortfolioCandidates(flips.bazaar, options.horizonHours),
+    ...craftingPortfolioCandidates(flips.crafting),
+  ], options), [flips, options]);
+
+  const rows = useMemo(() => plan.picks.map(toRow), [plan]);
+  const candidateCount = flips.auction.length + flips.bazaar.length + flips.crafting.length;
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-2xl p-4 sm:p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Portfolio Planner</h2>
+          <p className="text-sm text-gray-400 mt-1">Picks the auction, bazaar and crafting flips to take together for the most expected profit within your purse. Profits are discounted by how likely each item is to sell within the horizon.</p>
+        </div>
+        <div className="text-right">
+          <button onClick={fetchCandidates} disabled={isLoading} className="text-sm text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-wait whitespace-nowrap">
+            {isLoading ? 'Refreshing...' : 'Refresh Now'}
+          </button>
+          {lastUpdated && <p className="text-xs text-gray-400 mt-1">Last Updated: {lastUpdated.toLocaleTimeString()}</p>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          Purse
+          <input type="number" min={0} className={inputClasses} value={options.budget} onChange={e => updateOption('budget', Number(e.target.value))} />
+        </label>
+        <label className="flex items-center gap-2">
+          Free AH slots
+          <input type="number" min={0} className={`${inputClasses} w-20`} value={options.auctionSlots} onChange={e => updateOption('auctionSlots', Math.floor(Number(e.target.value)))} />
+        </label>
+        <label className="flex items-center gap-2">
+          Max per item
+          <input
+            type="number"
+            min={1}
+            max={100}
+            className={`${inputClasses} w-20`}
+            value={Math.round(options.maxItemShare * 100)}
+            onChange={e => updateOption('maxItemShare', Math.min(Number(e.target.value), 100) / 100)}
+          />
+          %
+        </label>
+        <label className="flex items-center gap-2">
+          Horizon
+          <input type="number" min={1} className={`${inputClasses} w-20`} value={options.horizonHours} onChange={e => updateOption('horizonHours', Number(e.target.value))} />
+          h
+        </label>
+        <label className="flex items-center cursor-pointer">
+          <input type="checkbox" className="mr-2 accent-purple-500" checked={includeCrafting} onChange={e => setIncludeCrafting(e.target.checked)} />
+          Include crafts
+        </label>
+      </div>
+
+      {isLoading && candidateCount === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64">
+          <Spinner />
+          <p className="mt-4 text-gray-400">{status}</p>
+        </div>
+      ) : error && candidateCount === 0 ? (
+        <div className="text-center p-8 bg-red-900/20 rounded-lg">
+          <p className="text-red-400">{error}</p>
+        </div>
+      ) : (
+        <>
+          {isLoading && <p className="text-sm text-gray-400 mb-2">{status}</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+            {[
+              { label: 'Capital', value: formatNumber(plan.totalCost), detail: `of ${formatNumber(options.budget)}` },
+              { label: 'Expected Return', value: `+${formatNumber(plan.expectedProfit)}`, detail: `${plan.picks.length} flips` },
+              { label: 'ROI', value: formatPercent(plan.roi), detail: `over ${options.horizonHours}h` },
+              { label: 'AH Slots', value: `${plan.slotsUsed}/${options.auctionSlots}`, detail: `${candidateCount} candidates` },
+            ].map(({ label, value, detail }) => (
+              <div key={label} className="bg-gray-700/50 rounded-lg p-3">
+                <p className="text-xs text-gray-400 uppercase tracking-wider">{label}</p>
+                <p className="text-xl font-bold text-white">{value}</p>
+                <p className="text-xs text-gray-500">{detail}</p>
+              </div>
+            ))}
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No flips fit the current purse and limits.</p>
+          ) : (
+            <DataTable
+              tableId="portfolio"
+              rows={rows}
+              columns={columns}
+              getRowKey={getRowKey}
+              getName={getName}
+              defaultSort={[{ key: 'expectedProfit', direction: 'descending' }]}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,461 @@
+import React, { useRef, useState } from 'react';
+import { AUCTION_DURATIONS, AuctionDuration, BazaarFlipperLevel, FeeSettings, loadFeeSettings, saveFeeSettings } from '../services/feeService';
+import { AIProviderConfig, AIProviderId, DEFAULT_MODELS, loadAIProviderConfig, saveAIProviderConfig } from '../services/aiProvider';
+import { getAIProviders } from '../services/aiService';
+import { AICacheKind, clearAICache } from '../services/aiCacheService';
+import { HypixelClientConfig, HypixelClientMode, loadHypixelClientConfig } from '../services/hypixelClient';
+import { configureHypixelClient } from '../services/auctionWorkerClient';
+import {
+  applySettingsProfile, DEFAULT_SCANNER_SETTINGS, exportSettingsProfile, loadScannerSettings, parseSettingsProfile, saveScannerSettings,
+  ScannerSettings, ScannerSettingsErrors, validateScannerSettings,
+} from '../services/scannerSettingsService';
+import { ComparableConfig, DEFAULT_COMPARABLE_CONFIG, loadComparableConfig, saveComparableConfig } from '../services/comparablesService';
+import { ITEM_RULE_KINDS, ItemLists, ItemRule, ItemRuleKind, loadItemLists, saveItemLists, validateItemRule } from '../services/itemListService';
+import { Rarity } from '../types';
+
+// Threshold fields, grouped as shown in the panel.
+const THRESHOLD_GROUPS: { title: string; fields: { key: keyof ScannerSettings; label: string; hint?: string }[] }[] = [
+  {
+    title: 'Auction flips',
+    fields: [
+      { key: 'auctionMinProfit', label: 'Minimum profit', hint: 'Net coins after fees.' },
+      { key: 'auctionMinPrice', label: 'Minimum price', hint: 'Cheaper listings are ignored as junk.' },
+      { key: 'iqrMultiplier', label: 'Outlier cutoff', hint: 'Listings above Q3 + this × IQR are ignored.' },
+      { key: 'gapThreshold', label: 'Market wall gap', hint: 'Price jump that starts the wall, e.g. 0.08 for 8%.' },
+      { key: 'auctionRefreshSeconds', label: 'Refresh every (seconds)' },
+    ],
+  },
+  {
+    title: 'Bazaar flips',
+    fields: [
+      { key: 'bazaarMinProfit', label: 'Minimum profit per unit', hint: 'Instant flips.' },
+      { key: 'bazaarMinWeeklyVolume', label: 'Minimum weekly volume', hint: 'Instant flips.' },
+      { key: 'orderFlipMinCoinsPerHour', label: 'Minimum coins per hour', hint: 'Order flips.' },
+      { key: 'bazaarRefreshSeconds', label: 'Refresh every (seconds)' },
+    ],
+  },
+  {
+    title: 'Crafting and trends',
+    fields: [
+      { key: 'craftMinProfit', label: 'Minimum crafting profit' },
+      { key: 'craftingAnalysisItems', label: 'Items checked for crafting' },
+      { key: 'trendMinProfit', label: 'Minimum trend profit' },
+      { key: 'trendAnalysisItems', label: 'Items sent for AI analysis', hint: 'Each one is an AI request.' },
+    ],
+  },
+];
+
+// Attributes that can split comparable buckets, as toggles.
+const COMPARABLE_DIMENSIONS: { key: 'stars' | 'recombobulated' | 'hotPotato' | 'skin'; label: string }[] = [
+  { key: 'stars', label: 'Dungeon stars' },
+  { key: 'recombobulated', label: 'Recombobulated' },
+  { key: 'hotPotato', label: 'Hot potato books' },
+  { key: 'skin', label: 'Skin' },
+];
+
+const ITEM_LIST_LABELS: { list: keyof ItemLists; label: string; hint: string }[] = [
+  { list: 'block', label: 'Blocked', hint: 'Never shown by any finder.' },
+  { list: 'allow', label: 'Allowed only', hint: 'If not empty, finders only show these.' },
+];
+
+const ruleKindLabel = (kind: ItemRuleKind) => ITEM_RULE_KINDS.find(entry => entry.kind === kind)!.label;
+
+const toDraft = (settings: ScannerSettings): Record<string, string> =>
+  Object.fromEntries(Object.entries(settings).map(([key, value]) => [key, String(value)]));
+
+const inputClasses = "bg-gray-700 text-gray-200 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+
+const SettingRow: React.FC<{ label: string; hint?: string; error?: string; children: React.ReactNode }> = ({ label, hint, error, children }) => (
+  <div className="flex justify-between items-center py-2">
+    <div>
+      <p className="text-sm text-gray-200">{label}</p>
+      {error ? <p className="text-xs text-red-400">{error}</p> : hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+    {children}
+  </div>
+);
+
+export const SettingsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [fees, setFees] = useState<FeeSettings>(loadFeeSettings);
+  const [aiConfig, setAiConfig] = useState<AIProviderConfig>(loadAIProviderConfig);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const [clientConfig, setClientConfig] = useState<HypixelClientConfig>(loadHypixelClientConfig);
+  const [scanner, setScanner] = useState<ScannerSettings>(loadScannerSettings);
+  const [scannerDraft, setScannerDraft] = useState<Record<string, string>>(() => toDraft(loadScannerSettings()));
+  const [scannerErrors, setScannerErrors] = useState<ScannerSettingsErrors>({});
+  const [comparables, setComparables] = useState<ComparableConfig>(loadComparableConfig);
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+  const [itemLists, setItemLists] = useState<ItemLists>(loadItemLists);
+  const [newRuleList, setNewRuleList] = useState<keyof ItemLists>('block');
+  const [newRule, setNewRule] = useState<ItemRule>({ kind: 'itemId', value: '' });
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
+  const updateFees = (next: FeeSettings) => {
+    setFees(next);
+    saveFeeSettings(next);
+  };
+
+  const updateAiConfig = (next: AIProviderConfig) => {
+    setAiConfig(next);
+    saveAIProviderConfig(next);
+  };
+
+  // Switching the data source drops the auction index, so text fields only apply on blur,
+  // and only when they differ from the saved config.
+  const applyClientConfig = (next: HypixelClientConfig = clientConfig) => {
+    setClientConfig(next);
+    const saved = loadHypixelClientConfig();
+    if (next.mode === saved.mode && next.recordingName === saved.recordingName && next.apiKey === saved.apiKey) return;
+    configureHypixelClient(next);
+  };
+
+  // Threshold fields apply on blur, once valid, so views don't rescan on every keystroke.
+  const commitScannerField = (key: keyof ScannerSettings) => {
+    const raw = scannerDraft[key].trim();
+    const next = { ...scanner, [key]: raw === '' ? NaN : Number(raw) };
+    const errors = validateScannerSettings(next);
+    setScannerErrors(prev => ({ ...prev, [key]: errors[key] }));
+    if (errors[key] || next[key] === scanner[key]) return;
+    setScanner(next);
+    saveScannerSettings(next);
+  };
+
+  const resetScanner = () => {
+    setScanner(DEFAULT_SCANNER_SETTINGS);
+    setScannerDraft(toDraft(DEFAULT_SCANNER_SETTINGS));
+    setScannerErrors({});
+    saveScannerSettings(DEFAULT_SCANNER_SETTINGS);
+  };
+
+  const updateComparables = (next: ComparableConfig) => {
+    setComparables(next);
+    saveComparableConfig(next);
+  };
+
+  const exportProfile = () => {
+    const url = URL.createObjectURL(new Blob([exportSettingsProfile()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'flip-finder-settings.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const profile = parseSettingsProfile(await file.text());
+      applySettingsProfile(profile);
+      setFees(profile.fees);
+      setScanner(profile.scanner);
+      setScannerDraft(toDraft(profile.scanner));
+      setScannerErrors({});
+      setProfileMessage(`Imported settings from ${file.name}.`);
+    } catch (error) {
+      setProfileMessage(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const updateItemLists = (next: ItemLists) => {
+    setItemLists(next);
+    saveItemLists(next);
+  };
+
+  const addRule = () => {
+    const rule = { ...newRule, value: newRule.value.trim() };
+    const error = validateItemRule(rule);
+    setRuleError(error);
+    if (error) return;
+    updateItemLists({ ...itemLists, [newRuleList]: [...itemLists[newRuleList], rule] });
+    setNewRule({ ...newRule, value: newRule.kind === 'rarity' ? newRule.value : '' });
+  };
+
+  const removeRule = (list: keyof ItemLists, index: number) =>
+    updateItemLists({ ...itemLists, [list]: itemLists[list].filter((_, i) => i !== index) });
+
+  // Rarity rules pick from a list, so switching to one starts with a valid value.
+  const selectRuleKind = (kind: ItemRuleKind) => {
+    setNewRule({ kind, value: kind === 'rarity' ? Rarity.LEGENDARY : '' });
+    setRuleError(null);
+  };
+
+  const clearCache = async (kind: AICacheKind, label: string) => {
+    try {
+      await clearAICache(kind);
+      setCacheMessage(`Cleared cached ${label}.`);
+    } catch (error) {
+      console.error(error);
+      setCacheMessage(`Failed to clear cached ${label}.`);
+    }
+  };
+
+  // Switching providers resets the model to that provider's default.
+  const selectProvider = (provider: AIProviderId) =>
+    updateAiConfig({ ...aiConfig, provider, model: DEFAULT_MODELS[provider] });
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex justify-center items-start pt-20 z-40" onClick={onClose}>
+      <div className="bg-gray-800 w-full max-w-lg max-h-[80vh] overflow-y-auto rounded-xl shadow-2xl p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none">×</button>
+        </div>
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">Fees</h3>
+          <div className="divide-y divide-gray-700">
+            <SettingRow label="Auction duration" hint="Used for the listing duration fee.">
+              <select
+                className={inputClasses}
+                value={fees.auctionDuration}
+                onChange={e => updateFees({ ...fees, auctionDuration: Number(e.target.value) as AuctionDuration })}
+              >
+                {AUCTION_DURATIONS.map(hours => <option key={hours} value={hours}>{hours}h</option>)}
+              </select>
+            </SettingRow>
+            <SettingRow label="Bazaar Flipper upgrade" hint="Account upgrade that lowers the bazaar sales tax.">
+              <select
+                className={inputClasses}
+                value={fees.bazaarFlipperLevel}
+                onChange={e => updateFees({ ...fees, bazaarFlipperLevel: Number(e.target.value) as BazaarFlipperLevel })}
+              >
+                <option value={0}>None</option>
+                <option value={1}>Level I</option>
+                <option value={2}>Level II</option>
+              </select>
+            </SettingRow>
+            <SettingRow label="Derpy: QUAD TAXING" hint="Active mayor perk that quadruples auction house taxes.">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-purple-500"
+                checked={fees.mayorPerks.quadTaxing}
+                onChange={e => updateFees({ ...fees, mayorPerks: { ...fees.mayorPerks, quadTaxing: e.target.checked } })}
+              />
+            </SettingRow>
+          </div>
+        </section>
+
+        <section className="mt-6">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider">Thresholds</h3>
+            <button onClick={resetScanner} className="text-sm text-purple-400 hover:text-purple-300">Reset to defaults</button>
+          </div>
+          {THRESHOLD_GROUPS.map(group => (
+            <div key={group.title} className="mb-3">
+              <p className="text-xs text-gray-500 uppercase tracking-wider mt-2">{group.title}</p>
+              <div className="divide-y divide-gray-700">
+                {group.fields.map(field => (
+                  <SettingRow key={field.key} label={field.label} hint={field.hint} error={scannerErrors[field.key]}>
+                    <input
+                      type="number"
+                      className={`${inputClasses} w-32 ${scannerErrors[field.key] ? 'ring-2 ring-red-500' : ''}`}
+                      value={scannerDraft[field.key]}
+                      onChange={e => setScannerDraft({ ...scannerDraft, [field.key]: e.target.value })}
+                      onBlur={() => commitScannerField(field.key)}
+                    />
+                  </SettingRow>
+                ))}
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <section className="mt-6">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider">Comparables</h3>
+            <button onClick={() => updateComparables(DEFAULT_COMPARABLE_CONFIG)} className="text-sm text-purple-400 hover:text-purple-300">Reset to defaults</button>
+          </div>
+          <p className="text-xs text-gray-500 mb-1">Auction flips are priced against listings that match on these attributes.</p>
+          <div className="divide-y divide-gray-700">
+            {COMPARABLE_DIMENSIONS.map(({ key, label }) => (
+              <SettingRow key={key} label={label}>
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-purple-500"
+                  checked={comparables[key]}
+                  onChange={e => updateComparables({ ...comparables, [key]: e.target.checked })}
+                />
+              </SettingRow>
+            ))}
+            <SettingRow label="Pet level band" hint="Pets are compared within bands this many levels wide. 0 ignores the level.">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className={`${inputClasses} w-20`}
+                value={comparables.petLevelBandSize}
+                onChange={e => updateComparables({ ...comparables, petLevelBandSize: Math.min(100, Math.max(0, Math.floor(Number(e.target.value) || 0))) })}
+              />
+            </SettingRow>
+            <SettingRow label="Minimum comparables" hint="Thinner buckets fall back to fewer matching attributes.">
+              <input
+                type="number"
+                min={1}
+                max={50}
+                className={`${inputClasses} w-20`}
+                value={comparables.minBucketSize}
+                onChange={e => updateComparables({ ...comparables, minBucketSize: Math.min(50, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+              />
+            </SettingRow>
+          </div>
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">Item Lists</h3>
+          {ITEM_LIST_LABELS.map(({ list, label, hint }) => (
+            <div key={list} className="mb-3">
+              <p className="text-sm text-gray-200">{label} <span className="text-xs text-gray-500">{hint}</span></p>
+              {itemLists[list].length === 0 ? (
+                <p className="text-xs text-gray-500 mt-1">No rules.</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {itemLists[list].map((rule, index) => (
+                    <li key={`${rule.kind}:${rule.value}:${index}`} className="flex justify-between items-center text-sm bg-gray-700/50 rounded-md px-3 py-1">
+                      <span><span className="text-gray-400">{ruleKindLabel(rule.kind)}:</span> <span className="font-mono text-gray-200">{rule.value}</span></span>
+                      <button onClick={() => removeRule(list, index)} className="text-gray-400 hover:text-red-400 leading-none">×</button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 items-center">
+            <select className={inputClasses} value={newRuleList} onChange={e => setNewRuleList(e.target.value as keyof ItemLists)}>
+              <option value="block">Block</option>
+              <option value="allow">Allow</option>
+            </select>
+            <select className={inputClasses} value={newRule.kind} onChange={e => selectRuleKind(e.target.value as ItemRuleKind)}>
+              {ITEM_RULE_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+            </select>
+            {newRule.kind === 'rarity' ? (
+              <select className={inputClasses} value={newRule.value} onChange={e => setNewRule({ ...newRule, value: e.target.value })}>
+                {Object.values(Rarity).map(rarity => <option key={rarity} value={rarity}>{rarity.replace('_', ' ')}</option>)}
+              </select>
+            ) : (
+              <input
+                className={`${inputClasses} flex-1 ${ruleError ? 'ring-2 ring-red-500' : ''}`}
+                value={newRule.value}
+                placeholder={newRule.kind === 'itemId' ? 'HYPERION' : newRule.kind === 'regex' ? '^Ancient .* Sword$' : newRule.kind === 'category' ? 'SWORD' : 'Hyperion'}
+                onChange={e => setNewRule({ ...newRule, value: e.target.value })}
+                onKeyDown={e => e.key === 'Enter' && addRule()}
+              />
+            )}
+            <button onClick={addRule} className="text-sm text-purple-400 hover:text-purple-300">Add</button>
+          </div>
+          {ruleError && <p className="text-xs text-red-400 mt-1">{ruleError}</p>}
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">Profile</h3>
+          <SettingRow label="Settings profile" hint="Fees and thresholds as a file. API keys are not included.">
+            <div className="flex gap-3">
+              <input ref={profileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importProfile} />
+              <button onClick={() => profileInputRef.current?.click()} className="text-sm text-purple-400 hover:text-purple-300">Import</button>
+              <button onClick={exportProfile} className="text-sm text-purple-400 hover:text-purple-300">Export</button>
+            </div>
+          </SettingRow>
+          {profileMessage && <p className="text-xs text-gray-400 mt-2">{profileMessage}</p>}
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">Data Source</h3>
+          <div className="divide-y divide-gray-700">
+            <SettingRow label="Hypixel API" hint="Record and replay save to recordings/ and need the dev server.">
+              <select
+                className={inputClasses}
+                value={clientConfig.mode}
+                onChange={e => applyClientConfig({ ...clientConfig, mode: e.target.value as HypixelClientMode })}
+              >
+                <option value="live">Live</option>
+                <option value="record">Live, recording</option>
+                <option value="replay">Replay recording</option>
+              </select>
+            </SettingRow>
+            {clientConfig.mode !== 'live' && (
+              <SettingRow label="Recording name">
+                <input
+                  className={inputClasses}
+                  value={clientConfig.recordingName}
+                  onChange={e => setClientConfig({ ...clientConfig, recordingName: e.target.value })}
+                  onBlur={() => applyClientConfig()}
+                />
+              </SettingRow>
+            )}
+            <SettingRow label="Hypixel API key" hint="Only needed for player auctions.">
+              <input
+                type="password"
+                className={inputClasses}
+                value={clientConfig.apiKey}
+                onChange={e => setClientConfig({ ...clientConfig, apiKey: e.target.value })}
+                onBlur={() => applyClientConfig()}
+              />
+            </SettingRow>
+          </div>
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">AI Provider</h3>
+          <div className="divide-y divide-gray-700">
+            <SettingRow label="Provider" hint="Used by Market Trends and the crafting recipe fallback.">
+              <select
+                className={inputClasses}
+                value={aiConfig.provider}
+                onChange={e => selectProvider(e.target.value as AIProviderId)}
+              >
+                {getAIProviders().map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+              </select>
+            </SettingRow>
+            <SettingRow label="Model">
+              <input
+                className={inputClasses}
+                value={aiConfig.model}
+                onChange={e => updateAiConfig({ ...aiConfig, model: e.target.value })}
+              />
+            </SettingRow>
+            {aiConfig.provider === 'openai-compatible' && (
+              <>
+                <SettingRow label="Endpoint" hint="Base URL of the chat completions API.">
+                  <input
+                    className={inputClasses}
+                    value={aiConfig.baseUrl}
+                    onChange={e => updateAiConfig({ ...aiConfig, baseUrl: e.target.value })}
+                  />
+                </SettingRow>
+                <SettingRow label="API key" hint="Leave empty for local servers.">
+                  <input
+                    type="password"
+                    className={inputClasses}
+                    value={aiConfig.apiKey}
+                    onChange={e => updateAiConfig({ ...aiConfig, apiKey: e.target.value })}
+                  />
+                </SettingRow>
+              </>
+            )}
+            <SettingRow label="Parallel requests" hint="AI requests in flight at once. Lower it if the provider rate limits you.">
+              <input
+                type="number"
+                min={1}
+                max={16}
+                className={`${inputClasses} w-20`}
+                value={aiConfig.maxConcurrency}
+                onChange={e => updateAiConfig({ ...aiConfig, maxConcurrency: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </SettingRow>
+            <SettingRow label="Cached answers" hint="Valuations expire after 6 hours; recipes are kept until cleared.">
+              <div className="flex gap-3">
+                <button onClick={() => clearCache('itemValue', 'valuations')} className="text-sm text-purple-400 hover:text-purple-300">Clear valuations</button>
+                <button onClick={() => clearCache('craftingRecipe', 'recipes')} className="text-sm text-purple-400 hover:text-purple-300">Clear recipes</button>
+              </div>
+            </SettingRow>
+          </div>
+          {cacheMessage && <p className="text-xs text-gray-400 mt-2">{cacheMessage}</p>}
+        </section>
+
+        <p className="text-xs text-gray-500 mt-4">Changes apply from the next refresh.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { ItemRuleKind } from '../services/itemListService';
+import {
+  clearAlertLog, loadAlertLog, loadWatchlistConfig, notificationsSupported, requestNotificationPermission, saveWatchlistConfig,
+  subscribeAlertLog, validateWatchRule, WatchAlert, WatchlistConfig, WatchMarket, WatchRule,
+} from '../services/watchlistService';
+
+const formatNumber = (num: number): string => new Intl.NumberFormat('en-US').format(Math.round(num));
+
+const ITEM_KINDS: { kind: ItemRuleKind; label: string; placeholder: string }[] = [
+  { kind: 'itemId', label: 'Item ID', placeholder: 'HYPERION' },
+  { kind: 'name', label: 'Name', placeholder: 'Hyperion' },
+  { kind: 'regex', label: 'Name regex', placeholder: '^Withered .* Hyperion$' },
+];
+
+const MARKETS: { market: WatchMarket; label: string }[] = [
+  { market: 'auction', label: 'Auctions' },
+  { market: 'bazaar', label: 'Bazaar' },
+];
+
+interface RuleDraft {
+  kind: ItemRuleKind;
+  value: string;
+  markets: WatchMarket[];
+  minProfit: string;
+  maxBuyPrice: string;
+  minConfidence: string; // Percent
+}
+
+const EMPTY_DRAFT: RuleDraft = { kind: 'itemId', value: '', markets: ['auction'], minProfit: '', maxBuyPrice: '', minConfidence: '' };
+
+const optionalNumber = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
+
+const ruleFromDraft = (draft: RuleDraft): WatchRule => {
+  const minConfidence = optionalNumber(draft.minConfidence);
+  return {
+    id: crypto.randomUUID(),
+    item: { kind: draft.kind, value: draft.value.trim() },
+    markets: draft.markets,
+    minProfit: optionalNumber(draft.minProfit),
+    maxBuyPrice: optionalNumber(draft.maxBuyPrice),
+    minConfidence: minConfidence === undefined ? undefined : minConfidence / 100,
+    enabled: true,
+  };
+};
+
+const describeRule = (rule: WatchRule): string => {
+  const conditions = [
+    rule.minProfit !== undefined && `profit ≥ ${formatNumber(rule.minProfit)}`,
+    rule.maxBuyPrice !== undefined && `buy ≤ ${formatNumber(rule.maxBuyPrice)}`,
+    rule.minConfidence !== undefined && `confidence ≥ ${Math.round(rule.minConfidence * 100)}%`,
+  ].filter(Boolean);
+  return conditions.length > 0 ? conditions.join(', ') : 'any profitable flip';
+};
+
+const inputClasses = "bg-gray-700 text-gray-200 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400";
+
+export const Watchlist: React.FC = () => {
+  const [config, setConfig] = useState<WatchlistConfig>(loadWatchlistConfig);
+  const [alerts, setAlerts] = useState<WatchAlert[]>(loadAlertLog);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission>(notificationsSupported() ? Notification.permission : 'denied');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => subscribeAlertLog(setAlerts), []);
+
+  const updateConfig = (next: WatchlistConfig) => {
+    setConfig(next);
+    saveWatchlistConfig(next);
+  };
+
+  const addRule = () => {
+    const rule = ruleFromDraft(draft);
+    const error = validateWatchRule(rule);
+    setDraftError(error);
+    if (error) return;
+    updateConfig({ ...config, rules: [...config.rules, rule] });
+    setDraft({ ...EMPTY_DRAFT, kind: draft.kind, markets: draft.markets });
+  };
+
+  const updateRule = (id: string, changes: Partial<WatchRule>) =>
+    updateConfig({ ...config, rules: config.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+
+  const removeRule = (id: string) => updateConfig({ ...config, rules: config.rules.filter(rule => rule.id !== id) });
+
+  const toggleDraftMarket = (market: WatchMarket) => setDraft({
+    ...draft,
+    markets: draft.markets.includes(market) ? draft.markets.filter(m => m !== market) : [...draft.markets, market],
+  });
+
+  const enableNotifications = async () => setPermission(await requestNotificationPermission());
+
+  const handleCopyCommand = (alert: WatchAlert) => {
+    navigator.clipboard.writeText(alert.command);
+    setCopiedId(alert.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-2xl p-4 sm:p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Watchlist</h2>
+          <p className="text-sm text-gray-400 mt-1">Get an alert when a matching flip shows up. Rules are checked against every auction and bazaar refresh; markets whose view is closed are refreshed in the background at their refresh intervals.</p>
+        </div>
+        <div className="text-right text-sm space-y-1">
+          {permission === 'granted' ? (
+            <p className="text-green-400">Desktop notifications on</p>
+          ) : permission === 'denied' ? (
+            <p className="text-orange-400">Notifications are blocked by the browser</p>
+          ) : (
+            <button onClick={enableNotifications} className="text-purple-400 hover:text-purple-300">Enable desktop notifications</button>
+          )}
+          <label className="flex items-center justify-end text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-2 accent-purple-500"
+              checked={config.playSound}
+              onChange={e => updateConfig({ ...config, playSound: e.target.checked })}
+            />
+            Play a sound
+          </label>
+        </div>
+      </div>
+
+      <section className="mb-6">
+        <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider mb-2">Rules</h3>
+        {config.rules.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-3">No watch rules yet.</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {config.rules.map(rule => (
+              <li key={rule.id} className="flex justify-between items-center bg-gray-700/50 rounded-md px-3 py-2 text-sm">
+                <label className="flex items-center cursor-pointer">
+                  <input type="checkbox" className="mr-3 accent-purple-500" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} />
+                  <span className={rule.enabled ? 'text-gray-200' : 'text-gray-500'}>
+                    <span className="font-mono">{rule.item.value}</span>
+                    <span className="text-gray-400"> ({ITEM_KINDS.find(k => k.kind === rule.item.kind)?.label}, {rule.markets.join(' + ')}): {describeRule(rule)}</span>
+                  </span>
+                </label>
+                <button onClick={() => removeRule(rule.id)} className="text-gray-400 hover:text-red-400 leading-none text-lg">×</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2 items-center">
+          <select className={inputClasses} value={draft.kind} onChange={e => setDraft({ ...draft, kind: e.target.value as ItemRuleKind })}>
+            {ITEM_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+          </select>
+          <input
+            className={`${inputClasses} w-56`}
+            value={draft.value}
+            placeholder={ITEM_KINDS.find(k => k.kind === draft.kind)?.placeholder}
+            onChange={e => setDraft({ ...draft, value: e.target.value })}
+          />
+          <input type="number" className={`${inputClasses} w-32`} value={draft.minProfit} placeholder="Min profit" onChange={e => setDraft({ ...draft, minProfit: e.target.value })} />
+          <input type="number" className={`${inputClasses} w-32`} value={draft.maxBuyPrice} placeholder="Max buy price" onChange={e => setDraft({ ...draft, maxBuyPrice: e.target.value })} />
+          <input type="number" className={`${inputClasses} w-36`} value={draft.minConfidence} placeholder="Min confidence %" onChange={e => setDraft({ ...draft, minConfidence: e.target.value })} />
+          {MARKETS.map(({ market, label }) => (
+            <label key={market} className="flex items-center text-sm text-gray-400 cursor-pointer">
+              <input type="checkbox" className="mr-1 accent-purple-500" checked={draft.markets.includes(market)} onChange={() => toggleDraftMarket(market)} />
+              {label}
+            </label>
+          ))}
+          <button onClick={addRule} className="px-3 py-1 text-sm rounded-md bg-purple-600 hover:bg-purple-700 text-white">Add rule</button>
+        </div>
+        {draftError && <p className="text-xs text-red-400 mt-1">{draftError}</p>}
+        <p className="text-xs text-gray-500 mt-1">Only flips the finders already show can match, so profits below the scanner thresholds never alert.</p>
+      </section>
+
+      <section>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-medium text-gray-300 uppercase tracking-wider">Alert Log</h3>
+          {alerts.length > 0 && <button onClick={clearAlertLog} className="text-sm text-purple-400 hover:text-purple-300">Clear</button>}
+        </div>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-gray-500">No alerts yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-gray-700/50">
+                <tr>
+                  {['Time', 'Item', 'Market', 'Profit', 'Buy Price', 'Command'].map(label => (
+                    <th key={label} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-gray-800 divide-y divide-gray-700">
+                {alerts.map(alert => (
+                  <tr key={alert.id} className="hover:bg-gray-700/50 transition-colors duration-150">
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-400 text-sm">{new Date(alert.firedAt).toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap font-semibold text-cyan-300">{alert.itemName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-400">{alert.market}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-green-400 font-bold">+{formatNumber(alert.profit)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">{formatNumber(alert.buyPrice)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => handleCopyCommand(alert)}
+                        className={`px-3 py-1 text-sm rounded-md font-mono ${copiedId === alert.id ? 'bg-green-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                        title="Copy command"
+                      >
+                        {copiedId === alert.id ? 'Copied!' : alert.command}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState, useMemo } from 'react';
+import { Rarity, SortConfig } from '../../types';
+import {
+  emptyTableFilters, filterRows, hasActiveFilters, loadHiddenColumns, RangeFilter, saveHiddenColumns, sortRows, TableFilters, toggleSort,
+} from '../../services/tableService';
+import { getRarityColor } from './ItemCell';
+
+export interface DataTableColumn<T, K extends string> {
+  id: string;
+  label: string;
+  sortKey?: K; // Makes the column sortable and range-filterable
+  hideable?: boolean; // Defaults to true; the item name column should not be hideable
+  align?: 'left' | 'right';
+  className?: string | ((row: T) => string);
+  render: (row: T) => React.ReactNode;
+}
+
+interface DataTableProps<T, K extends keyof T & string> {
+  tableId: string; // Key the hidden columns are saved under
+  rows: T[];
+  columns: DataTableColumn<T, K>[];
+  getRowKey: (row: NoInfer<T>) => string;
+  getName: (row: NoInfer<T>) => string;
+  getRarity?: (row: NoInfer<T>) => Rarity; // Enables the rarity filter
+  defaultSort: SortConfig<K>[];
+  onHideRow?: (row: NoInfer<T>) => void; // Adds a "hide this item" action to every row
+}
+
+const RARITIES = Object.values(Rarity);
+
+const parseBound = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toolbarButtonClasses = (active: boolean) =>
+  `px-3 py-1 text-xs rounded-md ${active ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+export const DataTable = <T, K extends keyof T & string>({ tableId, rows, columns, getRowKey, getName, getRarity, defaultSort, onHideRow }: DataTableProps<T, K>) => {
+  const [sorts, setSorts] = useState<SortConfig<K>[]>(defaultSort);
+  const [filters, setFilters] = useState<TableFilters<K>>(emptyTableFilters);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(() => loadHiddenColumns(tableId));
+  const [openPanel, setOpenPanel] = useState<'filters' | 'columns' | null>(null);
+
+  const sortableColumns = columns.filter(column => column.sortKey);
+  const visibleColumns = columns.filter(column => column.hideable === false || !hiddenColumns.includes(column.id));
+
+  const visibleRows = useMemo(
+    () => sortRows(filterRows(rows, filters, { getName, getRarity }), sorts),
+    [rows, filters, sorts, getName, getRarity]
+  );
+
+  const toggleRarity = (rarity: Rarity) => setFilters(prev => ({
+    ...prev,
+    rarities: prev.rarities.includes(rarity) ? prev.rarities.filter(r => r !== rarity) : [...prev.rarities, rarity],
+  }));
+
+  const setRange = (key: K, bound: keyof RangeFilter, value: string) => setFilters(prev => ({
+    ...prev,
+    ranges: { ...prev.ranges, [key]: { ...prev.ranges[key], [bound]: parseBound(value) } },
+  }));
+
+  const toggleColumn = (id: string) => {
+    const next = hiddenColumns.includes(id) ? hiddenColumns.filter(hidden => hidden !== id) : [...hiddenColumns, id];
+    setHiddenColumns(next);
+    saveHiddenColumns(tableId, next);
+  };
+
+  const sortIndicator = (key: K) => {
+    const index = sorts.findIndex(sort => sort.key === key);
+    if (index === -1) return '';
+    const icon = sorts[index].direction === 'ascending' ? '▲' : '▼';
+    return sorts.length > 1 ? `${icon}${index + 1}` : icon;
+  };
+
+  const cellClassName = (column: DataTableColumn<T, K>, row: T) =>
+    typeof column.className === 'function' ? column.className(row) : column.className ?? 'text-gray-300';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={e => setFilters(prev => ({ ...prev, search: e.target.value }))}
+          placeholder="Search items..."
+          className="bg-gray-700 text-white rounded-md px-3 py-1 w-56"
+        />
+        {getRarity && RARITIES.map(rarity => (
+          <button
+            key={rarity}
+            onClick={() => toggleRarity(rarity)}
+            className={`px-2 py-1 text-xs rounded-md border ${filters.rarities.includes(rarity) ? `border-purple-500 bg-gray-700 ${getRarityColor(rarity)}` : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+          >
+            {rarity.replace('_', ' ')}
+          </button>
+        ))}
+        <button onClick={() => setOpenPanel(openPanel === 'filters' ? null : 'filters')} className={toolbarButtonClasses(openPanel === 'filters')}>Ranges</button>
+        <button onClick={() => setOpenPanel(openPanel === 'columns' ? null : 'columns')} className={toolbarButtonClasses(openPanel === 'columns')}>Columns</button>
+        {hasActiveFilters(filters) && (
+          <button onClick={() => setFilters(emptyTableFilters())} className="text-xs text-purple-400 hover:text-purple-300">Clear filters</button>
+        )}
+        <span className="ml-auto text-xs text-gray-400">Showing {visibleRows.length} of {rows.length}</span>
+      </div>
+
+      {openPanel === 'filters' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mb-3 p-3 bg-gray-700/50 rounded-lg text-xs text-gray-300">
+          {sortableColumns.map(column => {
+            const key = column.sortKey!;
+            return (
+              <label key={column.id} className="flex items-center justify-between gap-2">
+                {column.label}
+                <span className="flex gap-1">
+                  <input type="number" placeholder="min" value={filters.ranges[key]?.min ?? ''} onChange={e => setRange(key, 'min', e.target.value)} className="bg-gray-800 text-white rounded px-2 py-1 w-24" />
+                  <input type="number" placeholder="max" value={filters.ranges[key]?.max ?? ''} onChange={e => setRange(key, 'max', e.target.value)} className="bg-gray-800 text-white rounded px-2 py-1 w-24" />
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {openPanel === 'columns' && (
+        <div className="flex flex-wrap gap-4 mb-3 p-3 bg-gray-700/50 rounded-lg text-xs text-gray-300">
+          {columns.filter(column => column.hideable !== false).map(column => (
+            <label key={column.id} className="flex items-center cursor-pointer">
+              <input type="checkbox" className="mr-2 accent-purple-500" checked={!hiddenColumns.includes(column.id)} onChange={() => toggleColumn(column.id)} />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-700">
+          <thead className="bg-gray-700/50">
+            <tr>
+              {visibleColumns.map(column => (
+                <th
+                  key={column.id}
+                  scope="col"
+                  className={`px-6 py-3 text-xs font-medium text-gray-300 uppercase tracking-wider ${column.align === 'right' ? 'text-right' : 'text-left'} ${column.sortKey ? 'cursor-pointer select-none' : ''}`}
+                  onClick={column.sortKey ? e => setSorts(toggleSort(sorts, column.sortKey!, e.shiftKey)) : undefined}
+                  title={column.sortKey ? 'Click to sort, shift-click to add a tie-breaker' : undefined}
+                >
+                  <span className={`flex items-center ${column.align === 'right' ? 'justify-end' : ''}`}>
+                    {column.label}
+                    {column.sortKey && <span className="ml-2">{sortIndicator(column.sortKey)}</span>}
+                  </span>
+                </th>
+              ))}
+              {onHideRow && <th scope="col" className="px-2 py-3" />}
+            </tr>
+          </thead>
+          <tbody className="bg-gray-800 divide-y divide-gray-700">
+            {visibleRows.map(row => (
+              <tr key={getRowKey(row)} className="hover:bg-gray-700/50 transition-colors duration-150">
+                {visibleColumns.map(column => (
+                  <td key={column.id} className={`px-6 py-4 whitespace-nowrap ${column.align === 'right' ? 'text-right' : ''} ${cellClassName(column, row)}`}>
+                    {column.render(row)}
+                  </td>
+                ))}
+                {onHideRow && (
+                  <td className="px-2 py-4 whitespace-nowrap text-right">
+                    <button onClick={() => onHideRow(row)} className="text-gray-500 hover:text-red-400 text-lg leading-none" title="Hide this item from every finder">×</button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && rows.length > 0 && (
+          <p className="text-center text-sm py-6 text-gray-400">No rows match the current filters.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Rarity, Ingredient } from '../../types';
+import { Rarity, Ingredient, CostNode } from '../../types';
 import { LoreParser } from './LoreParser';
 
 interface ItemCellProps {
@@ -7,9 +7,12 @@ interface ItemCellProps {
   rarity: Rarity;
   lore?: string;
   recipe?: Ingredient[];
+  costTree?: CostNode;
+  subtitle?: string;
+  onClick?: () => void;
 }
 
-const getRarityColor = (rarity: Rarity): string => {
+export const getRarityColor = (rarity: Rarity): string => {
   switch (rarity) {
     case Rarity.COMMON: return 'text-white';
     case Rarity.UNCOMMON: return 'text-green-400';
@@ -23,10 +26,46 @@ const getRarityColor = (rarity: Rarity): string => {
   }
 };
 
-export const ItemCell: React.FC<ItemCellProps> = ({ itemName, rarity, lore, recipe }) => {
+const METHOD_LABELS: Record<CostNode['method'], string> = {
+  instabuy: 'insta-buy',
+  buy_order: 'buy order',
+  craft: 'craft',
+};
+
+const formatCoins = (num: number): string => Math.round(num).toLocaleString();
+
+const CostTreeNode: React.FC<{ node: CostNode; depth: number }> = ({ node, depth }) => (
+  <li>
+    <div className="text-sm flex justify-between space-x-4" style={{ paddingLeft: `${depth * 12}px` }}>
+      <span className="text-cyan-300">
+        <span className="text-gray-300">{node.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })}x</span> {node.name}
+        <span className={`ml-2 text-xs ${node.method === 'craft' ? 'text-purple-400' : 'text-gray-500'}`}>({METHOD_LABELS[node.method]})</span>
+      </span>
+      <span className="text-gray-400 font-mono">{formatCoins(node.totalCost)}</span>
+    </div>
+    {node.children.length > 0 && (
+      <ul>
+        {node.children.map(child => <CostTreeNode key={child.itemId} node={child} depth={depth + 1} />)}
+      </ul>
+    )}
+  </li>
+);
+
+export const ItemCell: React.FC<ItemCellProps> = ({ itemName, rarity, lore, recipe, costTree, subtitle, onClick }) => {
   const [isHovered, setIsHovered] = useState(false);
 
   const renderTooltipContent = () => {
+    if (costTree) {
+      return (
+        <div>
+          <h4 className="font-bold text-white mb-2 border-b border-gray-700 pb-1">Cheapest Crafting Path</h4>
+          <ul className="space-y-1">
+            {costTree.children.map(child => <CostTreeNode key={child.itemId} node={child} depth={0} />)}
+          </ul>
+          <p className="text-xs text-gray-400 mt-2 border-t border-gray-700 pt-1">Total: {formatCoins(costTree.totalCost)} coins</p>
+        </div>
+      );
+    }
     if (recipe && recipe.length > 0) {
       return (
         <div>
@@ -54,25 +93,27 @@ export const ItemCell: React.FC<ItemCellProps> = ({ itemName, rarity, lore, reci
     return null;
   };
 
-  const hasTooltip = !!(lore || (recipe && recipe.length > 0));
+  const hasTooltip = !!(lore || costTree || (recipe && recipe.length > 0));
 
   return (
-    <td className="px-6 py-4 whitespace-nowrap">
-      <div 
-        className="relative"
-        onMouseEnter={() => setIsHovered(true)}
-        onMouseLeave={() => setIsHovered(false)}
+    <div
+      className="relative"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <span
+        className={`font-semibold ${getRarityColor(rarity)} ${onClick ? 'cursor-pointer hover:underline' : hasTooltip ? 'cursor-help' : ''}`}
+        onClick={onClick}
       >
-        <span className={`font-semibold ${getRarityColor(rarity)} ${hasTooltip ? 'cursor-help' : ''}`}>
-          {itemName}
-        </span>
+        {itemName}
+      </span>
+      {subtitle && <p className="text-xs text-gray-500 font-mono">{subtitle}</p>}
 
-        {isHovered && hasTooltip && (
-          <div className="absolute bottom-full left-0 mb-2 w-max max-w-sm bg-gray-900 border border-gray-600 rounded-lg shadow-2xl p-3 z-50 pointer-events-none">
-            {renderTooltipContent()}
-          </div>
-        )}
-      </div>
-    </td>
+      {isHovered && hasTooltip && (
+        <div className="absolute bottom-full left-0 mb-2 w-max max-w-sm bg-gray-900 border border-gray-600 rounded-lg shadow-2xl p-3 z-50 pointer-events-none">
+          {renderTooltipContent()}
+        </div>
+      )}
+    </div>
   );
 };
\ No newline at end of file
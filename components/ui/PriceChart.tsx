@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+
+export interface ChartSeries {
+  label: string;
+  color: string; // Any SVG stroke color
+  points: { x: number; y: number }[]; // x is a ms timestamp
+}
+
+export interface ChartOverlay {
+  label: string;
+  color: string;
+  value: number;
+}
+
+interface PriceChartProps {
+  series: ChartSeries[];
+  overlays?: ChartOverlay[];
+  height?: number;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 60 };
+
+const defaultFormat = (value: number): string => {
+  if (Math.abs(value) >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (Math.abs(value) >= 1000) return `${(value / 1_000).toFixed(1)}k`;
+  return value.toFixed(0);
+};
+
+export const PriceChart: React.FC<PriceChartProps> = ({ series, overlays = [], height = 200, formatValue = defaultFormat }) => {
+  const layout = useMemo(() => {
+    const allPoints = series.flatMap(s => s.points);
+    if (allPoints.length === 0) return null;
+
+    const xs = allPoints.map(p => p.x);
+    const ys = [...allPoints.map(p => p.y), ...overlays.map(o => o.value)];
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    let minY = Math.min(...ys);
+    let maxY = Math.max(...ys);
+    if (minY === maxY) {
+      minY -= 1;
+      maxY += 1;
+    }
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const scaleX = (x: number) => PADDING.left + (maxX === minX ? plotWidth / 2 : (x - minX) / (maxX - minX) * plotWidth);
+    const scaleY = (y: number) => PADDING.top + (1 - (y - minY) / (maxY - minY)) * plotHeight;
+
+    return { minX, maxX, minY, maxY, scaleX, scaleY };
+  }, [series, overlays, height]);
+
+  if (!layout) {
+    return <div className="text-sm text-gray-500 text-center py-8">No recorded history for this range yet.</div>;
+  }
+
+  const { minX, maxX, minY, maxY, scaleX, scaleY } = layout;
+  const yTicks = [minY, (minY + maxY) / 2, maxY];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="#3d3d3d" strokeWidth={1} />
+            <text x={PADDING.left - 6} y={scaleY(tick) + 4} textAnchor="end" fontSize={11} fill="#9ca3af">{formatValue(tick)}</text>
+          </g>
+        ))}
+        {overlays.map(overlay => (
+          <line
+            key={overlay.label}
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={scaleY(overlay.value)}
+            y2={scaleY(overlay.value)}
+            stroke={overlay.color}
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+        ))}
+        {series.map(s => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            points={s.points.map(p => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ')}
+          />
+        ))}
+        <text x={PADDING.left} y={height - 4} fontSize={11} fill="#9ca3af">{new Date(minX).toLocaleString()}</text>
+        <text x={WIDTH - PADDING.right} y={height - 4} textAnchor="end" fontSize={11} fill="#9ca3af">{new Date(maxX).toLocaleString()}</text>
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs">
+        {series.map(s => (
+          <span key={s.label} className="flex items-center text-gray-300">
+            <span className="inline-block w-3 h-0.5 mr-1" style={{ backgroundColor: s.color }} />{s.label}
+          </span>
+        ))}
+        {overlays.map(o => (
+          <span key={o.label} className="flex items-center text-gray-300">
+            <span className="inline-block w-3 h-0.5 mr-1 border-t border-dashed" style={{ borderColor: o.color }} />{o.label}: {formatValue(o.value)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { configureHypixelClient } from './services/auctionWorkerClient';
+
+configureHypixelClient();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,76 @@
+// Backtests the flip finders over a series of snapshots and prints how their recommendations
+// played out. Snapshots can be exported snapshots, recordings or raw API dumps; a directory is
+// read in full. Extra ended-auction dumps (`auctions_ended` responses) can be added with --sales.
+// Thresholds and fees can be loaded from a settings profile exported under Settings with --profile.
+// Usage: npm run backtest -- <snapshot-file-or-dir>... [--horizon <hours>] [--sales <file>] [--profile <file>] [--json <out-file>]
+import fs from 'fs';
+import path from 'path';
+import { runBacktest, StrategyReport } from '../services/backtestService';
+import { parseSnapshotFile } from '../services/hypixelClient';
+import { parseSettingsProfile, SettingsProfile } from '../services/scannerSettingsService';
+import { RawEndedAuction } from '../types';
+
+const args = process.argv.slice(2).filter(arg => arg !== '--');
+const inputs: string[] = [];
+const salesFiles: string[] = [];
+let horizonHours = 6;
+let jsonOutput: string | null = null;
+let profile: SettingsProfile | null = null;
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--horizon') horizonHours = Number(args[++i]);
+  else if (arg === '--sales') salesFiles.push(args[++i]);
+  else if (arg === '--json') jsonOutput = args[++i];
+  else if (arg === '--profile') profile = parseSettingsProfile(fs.readFileSync(args[++i], 'utf8'));
+  else inputs.push(arg);
+}
+
+if (inputs.length === 0 || !(horizonHours > 0)) {
+  console.error('Usage: npm run backtest -- <snapshot-file-or-dir>... [--horizon <hours>] [--sales <file>] [--profile <file>] [--json <out-file>]');
+  process.exit(1);
+}
+
+const expandInput = (input: string): string[] =>
+  fs.statSync(input).isDirectory()
+    ? fs.readdirSync(input).filter(file => /\.jsonl?$/.test(file)).sort().map(file => path.join(input, file))
+    : [input];
+
+const snapshots = inputs.flatMap(expandInput).map(file => parseSnapshotFile(fs.readFileSync(file, 'utf8')));
+const extraEndedAuctions: RawEndedAuction[] = salesFiles.flatMap(file => {
+  const snapshot = parseSnapshotFile(fs.readFileSync(file, 'utf8'));
+  return (snapshot.responses['auctions_ended'] as { auctions: RawEndedAuction[] } | undefined)?.auctions ?? [];
+});
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const coins = (value: number) => Math.round(value).toLocaleString('en-US');
+const minutes = (ms: number | null) => (ms === null ? '-' : `${Math.round(ms / 60000)}m`);
+
+const printStrategy = (report: StrategyReport) => {
+  console.log(`\n${report.label}`);
+  console.log(`  recommendations ${report.recommendations}, evaluated ${report.evaluated}, pending ${report.recommendations - report.evaluated}`);
+  console.log(`  precision       ${percent(report.precision)} (${report.hits}/${report.evaluated})`);
+  console.log(`  time to sell    ${minutes(report.medianTimeToSell)} median`);
+  console.log(`  profit          ${coins(report.realizedProfit)} realized of ${coins(report.predictedProfit)} predicted`);
+  console.log(`  expected profit ${coins(report.expectedProfit)} per recommendation`);
+  for (const band of report.profitBands.filter(b => b.evaluated > 0)) {
+    console.log(`    margin >= ${percent(band.minMargin).padStart(6)}  ${percent(band.precision).padStart(6)} of ${band.evaluated}`);
+  }
+};
+
+const report = await runBacktest(snapshots, {
+  horizon: horizonHours * 60 * 60 * 1000,
+  extraEndedAuctions,
+  fees: profile?.fees,
+  settings: profile?.scanner,
+  onProgress: (done, total) => process.stderr.write(`\rReplayed ${done}/${total} snapshots`),
+});
+process.stderr.write('\n');
+
+console.log(`Backtest over ${report.steps} snapshots, ${new Date(report.from).toISOString()} to ${new Date(report.to).toISOString()}, ${horizonHours}h horizon`);
+report.strategies.forEach(printStrategy);
+
+if (jsonOutput) {
+  fs.writeFileSync(jsonOutput, JSON.stringify(report, null, 2));
+  console.log(`\nWrote the full report to ${jsonOutput}`);
+}
@@ -0,0 +1,29 @@
+// Builds public/recipes.json from a local checkout of the NotEnoughUpdates item repo.
+// Usage: node scripts/build-recipe-bundle.mjs <path-to-NEU-REPO> [output-file]
+import fs from 'fs';
+import path from 'path';
+
+const [repoPath, outputPath = 'public/recipes.json'] = process.argv.slice(2);
+if (!repoPath) {
+  console.error('Usage: node scripts/build-recipe-bundle.mjs <path-to-NEU-REPO> [output-file]');
+  process.exit(1);
+}
+
+const itemsDir = path.join(repoPath, 'items');
+const bundle = [];
+
+for (const file of fs.readdirSync(itemsDir)) {
+  if (!file.endsWith('.json')) continue;
+  const item = JSON.parse(fs.readFileSync(path.join(itemsDir, file), 'utf8'));
+  const craftingRecipes = (item.recipes ?? []).filter(recipe => (recipe.type ?? 'crafting') === 'crafting');
+  if (!item.recipe && craftingRecipes.length === 0) continue;
+
+  // Keep only what the recipe database reads, so the bundle stays small.
+  bundle.push({
+    internalname: item.internalname,
+    ...(item.recipe ? { recipe: item.recipe } : { recipes: craftingRecipes }),
+  });
+}
+
+fs.writeFileSync(outputPath, JSON.stringify(bundle));
+console.log(`Wrote ${bundle.length} recipes to ${outputPath}`);
@@ -0,0 +1,60 @@
+// Captures a series of snapshots for backtesting: the full bazaar and auction house every
+// --interval minutes. The ended-auctions endpoint only covers the last minute, so it is polled
+// every minute in between and the sales collected are saved with the next snapshot.
+// Usage: npm run capture -- <out-dir> [--interval <minutes>] [--count <snapshots>]
+import fs from 'fs';
+import path from 'path';
+import { captureSnapshot, createLiveClient } from '../services/hypixelClient';
+import { RawEndedAuction, RawEndedAuctionsResponse } from '../types';
+
+const args = process.argv.slice(2).filter(arg => arg !== '--');
+let outDir: string | null = null;
+let intervalMinutes = 30;
+let count = Infinity;
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--interval') intervalMinutes = Number(args[++i]);
+  else if (arg === '--count') count = Number(args[++i]);
+  else outDir = arg;
+}
+
+if (!outDir || !(intervalMinutes >= 1) || !(count >= 1)) {
+  console.error('Usage: npm run capture -- <out-dir> [--interval <minutes>] [--count <snapshots>]');
+  process.exit(1);
+}
+
+const MINUTE = 60 * 1000;
+const client = createLiveClient({ apiKey: process.env.HYPIXEL_API_KEY });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+fs.mkdirSync(outDir, { recursive: true });
+
+const sales = new Map<string, RawEndedAuction>();
+const pollSales = async () => {
+  try {
+    const { auctions } = await client.getEndedAuctions();
+    auctions.forEach(sale => sales.set(sale.auction_id, sale));
+  } catch (e) {
+    console.warn('Failed to fetch ended auctions:', e);
+  }
+};
+
+for (let captured = 0; captured < count; captured++) {
+  for (let minute = 0; captured > 0 && minute < intervalMinutes; minute++) {
+    await pollSales();
+    await sleep(MINUTE);
+  }
+  await pollSales();
+
+  try {
+    const snapshot = await captureSnapshot(client);
+    const ended = snapshot.responses['auctions_ended'] as RawEndedAuctionsResponse;
+    snapshot.responses['auctions_ended'] = { ...ended, auctions: [...sales.values()] };
+    const file = path.join(outDir, `${new Date(snapshot.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`);
+    fs.writeFileSync(file, JSON.stringify(snapshot));
+    console.log(`Saved ${file} with ${sales.size} sales`);
+    sales.clear();
+  } catch (e) {
+    console.error('Failed to capture snapshot:', e);
+  }
+}
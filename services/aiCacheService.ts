@@ -0,0 +1,127 @@
+import { Rarity } from '../types';
+import { loadAIProviderConfig } from './aiProvider';
+import { AI_CACHE_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// --- AI RESULT CACHE ---
+// Valuations and recipes from the AI provider are stored in IndexedDB, keyed by a fingerprint
+// of the item and the model that answered, so revisiting a view does not spend quota or get a
+// different answer, while switching models does ask again.
+// Valuations expire after a TTL; recipes are kept until the user invalidates them.
+
+export type AICacheKind = 'itemValue' | 'craftingRecipe';
+
+export interface AICacheEntry<T = unknown> {
+  key: string; // `${kind}:${fingerprint}`
+  kind: AICacheKind;
+  fingerprint: string;
+  subject: string; // Item name, for inspecting the store
+  createdAt: number;
+  expiresAt: number | null; // null never expires
+  value: T;
+}
+
+export interface CachedAnalysis<T> {
+  result: T;
+  cacheHit: boolean;
+  analyzedAt: number; // When the provider produced the result
+}
+
+export interface ItemFingerprintInput {
+  name: string;
+  rarity?: Rarity;
+  lore?: string;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export const AI_CACHE_TTL: Record<AICacheKind, number | null> = {
+  itemValue: 6 * HOUR,
+  craftingRecipe: null,
+};
+
+// Colour codes and spacing vary between otherwise identical listings.
+const normalizeText = (text: string): string =>
+  text
+    .replace(/§[0-9a-fk-or]/gi, '')
+    .split('\n')
+    .map(line => line.trim().replace(/\s+/g, ' '))
+    .filter(line => line !== '')
+    .join('\n')
+    .toLowerCase();
+
+/**
+ * SHA-256 of the model (`provider/model`) and the item's normalized name, rarity and lore, as hex.
+ */
+export const fingerprintItem = async (item: ItemFingerprintInput, model: string): Promise<string> => {
+  const canonical = [model, normalizeText(item.name), item.rarity ?? '', normalizeText(item.lore ?? '')].join('\u0000');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const cacheKey = (kind: AICacheKind, fingerprint: string) => `${kind}:${fingerprint}`;
+
+export const getCachedResult = async <T>(kind: AICacheKind, fingerprint: string, now: number = Date.now()): Promise<AICacheEntry<T> | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE, 'readonly');
+  const entry: AICacheEntry<T> | undefined = await requestToPromise(transaction.objectStore(AI_CACHE_STORE).get(cacheKey(kind, fingerprint)));
+  if (!entry || (entry.expiresAt !== null && entry.expiresAt <= now)) return null;
+  return entry;
+};
+
+export const putCachedResult = async <T>(kind: AICacheKind, fingerprint: string, subject: string, value: T, now: number = Date.now()): Promise<void> => {
+  const ttl = AI_CACHE_TTL[kind];
+  const entry: AICacheEntry<T> = {
+    key: cacheKey(kind, fingerprint),
+    kind,
+    fingerprint,
+    subject,
+    createdAt: now,
+    expiresAt: ttl === null ? null : now + ttl,
+    value,
+  };
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE, 'readwrite');
+  transaction.objectStore(AI_CACHE_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+/**
+ * Returns the selected model's cached result for the item, or runs `analyze` and caches what it
+ * returns. With `refresh` set the cache is skipped and overwritten. Errors thrown by `analyze`
+ * are not cached, and neither are results `isCacheable` rejects.
+ */
+export const withAICache = async <T>(
+  kind: AICacheKind,
+  item: ItemFingerprintInput,
+  analyze: () => Promise<T>,
+  refresh: boolean = false,
+  isCacheable: (result: T) => boolean = () => true
+): Promise<CachedAnalysis<T>> => {
+  const { provider, model } = loadAIProviderConfig();
+  const fingerprint = await fingerprintItem(item, `${provider}/${model}`);
+  if (!refresh) {
+    const cached = await getCachedResult<T>(kind, fingerprint).catch(() => null); // A broken cache must not block analysis
+    if (cached) return { result: cached.value, cacheHit: true, analyzedAt: cached.createdAt };
+  }
+  const result = await analyze();
+  const analyzedAt = Date.now();
+  if (!isCacheable(result)) return { result, cacheHit: false, analyzedAt };
+  await putCachedResult(kind, fingerprint, item.name, result, analyzedAt).catch(error => console.error('Failed to cache AI result:', error));
+  return { result, cacheHit: false, analyzedAt };
+};
+
+/**
+ * Removes every cached result of one kind, or all of them.
+ */
+export const clearAICache = async (kind?: AICacheKind): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(AI_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(AI_CACHE_STORE);
+  if (kind) {
+    const keys = await requestToPromise(store.index('kind').getAllKeys(kind));
+    keys.forEach(key => store.delete(key));
+  } else {
+    store.clear();
+  }
+  await transactionDone(transaction);
+};
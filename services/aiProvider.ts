@@ -0,0 +1,72 @@
+import type { Schema } from '@google/genai';
+
+// --- AI PROVIDERS ---
+// Every AI backend implements `AIProvider`. Requests carry the structured-output schema from
+// aiService.ts; each provider translates it into its own API's format and returns parsed JSON.
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+export type AITask = 'itemValue' | 'craftingRecipe';
+
+export interface StructuredRequest {
+  task: AITask;
+  subject: string; // What is being analyzed, e.g. the item name. Used by the mock to pick a fixture.
+  prompt: string;
+  schema: Schema;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  apiKey: string; // Only used by the OpenAI-compatible provider; Gemini reads GEMINI_API_KEY
+  maxConcurrency: number; // Requests the analysis queue keeps in flight at once
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  generateStructured: (request: StructuredRequest, config: AIProviderConfig) => Promise<unknown>;
+}
+
+/**
+ * Thrown by providers when the backend answers 429, so the analysis queue can back off and retry.
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  'mock': 'fixtures',
+};
+
+export const DEFAULT_AI_PROVIDER_CONFIG: AIProviderConfig = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  baseUrl: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible endpoint
+  apiKey: '',
+  maxConcurrency: 3,
+};
+
+// --- PERSISTENCE ---
+
+const AI_PROVIDER_CONFIG_KEY = 'aiProviderConfig';
+
+export const loadAIProviderConfig = (): AIProviderConfig => {
+  try {
+    const stored = localStorage.getItem(AI_PROVIDER_CONFIG_KEY);
+    return stored ? { ...DEFAULT_AI_PROVIDER_CONFIG, ...JSON.parse(stored) } : DEFAULT_AI_PROVIDER_CONFIG;
+  } catch {
+    return DEFAULT_AI_PROVIDER_CONFIG;
+  }
+};
+
+export const saveAIProviderConfig = (config: AIProviderConfig): void => {
+  localStorage.setItem(AI_PROVIDER_CONFIG_KEY, JSON.stringify(config));
+};
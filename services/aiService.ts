@@ -0,0 +1,200 @@
+
+import { Schema, Type } from "@google/genai";
+import { Rarity } from "../types";
+import { AIProvider, AIProviderId, loadAIProviderConfig, StructuredRequest } from "./aiProvider";
+import { CachedAnalysis, withAICache } from "./aiCacheService";
+import { enqueueAnalysis, isAbortError, setAnalysisConcurrency } from "./analysisQueue";
+import { geminiProvider } from "./providers/geminiProvider";
+import { openAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'mock': mockProvider,
+};
+
+export const getAIProviders = (): AIProvider[] => Object.values(PROVIDERS);
+
+// Sends a request through the analysis queue to whichever provider and model are currently selected.
+const generateStructured = (request: StructuredRequest): Promise<unknown> => {
+  const config = loadAIProviderConfig();
+  setAnalysisConcurrency(config.maxConcurrency);
+  return enqueueAnalysis(
+    signal => PROVIDERS[config.provider].generateStructured({ ...request, signal }, config),
+    request.signal
+  );
+};
+
+const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    estimatedValue: {
+      type: Type.NUMBER,
+      description: "The estimated fair market value of the item in coins.",
+    },
+    reasoning: {
+      type: Type.STRING,
+      description: "A brief (max 20 words) explanation for the valuation."
+    },
+  },
+  required: ["estimatedValue", "reasoning"],
+};
+
+export interface AIAnalysis {
+  estimatedValue: number;
+  reasoning: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Providers hand back whatever the model produced. An answer off the schema fails the request,
+// so it reaches the error path instead of the cache.
+const parseAnalysis = (value: unknown): AIAnalysis => {
+  if (!isObject(value) || typeof value.estimatedValue !== 'number' || !Number.isFinite(value.estimatedValue)
+    || typeof value.reasoning !== 'string') {
+    throw new Error('AI response does not match the item value schema');
+  }
+  return { estimatedValue: Math.round(value.estimatedValue), reasoning: value.reasoning };
+};
+
+const generatePrompt = (name: string, lore: string, rarity: Rarity, price: number): string => {
+  return `
+    You are a Hypixel Skyblock economy expert. Your task is to evaluate an item from the Auction House and determine if it's undervalued.
+
+    Item Details:
+    - Name: "${name}"
+    - Rarity: ${rarity}
+    - Current Lowest Price: ${price.toLocaleString()} coins
+    - Raw Lore & Stats: "${lore.replace(/§[a-f0-9klmnor]/g, '')}"
+
+    Your Task:
+    1.  Estimate the item's true "Fair Market Value" in coins. This is what a knowledgeable player would typically pay.
+        - To do this, analyze the item's enchantments, stats, and other modifiers from its lore.
+        - For craftable items, consider the cost of its base materials (e.g., enchanted diamond blocks for armor).
+        - Factor in the value of applied upgrades like Hot Potato Books, Recombobulator 3000 usage, gemstones, etc.
+        - Your final valuation should reflect the price of a similarly-upgraded item on the market.
+    2.  Provide a brief "Reasoning" (max 20 words) explaining your valuation. Example: "Undervalued due to desirable 'Ultimate Wise V' enchant." or "Priced well for a clean version."
+
+    Return your analysis ONLY in the provided JSON format. Do not include any other text or explanation.
+  `;
+};
+
+
+export interface AnalysisOptions {
+  refresh?: boolean; // Skip the cache and overwrite it with a fresh answer
+  signal?: AbortSignal; // Cancels the request; the returned promise then rejects with an AbortError
+}
+
+/**
+ * Estimates an item's fair value. Results are cached by item fingerprint, so the listing
+ * price in the prompt only matters on a cache miss. The model is not asked for profit;
+ * callers compute it with the fee model in feeService.
+ */
+export const analyzeItemValue = async (
+  item: { name: string, lore: string, rarity: Rarity, price: number },
+  options: AnalysisOptions = {}
+): Promise<CachedAnalysis<AIAnalysis>> => {
+  try {
+    return await withAICache('itemValue', item, async () => {
+      const prompt = generatePrompt(item.name, item.lore, item.rarity, item.price);
+
+      return parseAnalysis(await generateStructured({
+        task: 'itemValue',
+        subject: item.name,
+        prompt,
+        schema: analysisSchema,
+        temperature: 0.3,
+        signal: options.signal,
+      }));
+    }, options.refresh);
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error analyzing item with AI:", item.name, error);
+    // Return a default error object so the UI can handle it gracefully
+    return {
+      result: {
+        estimatedValue: 0,
+        reasoning: "AI analysis failed for this item."
+      },
+      cacheHit: false,
+      analyzedAt: Date.now(),
+    };
+  }
+};
+
+export interface RecipeIngredient {
+  ingredientId: string;
+  quantity: number;
+}
+
+const recipeSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      ingredientId: {
+        type: Type.STRING,
+        description: "The official Bazaar Product ID for the ingredient (e.g., 'ENCHANTED_DIAMOND_BLOCK')."
+      },
+      quantity: {
+        type: Type.NUMBER,
+        description: "The total quantity of this ingredient needed for one craft."
+      }
+    },
+    required: ["ingredientId", "quantity"]
+  }
+}
+
+const isRecipeIngredient = (value: unknown): value is RecipeIngredient =>
+  isObject(value) && typeof value.ingredientId === 'string' && value.ingredientId !== ''
+  && typeof value.quantity === 'number' && Number.isFinite(value.quantity) && value.quantity > 0;
+
+const parseRecipe = (value: unknown): RecipeIngredient[] => {
+  if (!Array.isArray(value) || !value.every(isRecipeIngredient)) {
+    throw new Error('AI response does not match the recipe schema');
+  }
+  return value.map(({ ingredientId, quantity }) => ({ ingredientId, quantity }));
+};
+
+/**
+ * Asks for the recipe of an item. Recipes are cached until invalidated; "not craftable" (an
+ * empty recipe) is not cached, so the item is asked about again next time.
+ */
+export const analyzeCraftingRecipe = async (
+  item: { name: string, rarity?: Rarity },
+  options: AnalysisOptions = {}
+): Promise<CachedAnalysis<RecipeIngredient[]>> => {
+  const itemName = item.name;
+  try {
+    return await withAICache('craftingRecipe', item, async () => {
+      const prompt = `
+        You are an expert on Hypixel Skyblock crafting recipes.
+        Item to analyze: "${itemName}"
+
+        Your task:
+        1. Identify the primary crafting recipe for this item. Focus on recipes using materials available on the Bazaar.
+        2. If the item is an upgraded version (e.g., a weapon with stars), determine the recipe for its base version.
+        3. If the item is not craftable from common materials or is primarily a drop (e.g., 'Summoning Eye'), return an empty array.
+        4. List the total quantity of each base ingredient. For example, for an 'Aspect of the End', list 'ENCHANTED_EYE_OF_ENDER' and 'ENCHANTED_DIAMOND' not the intermediate 'Ender Eye Blocks'.
+
+        Respond ONLY with a JSON array in the specified format. Do not add any explanation.
+      `;
+
+      return parseRecipe(await generateStructured({
+        task: 'craftingRecipe',
+        subject: itemName,
+        prompt,
+        schema: recipeSchema,
+        temperature: 0.1,
+        signal: options.signal,
+      }));
+    }, options.refresh, recipe => recipe.length > 0);
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error analyzing recipe for ${itemName}:`, error);
+    return { result: [], cacheHit: false, analyzedAt: Date.now() }; // Return empty on error
+  }
+};
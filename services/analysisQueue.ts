@@ -0,0 +1,113 @@
+import { RateLimitError } from './aiProvider';
+
+// --- ANALYSIS QUEUE ---
+// Every AI request goes through one shared queue so views cannot flood the provider. At most
+// `concurrency` tasks run at once. A 429 pauses the whole queue for a backoff and puts the
+// task back at the front; an aborted signal drops a waiting task or cancels a running one.
+
+type AnalysisTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueuedTask {
+  run: AnalysisTask<unknown>;
+  signal?: AbortSignal;
+  attempt: number;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onAbort: () => void;
+}
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+let concurrency = 3;
+let running = 0;
+let pausedUntil = 0;
+let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+const pending: QueuedTask[] = [];
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const backoffDelay = (attempt: number, error: RateLimitError): number =>
+  error.retryAfterMs ?? Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+
+const scheduleResume = () => {
+  if (resumeTimer) return;
+  resumeTimer = setTimeout(() => {
+    resumeTimer = null;
+    pump();
+  }, Math.max(0, pausedUntil - Date.now()));
+};
+
+const pump = () => {
+  if (Date.now() < pausedUntil) {
+    scheduleResume();
+    return;
+  }
+  while (running < concurrency && pending.length > 0) {
+    start(pending.shift()!);
+  }
+};
+
+const start = (task: QueuedTask) => {
+  running++;
+  task.run(task.signal ?? new AbortController().signal)
+    .then(
+      value => {
+        task.signal?.removeEventListener('abort', task.onAbort);
+        task.resolve(value);
+      },
+      error => {
+        if (error instanceof RateLimitError && task.attempt < MAX_RATE_LIMIT_RETRIES && !task.signal?.aborted) {
+          pausedUntil = Math.max(pausedUntil, Date.now() + backoffDelay(task.attempt, error));
+          task.attempt++;
+          pending.unshift(task);
+          return;
+        }
+        task.signal?.removeEventListener('abort', task.onAbort);
+        task.reject(task.signal?.aborted ? abortError() : error);
+      }
+    )
+    .finally(() => {
+      running--;
+      pump();
+    });
+};
+
+/**
+ * Queues an AI request. `task` receives the caller's signal so it can pass it to the provider.
+ * Rejects with an AbortError if the signal fires before the task finishes.
+ */
+export const enqueueAnalysis = <T>(task: AnalysisTask<T>, signal?: AbortSignal): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const queued: QueuedTask = {
+      run: task,
+      signal,
+      attempt: 0,
+      resolve: resolve as (value: unknown) => void,
+      reject,
+      onAbort: () => {
+        const index = pending.indexOf(queued);
+        if (index !== -1) {
+          pending.splice(index, 1);
+          reject(abortError());
+        }
+        // Running tasks see the abort through the signal they were given.
+      },
+    };
+    signal?.addEventListener('abort', queued.onAbort, { once: true });
+    pending.push(queued);
+    pump();
+  });
+
+export const setAnalysisConcurrency = (limit: number): void => {
+  concurrency = Math.max(1, Math.floor(limit));
+  pump();
+};
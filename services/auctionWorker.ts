@@ -0,0 +1,77 @@
+import { fetchAuctionFlips, fetchItemsForAnalysis, setHypixelClient, startSalesTracking } from './hypixelService';
+import { createHypixelClient, createReplayClient, HypixelClient } from './hypixelClient';
+import { AuctionWorkerRequest, AuctionWorkerResponse } from './auctionWorkerProtocol';
+
+// Runs the auction scan-and-compute pipeline off the main thread. The auction index
+// lives in this worker, so it survives between jobs just like it did on the main thread.
+
+const runningJobs = new Map<number, AbortController>();
+let salesTrackingStarted = false;
+
+const post = (message: AuctionWorkerResponse) => self.postMessage(message);
+
+// Sales are tracked for as long as the worker lives, once it knows its data source.
+const useClient = (client: HypixelClient, recordHistory: boolean) => {
+  setHypixelClient(client, { recordHistory });
+  if (!salesTrackingStarted) {
+    salesTrackingStarted = true;
+    startSalesTracking();
+  }
+};
+
+const runJob = async (jobId: number, job: (signal: AbortSignal) => Promise<AuctionWorkerResponse>) => {
+  const controller = new AbortController();
+  runningJobs.set(jobId, controller);
+  try {
+    post(await job(controller.signal));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled', jobId });
+    } else {
+      console.error('Auction worker job failed:', error);
+      post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    runningJobs.delete(jobId);
+  }
+};
+
+self.onmessage = (event: MessageEvent<AuctionWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'scanAuctionFlips':
+      runJob(request.jobId, async signal => ({
+        type: 'auctionFlips',
+        jobId: request.jobId,
+        flips: await fetchAuctionFlips(request.config, request.fees, {
+          signal,
+          priceStrategy: request.priceStrategy,
+          settings: request.settings,
+          itemLists: request.itemLists,
+          onProgress: progress => post({ type: 'progress', jobId: request.jobId, progress }),
+          onPartial: flips => post({ type: 'partial', jobId: request.jobId, flips }),
+        }),
+      }));
+      break;
+    case 'scanItemsForAnalysis':
+      runJob(request.jobId, async signal => ({
+        type: 'itemsForAnalysis',
+        jobId: request.jobId,
+        items: await fetchItemsForAnalysis(request.maxItems, {
+          signal,
+          itemLists: request.itemLists,
+          onProgress: progress => post({ type: 'progress', jobId: request.jobId, progress }),
+        }),
+      }));
+      break;
+    case 'cancel':
+      runningJobs.get(request.jobId)?.abort();
+      break;
+    case 'configureClient':
+      useClient(createHypixelClient(request.config), request.config.mode !== 'replay');
+      break;
+    case 'openSnapshot':
+      useClient(createReplayClient(request.snapshot), false);
+      break;
+  }
+};
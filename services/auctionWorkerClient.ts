@@ -0,0 +1,201 @@
+import { AuctionFlip, PriceStrategyId } from '../types';
+import { ComparableConfig, DEFAULT_COMPARABLE_CONFIG } from './comparablesService';
+import { DEFAULT_FEE_SETTINGS, FeeSettings } from './feeService';
+import { ItemForAnalysis, ScanProgress, setHypixelClient } from './hypixelService';
+import {
+  createHypixelClient, createReplayClient, HypixelClientConfig, HypixelSnapshot, loadHypixelClientConfig, saveHypixelClientConfig,
+} from './hypixelClient';
+import { AuctionWorkerRequest, AuctionWorkerResponse } from './auctionWorkerProtocol';
+import { DEFAULT_PRICE_STRATEGY } from './priceStrategyService';
+import { DEFAULT_SCANNER_SETTINGS, ScannerSettings } from './scannerSettingsService';
+import { EMPTY_ITEM_LISTS, ItemLists } from './itemListService';
+
+// Main-thread side of the auction worker. Views subscribe to a scan and receive progress,
+// partial results and the final result as they arrive; the returned handle cancels it.
+
+export interface ScanHandlers<T> {
+  onProgress?: (progress: ScanProgress) => void;
+  onPartial?: (flips: AuctionFlip[]) => void;
+  onResult: (result: T) => void;
+  onError?: (message: string) => void;
+  onCancelled?: () => void;
+}
+
+export interface ScanSubscription {
+  cancel: () => void;
+}
+
+type AnyHandlers = ScanHandlers<AuctionFlip[]> | ScanHandlers<ItemForAnalysis[]>;
+
+/**
+ * Where Hypixel data currently comes from: a configured client, or a snapshot file opened on top of it.
+ */
+export type DataSource =
+  | { kind: 'client'; config: HypixelClientConfig }
+  | { kind: 'snapshot'; recordedAt: number };
+
+let worker: Worker | null = null;
+let openedSnapshot: HypixelSnapshot | null = null;
+let dataSource: DataSource = { kind: 'client', config: loadHypixelClientConfig() };
+const dataSourceListeners = new Set<(source: DataSource) => void>();
+let nextJobId = 1;
+const jobs = new Map<number, AnyHandlers>();
+
+export const getDataSource = (): DataSource => dataSource;
+
+export const subscribeDataSource = (listener: (source: DataSource) => void): (() => void) => {
+  dataSourceListeners.add(listener);
+  return () => dataSourceListeners.delete(listener);
+};
+
+/**
+ * Snapshots and replayed recordings are old market data: they are kept out of the price
+ * history and must not fire watchlist alerts.
+ */
+export const isReplayedData = (source: DataSource = dataSource): boolean =>
+  source.kind === 'snapshot' || source.config.mode === 'replay';
+
+const setDataSource = (next: DataSource) => {
+  dataSource = next;
+  dataSourceListeners.forEach(listener => listener(next));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./auctionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AuctionWorkerResponse>) => handleResponse(event.data);
+    worker.postMessage((openedSnapshot
+      ? { type: 'openSnapshot', snapshot: openedSnapshot }
+      : { type: 'configureClient', config: loadHypixelClientConfig() }) satisfies AuctionWorkerRequest);
+  }
+  return worker;
+};
+
+/**
+ * Points both the main thread and the auction worker at the configured Hypixel data source.
+ * Passing a config also saves it; without one the saved config is applied.
+ */
+export const configureHypixelClient = (config?: HypixelClientConfig): void => {
+  if (config) saveHypixelClientConfig(config);
+  openedSnapshot = null;
+  const applied = config ?? loadHypixelClientConfig();
+  setHypixelClient(createHypixelClient(applied), { recordHistory: applied.mode !== 'replay' });
+  worker?.postMessage({ type: 'configureClient', config: applied } satisfies AuctionWorkerRequest);
+  setDataSource({ kind: 'client', config: applied });
+};
+
+/**
+ * Serves all data from a loaded snapshot until `configureHypixelClient` is called again.
+ */
+export const openSnapshot = (snapshot: HypixelSnapshot): void => {
+  openedSnapshot = snapshot;
+  setHypixelClient(createReplayClient(snapshot), { recordHistory: false });
+  worker?.postMessage({ type: 'openSnapshot', snapshot } satisfies AuctionWorkerRequest);
+  setDataSource({ kind: 'snapshot', recordedAt: snapshot.recordedAt });
+};
+
+const handleResponse = (response: AuctionWorkerResponse) => {
+  const handlers = jobs.get(response.jobId);
+  if (!handlers) return; // Job was cancelled on this side already
+
+  switch (response.type) {
+    case 'progress':
+      handlers.onProgress?.(response.progress);
+      break;
+    case 'partial':
+      handlers.onPartial?.(response.flips);
+      break;
+    case 'auctionFlips':
+      jobs.delete(response.jobId);
+      (handlers as ScanHandlers<AuctionFlip[]>).onResult(response.flips);
+      break;
+    case 'itemsForAnalysis':
+      jobs.delete(response.jobId);
+      (handlers as ScanHandlers<ItemForAnalysis[]>).onResult(response.items);
+      break;
+    case 'cancelled':
+      jobs.delete(response.jobId);
+      handlers.onCancelled?.();
+      break;
+    case 'error':
+      jobs.delete(response.jobId);
+      handlers.onError?.(response.message);
+      break;
+  }
+};
+
+const startJob = (buildRequest: (jobId: number) => AuctionWorkerRequest, handlers: AnyHandlers): ScanSubscription => {
+  const jobId = nextJobId++;
+  jobs.set(jobId, handlers);
+  getWorker().postMessage(buildRequest(jobId));
+  return {
+    cancel: () => {
+      if (!jobs.delete(jobId)) return;
+      getWorker().postMessage({ type: 'cancel', jobId } satisfies AuctionWorkerRequest);
+    },
+  };
+};
+
+export const scanAuctionFlips = (
+  handlers: ScanHandlers<AuctionFlip[]>,
+  config: ComparableConfig = DEFAULT_COMPARABLE_CONFIG,
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  priceStrategy: PriceStrategyId = DEFAULT_PRICE_STRATEGY,
+  settings: ScannerSettings = DEFAULT_SCANNER_SETTINGS,
+  itemLists: ItemLists = EMPTY_ITEM_LISTS
+): ScanSubscription => startJob(jobId => ({ type: 'scanAuctionFlips', jobId, config, fees, priceStrategy, settings, itemLists }), handlers);
+
+/**
+ * Promise wrapper around `scanAuctionFlips`, for callers that only need the finished result.
+ * Aborting the signal cancels the worker job.
+ */
+export const requestAuctionFlips = (
+  config: ComparableConfig,
+  fees: FeeSettings,
+  priceStrategy: PriceStrategyId,
+  settings: ScannerSettings,
+  itemLists: ItemLists,
+  signal?: AbortSignal
+): Promise<AuctionFlip[]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Scan cancelled', 'AbortError'));
+      return;
+    }
+    const subscription = scanAuctionFlips({
+      onResult: resolve,
+      onError: message => reject(new Error(message)),
+      onCancelled: () => reject(new DOMException('Scan cancelled', 'AbortError')),
+    }, config, fees, priceStrategy, settings, itemLists);
+    signal?.addEventListener('abort', () => {
+      subscription.cancel();
+      reject(new DOMException('Scan cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+export const scanItemsForAnalysis = (
+  maxItems: number,
+  handlers: ScanHandlers<ItemForAnalysis[]>,
+  itemLists: ItemLists = EMPTY_ITEM_LISTS
+): ScanSubscription => startJob(jobId => ({ type: 'scanItemsForAnalysis', jobId, maxItems, itemLists }), handlers);
+
+/**
+ * Promise wrapper around `scanItemsForAnalysis` for callers that need the items before
+ * they can continue. Aborting the signal cancels the worker job.
+ */
+export const requestItemsForAnalysis = (maxItems: number, signal?: AbortSignal, itemLists?: ItemLists): Promise<ItemForAnalysis[]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Scan cancelled', 'AbortError'));
+      return;
+    }
+    const subscription = scanItemsForAnalysis(maxItems, {
+      onResult: resolve,
+      onError: message => reject(new Error(message)),
+      onCancelled: () => reject(new DOMException('Scan cancelled', 'AbortError')),
+    }, itemLists);
+    signal?.addEventListener('abort', () => {
+      subscription.cancel();
+      reject(new DOMException('Scan cancelled', 'AbortError'));
+    }, { once: true });
+  });
@@ -0,0 +1,25 @@
+import { AuctionFlip, PriceStrategyId } from '../types';
+import { ComparableConfig } from './comparablesService';
+import { FeeSettings } from './feeService';
+import { ScannerSettings } from './scannerSettingsService';
+import { ItemLists } from './itemListService';
+import type { ItemForAnalysis, ScanProgress } from './hypixelService';
+import { HypixelClientConfig, HypixelSnapshot } from './hypixelClient';
+
+// Messages exchanged between the main thread and the auction scan worker.
+// Every job carries a `jobId` so that replies and cancellations can be matched to it.
+
+export type AuctionWorkerRequest =
+  | { type: 'scanAuctionFlips'; jobId: number; config: ComparableConfig; fees: FeeSettings; priceStrategy: PriceStrategyId; settings: ScannerSettings; itemLists: ItemLists }
+  | { type: 'scanItemsForAnalysis'; jobId: number; maxItems: number; itemLists: ItemLists }
+  | { type: 'cancel'; jobId: number }
+  | { type: 'configureClient'; config: HypixelClientConfig } // Not a job: switches the worker's data source
+  | { type: 'openSnapshot'; snapshot: HypixelSnapshot }; // Not a job: serves data from a loaded snapshot file
+
+export type AuctionWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: ScanProgress }
+  | { type: 'partial'; jobId: number; flips: AuctionFlip[] }
+  | { type: 'auctionFlips'; jobId: number; flips: AuctionFlip[] }
+  | { type: 'itemsForAnalysis'; jobId: number; items: ItemForAnalysis[] }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,356 @@
+import { PriceStrategyId, RawBazaarProduct, RawBazaarResponse, RawEndedAuction, RawEndedAuctionsResponse } from '../types';
+import { buildComparableKeys, ComparableConfig, DEFAULT_COMPARABLE_CONFIG } from './comparablesService';
+import { calculateAuctionFees, calculateBazaarFees, DEFAULT_FEE_SETTINGS, FeeSettings } from './feeService';
+import { computeBazaarFlips, computeBazaarOrderFlips, fetchAuctionFlips, setHypixelClient } from './hypixelService';
+import { createReplayClient, HypixelSnapshot } from './hypixelClient';
+import { decodeItem, resolveItemId } from './nbtService';
+import { PRICE_STRATEGIES } from './priceStrategyService';
+import { DEFAULT_SCANNER_SETTINGS, ScannerSettings } from './scannerSettingsService';
+
+// --- BACKTESTING ---
+// Replays the flip finders over a series of recorded snapshots and checks each recommendation
+// against what happened afterwards: auction flips against the sales in `auctions_ended`, bazaar
+// flips against the order book of later snapshots.
+
+export interface Recommendation {
+  id: string; // Auction uuid or bazaar product id
+  matchKey: string; // Comparable key for auctions, product id for bazaar flips
+  itemName: string;
+  recommendedAt: number;
+  buyPrice: number;
+  predictedSalePrice: number;
+  predictedProfit: number; // Net of fees
+}
+
+export interface BacktestStep {
+  snapshot: HypixelSnapshot;
+  timestamp: number;
+  bazaar: Record<string, RawBazaarProduct> | null;
+}
+
+export interface BacktestContext {
+  comparableConfig: ComparableConfig;
+  fees: FeeSettings;
+  settings: ScannerSettings;
+}
+
+export interface BacktestStrategy {
+  id: string;
+  label: string;
+  market: 'auction' | 'bazaar';
+  recommend: (step: BacktestStep, context: BacktestContext) => Promise<Recommendation[]>;
+}
+
+export type OutcomeStatus = 'hit' | 'miss' | 'pending'; // Pending: the horizon runs past the last snapshot
+
+export interface RecommendationOutcome {
+  strategyId: string;
+  recommendation: Recommendation;
+  status: OutcomeStatus;
+  realizedSalePrice?: number; // What we would have sold for
+  observedSalePrice?: number; // The comparable sale (or later book price) that decided the outcome
+  timeToSell?: number; // ms from the recommendation to the sale
+  realizedProfit: number; // Net of fees, 0 unless hit
+}
+
+export interface ProfitBandReport {
+  minMargin: number; // Predicted profit / buy price, inclusive
+  evaluated: number;
+  hits: number;
+  precision: number;
+}
+
+export interface StrategyReport {
+  strategyId: string;
+  label: string;
+  recommendations: number;
+  evaluated: number; // Hits plus misses
+  hits: number;
+  precision: number; // Hits / evaluated
+  medianTimeToSell: number | null;
+  predictedProfit: number; // Sum over evaluated recommendations
+  realizedProfit: number; // Sum over evaluated recommendations
+  expectedProfit: number; // Realized profit per evaluated recommendation
+  profitBands: ProfitBandReport[];
+}
+
+export interface BacktestReport {
+  from: number;
+  to: number;
+  steps: number;
+  strategies: StrategyReport[];
+  outcomes: RecommendationOutcome[];
+}
+
+export interface BacktestOptions {
+  strategies?: BacktestStrategy[];
+  comparableConfig?: ComparableConfig;
+  fees?: FeeSettings;
+  settings?: ScannerSettings; // Flip thresholds to test
+  horizon?: number; // How long a recommendation has to work out, in ms
+  extraEndedAuctions?: RawEndedAuction[]; // Sales from outside the snapshots, e.g. a separate log
+  onProgress?: (done: number, total: number) => void;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_HORIZON = 6 * HOUR;
+const MARGIN_BANDS = [0, 0.05, 0.1, 0.25, 0.5];
+
+// --- STRATEGIES ---
+
+// One auction strategy per market price strategy, so their precision can be compared.
+export const createAuctionFlipStrategy = (priceStrategy: PriceStrategyId): BacktestStrategy => ({
+  id: `auction-flips:${priceStrategy}`,
+  label: `Auction flips (${PRICE_STRATEGIES[priceStrategy].label})`,
+  market: 'auction',
+  recommend: async (step, context) => {
+    const flips = await fetchAuctionFlips(context.comparableConfig, context.fees, { recordHistory: false, priceStrategy, settings: context.settings });
+    return flips.map(flip => ({
+      id: flip.id,
+      matchKey: flip.comparableKey,
+      itemName: flip.itemName,
+      recommendedAt: step.timestamp,
+      buyPrice: flip.lowestBin,
+      predictedSalePrice: flip.marketPrice,
+      predictedProfit: flip.profit,
+    }));
+  },
+});
+
+export const bazaarInstantStrategy: BacktestStrategy = {
+  id: 'bazaar-instant',
+  label: 'Bazaar instant flips',
+  market: 'bazaar',
+  recommend: async (step, context) =>
+    step.bazaar
+      ? computeBazaarFlips(step.bazaar, context.fees, context.settings).map(flip => ({
+        id: flip.id,
+        matchKey: flip.id,
+        itemName: flip.itemName,
+        recommendedAt: step.timestamp,
+        buyPrice: flip.buyPrice,
+        predictedSalePrice: flip.sellPrice,
+        predictedProfit: flip.profit,
+      }))
+      : [],
+};
+
+export const bazaarOrderStrategy: BacktestStrategy = {
+  id: 'bazaar-orders',
+  label: 'Bazaar order flips',
+  market: 'bazaar',
+  recommend: async (step, context) =>
+    step.bazaar
+      ? computeBazaarOrderFlips(step.bazaar, context.fees, context.settings).map(flip => ({
+        id: flip.id,
+        matchKey: flip.id,
+        itemName: flip.itemName,
+        recommendedAt: step.timestamp,
+        buyPrice: flip.buyOrderPrice,
+        predictedSalePrice: flip.sellOfferPrice,
+        predictedProfit: flip.profit,
+      }))
+      : [],
+};
+
+// Strategies that read the price history are left out: a backtest replays snapshots and has no history of its own.
+export const DEFAULT_BACKTEST_STRATEGIES: BacktestStrategy[] = [
+  ...(Object.keys(PRICE_STRATEGIES) as PriceStrategyId[])
+    .filter(id => !PRICE_STRATEGIES[id].historyWindow)
+    .map(createAuctionFlipStrategy),
+  bazaarInstantStrategy,
+  bazaarOrderStrategy,
+];
+
+// --- OUTCOMES ---
+
+interface ObservedSale {
+  timestamp: number;
+  price: number;
+  keys: Set<string>;
+}
+
+// Decodes every distinct sale and keys it like a listing, so it can be matched to flips.
+const collectSales = async (endedAuctions: RawEndedAuction[], config: ComparableConfig): Promise<ObservedSale[]> => {
+  const unique = new Map(endedAuctions.filter(sale => sale.bin).map(sale => [sale.auction_id, sale]));
+  const sales: ObservedSale[] = [];
+  for (const sale of unique.values()) {
+    try {
+      const item = await decodeItem(sale.item_bytes);
+      if (!item) continue;
+      const keys = buildComparableKeys({ itemId: resolveItemId(item.attributes), item_name: item.displayName, attributes: item.attributes }, config);
+      sales.push({ timestamp: sale.timestamp, price: sale.price, keys: new Set(keys) });
+    } catch (e) {
+      console.warn(`Failed to decode ended auction ${sale.auction_id}:`, e);
+    }
+  }
+  return sales.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * A listing at the predicted price would have sold if a comparable sold at that price or more
+ * within the horizon: that buyer would have taken ours first. The highest comparable sale is
+ * reported for misses.
+ */
+const evaluateAuction = (
+  recommendation: Recommendation,
+  sales: ObservedSale[],
+  lastTimestamp: number,
+  horizon: number,
+  fees: FeeSettings
+): Omit<RecommendationOutcome, 'strategyId' | 'recommendation'> => {
+  const deadline = recommendation.recommendedAt + horizon;
+  const comparable = sales.filter(sale =>
+    sale.timestamp > recommendation.recommendedAt && sale.timestamp <= deadline && sale.keys.has(recommendation.matchKey)
+  );
+  const sold = comparable.find(sale => sale.price >= recommendation.predictedSalePrice);
+  if (sold) {
+    const salePrice = recommendation.predictedSalePrice;
+    return {
+      status: 'hit',
+      realizedSalePrice: salePrice,
+      observedSalePrice: sold.price,
+      timeToSell: sold.timestamp - recommendation.recommendedAt,
+      realizedProfit: Math.round(salePrice - recommendation.buyPrice - calculateAuctionFees(salePrice, fees).total),
+    };
+  }
+  const best = comparable.reduce<number | undefined>((max, sale) => Math.max(max ?? 0, sale.price), undefined);
+  return { status: deadline > lastTimestamp ? 'pending' : 'miss', observedSalePrice: best, realizedProfit: 0 };
+};
+
+/**
+ * A bazaar flip works out if, at some later snapshot within the horizon, the side we sell to
+ * still pays at least the predicted price. For instant flips that is the insta-sell price; for
+ * order flips our sell offer must not have been undercut.
+ */
+const evaluateBazaar = (
+  strategyId: string,
+  recommendation: Recommendation,
+  steps: BacktestStep[],
+  lastTimestamp: number,
+  horizon: number,
+  fees: FeeSettings
+): Omit<RecommendationOutcome, 'strategyId' | 'recommendation'> => {
+  const deadline = recommendation.recommendedAt + horizon;
+  let observed: number | undefined;
+  for (const step of steps) {
+    if (step.timestamp <= recommendation.recommendedAt || step.timestamp > deadline) continue;
+    const product = step.bazaar?.[recommendation.matchKey];
+    if (!product) continue;
+    const salePrice = strategyId === bazaarOrderStrategy.id
+      ? product.buy_summary[0]?.pricePerUnit
+      : product.quick_status.buyPrice;
+    if (salePrice === undefined) continue;
+    observed = salePrice;
+    if (salePrice >= recommendation.predictedSalePrice) {
+      const realized = recommendation.predictedSalePrice;
+      return {
+        status: 'hit',
+        realizedSalePrice: realized,
+        observedSalePrice: salePrice,
+        timeToSell: step.timestamp - recommendation.recommendedAt,
+        realizedProfit: realized - recommendation.buyPrice - calculateBazaarFees(realized, fees).total,
+      };
+    }
+  }
+  return { status: deadline > lastTimestamp ? 'pending' : 'miss', observedSalePrice: observed, realizedProfit: 0 };
+};
+
+// --- REPORTING ---
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const summarize = (strategy: BacktestStrategy, outcomes: RecommendationOutcome[]): StrategyReport => {
+  const evaluated = outcomes.filter(o => o.status !== 'pending');
+  const hits = evaluated.filter(o => o.status === 'hit');
+  const realizedProfit = evaluated.reduce((sum, o) => sum + o.realizedProfit, 0);
+  const margin = (o: RecommendationOutcome) => o.recommendation.predictedProfit / Math.max(o.recommendation.buyPrice, 1);
+
+  return {
+    strategyId: strategy.id,
+    label: strategy.label,
+    recommendations: outcomes.length,
+    evaluated: evaluated.length,
+    hits: hits.length,
+    precision: evaluated.length > 0 ? hits.length / evaluated.length : 0,
+    medianTimeToSell: median(hits.map(o => o.timeToSell!)),
+    predictedProfit: evaluated.reduce((sum, o) => sum + o.recommendation.predictedProfit, 0),
+    realizedProfit,
+    expectedProfit: evaluated.length > 0 ? realizedProfit / evaluated.length : 0,
+    profitBands: MARGIN_BANDS.map((minMargin, i) => {
+      const maxMargin = MARGIN_BANDS[i + 1] ?? Infinity;
+      const inBand = evaluated.filter(o => margin(o) >= minMargin && margin(o) < maxMargin);
+      const bandHits = inBand.filter(o => o.status === 'hit').length;
+      return { minMargin, evaluated: inBand.length, hits: bandHits, precision: inBand.length > 0 ? bandHits / inBand.length : 0 };
+    }),
+  };
+};
+
+/**
+ * Runs every strategy at each snapshot and scores the recommendations against the later
+ * snapshots. A recommendation repeated at several steps is only scored the first time.
+ * Replaces the Hypixel client, so run it where nothing else uses the auction index.
+ */
+export const runBacktest = async (snapshots: HypixelSnapshot[], options: BacktestOptions = {}): Promise<BacktestReport> => {
+  const {
+    strategies = DEFAULT_BACKTEST_STRATEGIES,
+    comparableConfig = DEFAULT_COMPARABLE_CONFIG,
+    fees = DEFAULT_FEE_SETTINGS,
+    settings = DEFAULT_SCANNER_SETTINGS,
+    horizon = DEFAULT_HORIZON,
+    extraEndedAuctions = [],
+    onProgress,
+  } = options;
+  const context: BacktestContext = { comparableConfig, fees, settings };
+
+  const steps: BacktestStep[] = [...snapshots]
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .map(snapshot => ({
+      snapshot,
+      timestamp: snapshot.recordedAt,
+      bazaar: (snapshot.responses['bazaar'] as RawBazaarResponse | undefined)?.products ?? null,
+    }));
+  if (steps.length === 0) throw new Error('A backtest needs at least one snapshot');
+
+  const endedAuctions = [
+    ...steps.flatMap(step => (step.snapshot.responses['auctions_ended'] as RawEndedAuctionsResponse | undefined)?.auctions ?? []),
+    ...extraEndedAuctions,
+  ];
+  const sales = await collectSales(endedAuctions, comparableConfig);
+  const lastTimestamp = steps[steps.length - 1].timestamp;
+
+  const outcomes: RecommendationOutcome[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < steps.length; i++) {
+    onProgress?.(i, steps.length);
+    const step = steps[i];
+    setHypixelClient(createReplayClient(step.snapshot), { recordHistory: false });
+
+    for (const strategy of strategies) {
+      const recommendations = await strategy.recommend(step, context);
+      for (const recommendation of recommendations) {
+        const seenKey = `${strategy.id}|${recommendation.id}`;
+        if (seen.has(seenKey)) continue;
+        seen.add(seenKey);
+        const outcome = strategy.market === 'auction'
+          ? evaluateAuction(recommendation, sales, lastTimestamp, horizon, fees)
+          : evaluateBazaar(strategy.id, recommendation, steps, lastTimestamp, horizon, fees);
+        outcomes.push({ strategyId: strategy.id, recommendation, ...outcome });
+      }
+    }
+  }
+  onProgress?.(steps.length, steps.length);
+
+  return {
+    from: steps[0].timestamp,
+    to: lastTimestamp,
+    steps: steps.length,
+    strategies: strategies.map(strategy => summarize(strategy, outcomes.filter(o => o.strategyId === strategy.id))),
+    outcomes,
+  };
+};
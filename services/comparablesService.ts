@@ -0,0 +1,189 @@
+import { DecodedAuction } from '../types';
+
+// --- COMPARABLE BUCKETING ---
+
+// What bucketing reads from an auction. Ended auctions only provide this much after decoding.
+export type ComparableItem = Pick<DecodedAuction, 'itemId' | 'item_name' | 'attributes'>;
+
+export type ComparableDimension = 'petLevel' | 'stars' | 'recombobulated' | 'skin' | 'hotPotato' | 'enchantments';
+
+export interface ComparableConfig {
+  stars: boolean;
+  recombobulated: boolean;
+  hotPotato: boolean;
+  skin: boolean;
+  // Enchantments that split buckets, mapped to the lowest tier that matters (e.g. sharpness: 6).
+  keyEnchantments: Record<string, number>;
+  petLevelBandSize: number; // Width of a pet level band, 0 disables level bucketing
+  minBucketSize: number; // Buckets thinner than this fall back to a coarser key
+}
+
+export const DEFAULT_COMPARABLE_CONFIG: ComparableConfig = {
+  stars: true,
+  recombobulated: true,
+  hotPotato: true,
+  skin: true,
+  keyEnchantments: {
+    ultimate_wise: 1,
+    ultimate_soul_eater: 1,
+    ultimate_chimera: 1,
+    ultimate_legion: 1,
+    ultimate_last_stand: 1,
+    ultimate_one_for_all: 1,
+    ultimate_wisdom: 1,
+    ultimate_fatal_tempo: 1,
+    sharpness: 6,
+    growth: 6,
+    protection: 6,
+    power: 6,
+    overload: 1,
+  },
+  petLevelBandSize: 10,
+  minBucketSize: 4,
+};
+
+// Dimensions are dropped in this order when a bucket is too thin, least price-relevant first.
+const COARSENING_ORDER: ComparableDimension[] = ['enchantments', 'hotPotato', 'skin', 'recombobulated', 'stars', 'petLevel'];
+
+const PET_LEVEL_PATTERN = /\[Lvl (\d+)\]/;
+
+const readDimension = (auction: ComparableItem, dimension: ComparableDimension, config: ComparableConfig): string | null => {
+  const { attributes } = auction;
+  switch (dimension) {
+    case 'petLevel': {
+      if (!attributes.petInfo || config.petLevelBandSize <= 0) return null;
+      const match = auction.item_name.match(PET_LEVEL_PATTERN);
+      if (!match) return null;
+      const band = Math.floor(parseInt(match[1], 10) / config.petLevelBandSize) * config.petLevelBandSize;
+      return `lvl=${band}`;
+    }
+    case 'stars':
+      return config.stars ? `stars=${attributes.upgrade_level}` : null;
+    case 'recombobulated':
+      return config.recombobulated ? `recomb=${attributes.rarity_upgrades > 0 ? 1 : 0}` : null;
+    case 'skin': {
+      if (!config.skin) return null;
+      const skin = attributes.skin ?? attributes.petInfo?.skin;
+      return `skin=${skin ?? 'none'}`;
+    }
+    case 'hotPotato':
+      return config.hotPotato ? `hpb=${attributes.hot_potato_count}` : null;
+    case 'enchantments': {
+      const keyEnchants = Object.entries(attributes.enchantments)
+        .filter(([name, level]) => config.keyEnchantments[name] !== undefined && level >= config.keyEnchantments[name])
+        .map(([name, level]) => `${name}:${level}`)
+        .sort();
+      return `ench=${keyEnchants.join(',') || 'none'}`;
+    }
+  }
+};
+
+/**
+ * Builds the chain of comparable keys for an auction, from the finest bucket to the coarsest.
+ * The last key is always the bare item id.
+ */
+export const buildComparableKeys = (auction: ComparableItem, config: ComparableConfig = DEFAULT_COMPARABLE_CONFIG): string[] => {
+  const parts = new Map<ComparableDimension, string>();
+  for (const dimension of COARSENING_ORDER) {
+    const value = readDimension(auction, dimension, config);
+    if (value !== null) parts.set(dimension, value);
+  }
+
+  const keys: string[] = [];
+  const remaining = [...COARSENING_ORDER];
+  for (;;) {
+    const segments = remaining.filter(d => parts.has(d)).reverse().map(d => parts.get(d)!);
+    const key = [auction.itemId, ...segments].join('|');
+    if (keys[keys.length - 1] !== key) keys.push(key);
+    if (remaining.length === 0) break;
+    remaining.shift();
+  }
+  return keys;
+};
+
+export interface ComparableIndex {
+  keysByAuction: Map<string, string[]>; // auction uuid -> key chain, finest first
+  buckets: Map<string, DecodedAuction[]>; // key -> auctions, sorted by price ascending
+}
+
+/**
+ * Places every auction into each bucket of its key chain, so coarser buckets contain all finer ones.
+ */
+export const buildComparableIndex = (auctions: DecodedAuction[], config: ComparableConfig = DEFAULT_COMPARABLE_CONFIG): ComparableIndex => {
+  const keysByAuction = new Map<string, string[]>();
+  const buckets = new Map<string, DecodedAuction[]>();
+
+  for (const auction of auctions) {
+    const keys = buildComparableKeys(auction, config);
+    keysByAuction.set(auction.uuid, keys);
+    for (const key of keys) {
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(auction);
+    }
+  }
+
+  for (const bucket of buckets.values()) {
+    bucket.sort((a, b) => a.starting_bid - b.starting_bid);
+  }
+
+  return { keysByAuction, buckets };
+};
+
+/**
+ * Picks the finest key in a chain whose bucket holds at least `minBucketSize` comparables,
+ * falling back to the coarsest key when none does. The auction being priced sits in every
+ * bucket of its own chain, so `excludeUuid` keeps it from counting as its own comparable.
+ */
+export const selectPricingKey = (keys: string[], index: ComparableIndex, minBucketSize: number, excludeUuid?: string): string => {
+  for (const key of keys) {
+    const bucket = index.buckets.get(key) ?? [];
+    const comparables = bucket.length - (excludeUuid !== undefined && bucket.some(a => a.uuid === excludeUuid) ? 1 : 0);
+    if (comparables >= minBucketSize) return key;
+  }
+  return keys[keys.length - 1];
+};
+
+// --- PERSISTENCE ---
+
+const COMPARABLE_CONFIG_KEY = 'comparableConfig';
+
+const listeners = new Set<(config: ComparableConfig) => void>();
+
+// Key enchantments are not editable in Settings, so they always come from the defaults.
+export const loadComparableConfig = (): ComparableConfig => {
+  try {
+    const stored = localStorage.getItem(COMPARABLE_CONFIG_KEY);
+    if (!stored) return DEFAULT_COMPARABLE_CONFIG;
+    const parsed: unknown = JSON.parse(stored);
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_COMPARABLE_CONFIG;
+    const raw = parsed as Record<string, unknown>;
+    const flag = (key: 'stars' | 'recombobulated' | 'hotPotato' | 'skin') =>
+      typeof raw[key] === 'boolean' ? raw[key] : DEFAULT_COMPARABLE_CONFIG[key];
+    const count = (key: 'petLevelBandSize' | 'minBucketSize') =>
+      typeof raw[key] === 'number' && Number.isInteger(raw[key]) && raw[key] >= 0 ? raw[key] : DEFAULT_COMPARABLE_CONFIG[key];
+    return {
+      ...DEFAULT_COMPARABLE_CONFIG,
+      stars: flag('stars'),
+      recombobulated: flag('recombobulated'),
+      hotPotato: flag('hotPotato'),
+      skin: flag('skin'),
+      petLevelBandSize: count('petLevelBandSize'),
+      minBucketSize: count('minBucketSize'),
+    };
+  } catch {
+    return DEFAULT_COMPARABLE_CONFIG;
+  }
+};
+
+/**
+ * Saves the config and passes it to every subscribed view.
+ */
+export const saveComparableConfig = (config: ComparableConfig): void => {
+  localStorage.setItem(COMPARABLE_CONFIG_KEY, JSON.stringify(config));
+  listeners.forEach(listener => listener(config));
+};
+
+export const subscribeComparableConfig = (listener: (config: ComparableConfig) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
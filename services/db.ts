@@ -0,0 +1,57 @@
+// Shared IndexedDB access. All persistent stores live in one database; each schema
+// change bumps DB_VERSION and adds a step to `upgradeDatabase`.
+
+const DB_NAME = 'hypixel-flip-finder';
+const DB_VERSION = 4;
+
+export const PRICE_HISTORY_STORE = 'priceHistory';
+export const AI_CACHE_STORE = 'aiCache';
+export const JOURNAL_STORE = 'journal';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgradeDatabase = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(PRICE_HISTORY_STORE, { keyPath: ['itemId', 'source', 'timestamp'] });
+    history.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 2) {
+    const aiCache = db.createObjectStore(AI_CACHE_STORE, { keyPath: 'key' });
+    aiCache.createIndex('kind', 'kind');
+  }
+  if (oldVersion < 3) {
+    const journal = db.createObjectStore(JOURNAL_STORE, { keyPath: 'id' });
+    journal.createIndex('boughtAt', 'boughtAt');
+  }
+  if (oldVersion < 4) {
+    transaction.objectStore(PRICE_HISTORY_STORE).createIndex('sourceTimestamp', ['source', 'timestamp']);
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgradeDatabase(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,127 @@
+// --- FEE MODEL ---
+// Central place for every coin sink between a buy and a sale: auction house listing and
+// duration fees, the claim tax on sold auctions, and the bazaar sales tax.
+
+export type AuctionDuration = 1 | 6 | 12 | 24 | 48; // Hours
+export type BazaarFlipperLevel = 0 | 1 | 2; // Bazaar Flipper account upgrade
+
+export const AUCTION_DURATIONS: AuctionDuration[] = [1, 6, 12, 24, 48];
+export const BAZAAR_FLIPPER_LEVELS: BazaarFlipperLevel[] = [0, 1, 2];
+
+export const isAuctionDuration = (value: unknown): value is AuctionDuration =>
+  AUCTION_DURATIONS.includes(value as AuctionDuration);
+
+export const isBazaarFlipperLevel = (value: unknown): value is BazaarFlipperLevel =>
+  BAZAAR_FLIPPER_LEVELS.includes(value as BazaarFlipperLevel);
+
+export interface MayorPerks {
+  quadTaxing: boolean; // Derpy: auction house taxes are quadrupled
+}
+
+export interface FeeSettings {
+  auctionDuration: AuctionDuration;
+  bazaarFlipperLevel: BazaarFlipperLevel;
+  mayorPerks: MayorPerks;
+}
+
+export interface FeeBreakdown {
+  listingFee: number;
+  durationFee: number;
+  claimTax: number;
+  bazaarTax: number;
+  total: number;
+}
+
+export const DEFAULT_FEE_SETTINGS: FeeSettings = {
+  auctionDuration: 48,
+  bazaarFlipperLevel: 0,
+  mayorPerks: { quadTaxing: false },
+};
+
+// Listing fee brackets for BIN auctions, by starting price. The last bracket applies above all others.
+const LISTING_FEE_BRACKETS: { below: number; rate: number }[] = [
+  { below: 10_000_000, rate: 0.01 },
+  { below: 100_000_000, rate: 0.02 },
+  { below: Infinity, rate: 0.025 },
+];
+
+const DURATION_FEES: Record<AuctionDuration, number> = {
+  1: 20,
+  6: 45,
+  12: 100,
+  24: 350,
+  48: 1200,
+};
+
+// Claim tax on the coins collected from a sold auction.
+const CLAIM_TAX_BRACKETS: { below: number; rate: number }[] = [
+  { below: 1_000_000, rate: 0 },
+  { below: Infinity, rate: 0.01 },
+];
+
+const BAZAAR_TAX_RATES: Record<BazaarFlipperLevel, number> = {
+  0: 0.0125,
+  1: 0.01125,
+  2: 0.01,
+};
+
+const QUAD_TAX_MULTIPLIER = 4;
+
+const bracketRate = (brackets: { below: number; rate: number }[], price: number): number =>
+  brackets.find(bracket => price < bracket.below)!.rate;
+
+const emptyBreakdown = (): FeeBreakdown => ({ listingFee: 0, durationFee: 0, claimTax: 0, bazaarTax: 0, total: 0 });
+
+/**
+ * Fees paid to list an item as a BIN at `salePrice` and claim the coins once it sells.
+ */
+export const calculateAuctionFees = (salePrice: number, settings: FeeSettings = DEFAULT_FEE_SETTINGS): FeeBreakdown => {
+  const multiplier = settings.mayorPerks.quadTaxing ? QUAD_TAX_MULTIPLIER : 1;
+  const breakdown = emptyBreakdown();
+  breakdown.listingFee = salePrice * bracketRate(LISTING_FEE_BRACKETS, salePrice) * multiplier;
+  breakdown.durationFee = DURATION_FEES[settings.auctionDuration];
+  breakdown.claimTax = salePrice * bracketRate(CLAIM_TAX_BRACKETS, salePrice) * multiplier;
+  breakdown.total = breakdown.listingFee + breakdown.durationFee + breakdown.claimTax;
+  return breakdown;
+};
+
+/**
+ * Sales tax taken when selling `salePrice` worth of items on the bazaar.
+ */
+export const calculateBazaarFees = (salePrice: number, settings: FeeSettings = DEFAULT_FEE_SETTINGS): FeeBreakdown => {
+  const breakdown = emptyBreakdown();
+  breakdown.bazaarTax = salePrice * BAZAAR_TAX_RATES[settings.bazaarFlipperLevel];
+  breakdown.total = breakdown.bazaarTax;
+  return breakdown;
+};
+
+// --- PERSISTENCE ---
+
+const FEE_SETTINGS_KEY = 'feeSettings';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Reads the saved fee settings. Each field that is missing or invalid falls back to its default.
+ */
+export const loadFeeSettings = (): FeeSettings => {
+  try {
+    const stored = localStorage.getItem(FEE_SETTINGS_KEY);
+    if (!stored) return DEFAULT_FEE_SETTINGS;
+    const parsed: unknown = JSON.parse(stored);
+    if (!isObject(parsed)) return DEFAULT_FEE_SETTINGS;
+    const { auctionDuration, bazaarFlipperLevel, mayorPerks } = parsed;
+    const quadTaxing = isObject(mayorPerks) ? mayorPerks.quadTaxing : undefined;
+    return {
+      auctionDuration: isAuctionDuration(auctionDuration) ? auctionDuration : DEFAULT_FEE_SETTINGS.auctionDuration,
+      bazaarFlipperLevel: isBazaarFlipperLevel(bazaarFlipperLevel) ? bazaarFlipperLevel : DEFAULT_FEE_SETTINGS.bazaarFlipperLevel,
+      mayorPerks: { quadTaxing: typeof quadTaxing === 'boolean' ? quadTaxing : DEFAULT_FEE_SETTINGS.mayorPerks.quadTaxing },
+    };
+  } catch {
+    return DEFAULT_FEE_SETTINGS;
+  }
+};
+
+export const saveFeeSettings = (settings: FeeSettings): void => {
+  localStorage.setItem(FEE_SETTINGS_KEY, JSON.stringify(settings));
+};
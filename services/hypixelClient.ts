@@ -0,0 +1,318 @@
+import {
+  RawApiResponse, RawAuctionsPage, RawBazaarResponse, RawElectionResponse, RawEndedAuctionsResponse,
+  RawItemsResponse, RawPlayerAuctionsResponse,
+} from '../types';
+
+// --- HYPIXEL API CLIENT ---
+// All Hypixel API traffic goes through a `HypixelClient`. The live client talks to the API;
+// the replay client serves responses captured in a snapshot; the recording client wraps the
+// live one and saves the responses it sees so the session can be replayed later.
+
+export interface HypixelClient {
+  getBazaar: () => Promise<RawBazaarResponse>;
+  getAuctionsPage: (page: number) => Promise<RawAuctionsPage>;
+  getEndedAuctions: () => Promise<RawEndedAuctionsResponse>;
+  getItems: () => Promise<RawItemsResponse>;
+  getElection: () => Promise<RawElectionResponse>;
+  getPlayerAuctions: (playerUuid: string) => Promise<RawPlayerAuctionsResponse>;
+}
+
+/**
+ * Captured API responses, keyed by endpoint path relative to the SkyBlock API root
+ * (e.g. `bazaar`, `auctions?page=3`).
+ */
+export interface HypixelSnapshot {
+  version: 1;
+  recordedAt: number;
+  responses: Record<string, unknown>;
+}
+
+const API_BASE_URL = 'https://api.hypixel.net/v2/skyblock';
+
+const endpointKeys = {
+  bazaar: () => 'bazaar',
+  auctionsPage: (page: number) => `auctions?page=${page}`,
+  endedAuctions: () => 'auctions_ended',
+  items: () => 'items',
+  election: () => 'election',
+  playerAuctions: (playerUuid: string) => `auction?player=${playerUuid}`,
+};
+
+// Builds a client from a function that resolves one endpoint key to its response.
+const clientFromResolver = (resolve: <T extends RawApiResponse>(key: string) => Promise<T>): HypixelClient => ({
+  getBazaar: () => resolve(endpointKeys.bazaar()),
+  getAuctionsPage: page => resolve(endpointKeys.auctionsPage(page)),
+  getEndedAuctions: () => resolve(endpointKeys.endedAuctions()),
+  getItems: () => resolve(endpointKeys.items()),
+  getElection: () => resolve(endpointKeys.election()),
+  getPlayerAuctions: playerUuid => resolve(endpointKeys.playerAuctions(playerUuid)),
+});
+
+// --- LIVE ---
+
+export interface LiveClientOptions {
+  baseUrl?: string;
+  apiKey?: string; // Only needed for player auctions
+}
+
+export const createLiveClient = (options: LiveClientOptions = {}): HypixelClient => {
+  const baseUrl = options.baseUrl ?? API_BASE_URL;
+  return clientFromResolver(async <T extends RawApiResponse>(key: string): Promise<T> => {
+    const response = await fetch(`${baseUrl}/${key}`, {
+      headers: options.apiKey ? { 'API-Key': options.apiKey } : undefined,
+    });
+    if (!response.ok) throw new Error(`Hypixel API error: ${response.status} ${response.statusText}`);
+    const data: T = await response.json();
+    if (!data.success) throw new Error(data.cause || `Hypixel API call failed: ${key}`);
+    return data;
+  });
+};
+
+// --- REPLAY ---
+
+/**
+ * Serves responses from a snapshot. Requests for endpoints that were never captured fail,
+ * except `auctions_ended`, which replays as empty so an index sync still works.
+ * A loader function is called on the first request, so a failing load surfaces there.
+ */
+export const createReplayClient = (snapshot: HypixelSnapshot | (() => Promise<HypixelSnapshot>)): HypixelClient =>
+  clientFromResolver(async <T extends RawApiResponse>(key: string): Promise<T> => {
+    const { responses, recordedAt } = typeof snapshot === 'function' ? await snapshot() : snapshot;
+    if (key in responses) return responses[key] as T;
+    if (key === endpointKeys.endedAuctions()) {
+      return { success: true, lastUpdated: recordedAt, auctions: [] } as unknown as T;
+    }
+    throw new Error(`No recorded response for ${key}`);
+  });
+
+// --- RECORDING ---
+
+export type SnapshotSink = (responses: Record<string, unknown>) => Promise<void>;
+
+const RECORD_FLUSH_DELAY = 2000;
+
+/**
+ * Passes every request through to `inner` and hands the responses to `sink` in batches.
+ * Auction pages are only handed on as whole scans: every page of the `lastUpdated` that page 0
+ * reported, so a replay never mixes listings from different snapshots. Pages fetched by an
+ * incremental sync never complete a scan and are not recorded.
+ */
+export const createRecordingClient = (inner: HypixelClient, sink: SnapshotSink): HypixelClient => {
+  let buffered: Record<string, unknown> = {};
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let scan: { lastUpdated: number; totalPages: number; pages: Map<number, RawAuctionsPage> } | null = null;
+
+  const flush = () => {
+    flushTimer = null;
+    const batch = buffered;
+    buffered = {};
+    sink(batch).catch(error => console.warn('Failed to save recorded Hypixel responses:', error));
+  };
+
+  const buffer = (key: string, response: unknown) => {
+    buffered[key] = response;
+    if (!flushTimer) flushTimer = setTimeout(flush, RECORD_FLUSH_DELAY);
+  };
+
+  const record = <T>(key: string, request: Promise<T>): Promise<T> =>
+    request.then(response => {
+      buffer(key, response);
+      return response;
+    });
+
+  const recordAuctionsPage = (page: number, request: Promise<RawAuctionsPage>): Promise<RawAuctionsPage> =>
+    request.then(response => {
+      if (page === 0 && response.lastUpdated !== scan?.lastUpdated) {
+        scan = { lastUpdated: response.lastUpdated, totalPages: response.totalPages, pages: new Map() };
+      }
+      if (scan && response.lastUpdated === scan.lastUpdated) {
+        scan.pages.set(page, response);
+        if (scan.pages.size === scan.totalPages) {
+          scan.pages.forEach((scanPage, n) => buffer(endpointKeys.auctionsPage(n), scanPage));
+          scan = null;
+        }
+      }
+      return response;
+    });
+
+  return {
+    getBazaar: () => record(endpointKeys.bazaar(), inner.getBazaar()),
+    getAuctionsPage: page => recordAuctionsPage(page, inner.getAuctionsPage(page)),
+    getEndedAuctions: () => record(endpointKeys.endedAuctions(), inner.getEndedAuctions()),
+    getItems: () => record(endpointKeys.items(), inner.getItems()),
+    getElection: () => record(endpointKeys.election(), inner.getElection()),
+    getPlayerAuctions: playerUuid => record(endpointKeys.playerAuctions(playerUuid), inner.getPlayerAuctions(playerUuid)),
+  };
+};
+
+// --- RECORDING FILES ---
+// Recordings are saved to and read from `recordings/<name>.json` by the dev server
+// (see the recorder plugin in vite.config.ts), so record and replay need `npm run dev`.
+
+const RECORDINGS_URL = '/__recordings';
+
+const recordingUrl = (name: string) => `${RECORDINGS_URL}/${encodeURIComponent(name)}`;
+
+// The server merges each batch into the file, so the main thread and the worker can both record.
+export const saveToRecording = (name: string): SnapshotSink => async responses => {
+  const response = await fetch(recordingUrl(name), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ recordedAt: Date.now(), responses }),
+  });
+  if (!response.ok) throw new Error(`Recorder error: ${response.status} ${response.statusText}`);
+};
+
+export const loadRecording = async (name: string): Promise<HypixelSnapshot> => {
+  const response = await fetch(recordingUrl(name));
+  if (!response.ok) throw new Error(`Could not load recording "${name}": ${response.statusText}`);
+  return response.json();
+};
+
+// --- SNAPSHOT FILES ---
+// Besides our own snapshot JSON, snapshot files may be JSON arrays or JSONL files of raw API
+// responses (e.g. saved with curl), or JSONL lines of `{ "key": ..., "response": ... }`.
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Works out which endpoint a raw response came from by its shape.
+const endpointKeyOf = (response: unknown): string | null => {
+  if (!isObject(response)) return null;
+  if (response.products) return endpointKeys.bazaar();
+  if (Array.isArray(response.auctions)) {
+    return typeof response.page === 'number' ? endpointKeys.auctionsPage(response.page) : endpointKeys.endedAuctions();
+  }
+  if (Array.isArray(response.items)) return endpointKeys.items();
+  if (response.mayor) return endpointKeys.election();
+  return null;
+};
+
+const snapshotFromEntries = (entries: unknown[]): HypixelSnapshot => {
+  const responses: Record<string, unknown> = {};
+  let recordedAt = 0;
+  for (const entry of entries) {
+    const isKeyed = isObject(entry) && typeof entry.key === 'string' && entry.response !== undefined;
+    const response = isKeyed ? entry.response : entry;
+    const key = isKeyed ? String(entry.key) : endpointKeyOf(entry);
+    if (!key) throw new Error('Snapshot contains a response from an unknown endpoint');
+    responses[key] = response;
+    if (isObject(response) && typeof response.lastUpdated === 'number') recordedAt = Math.max(recordedAt, response.lastUpdated);
+  }
+  return { version: 1, recordedAt, responses };
+};
+
+/**
+ * Parses the contents of a snapshot file in any of the supported formats.
+ */
+export const parseSnapshotFile = (text: string): HypixelSnapshot => {
+  const trimmed = text.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    // Not a single JSON document, so read it as JSONL.
+    return snapshotFromEntries(trimmed.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line)));
+  }
+  if (Array.isArray(parsed)) return snapshotFromEntries(parsed);
+  if (isObject(parsed) && parsed.responses !== undefined) {
+    if (!isObject(parsed.responses) || Array.isArray(parsed.responses)) {
+      throw new Error('Snapshot responses must be an object keyed by endpoint');
+    }
+    return { version: 1, recordedAt: typeof parsed.recordedAt === 'number' ? parsed.recordedAt : 0, responses: parsed.responses };
+  }
+  return snapshotFromEntries([parsed]);
+};
+
+const CAPTURE_CHUNK_SIZE = 5;
+
+/**
+ * Downloads the bazaar and every auction page from `client` into a snapshot.
+ */
+export const captureSnapshot = async (
+  client: HypixelClient,
+  onProgress?: (done: number, total: number) => void
+): Promise<HypixelSnapshot> => {
+  const [bazaar, firstPage, ended] = await Promise.all([client.getBazaar(), client.getAuctionsPage(0), client.getEndedAuctions()]);
+  const responses: Record<string, unknown> = {
+    [endpointKeys.bazaar()]: bazaar,
+    [endpointKeys.auctionsPage(0)]: firstPage,
+    [endpointKeys.endedAuctions()]: ended,
+  };
+
+  for (let page = 1; page < firstPage.totalPages; page += CAPTURE_CHUNK_SIZE) {
+    onProgress?.(page, firstPage.totalPages);
+    const pages = Array.from({ length: Math.min(CAPTURE_CHUNK_SIZE, firstPage.totalPages - page) }, (_, i) => page + i);
+    const results = await Promise.all(pages.map(p => client.getAuctionsPage(p)));
+    results.forEach(result => { responses[endpointKeys.auctionsPage(result.page)] = result; });
+  }
+  onProgress?.(firstPage.totalPages, firstPage.totalPages);
+
+  return { version: 1, recordedAt: firstPage.lastUpdated, responses };
+};
+
+// --- CONFIGURATION ---
+
+export type HypixelClientMode = 'live' | 'record' | 'replay';
+
+const HYPIXEL_CLIENT_MODES: HypixelClientMode[] = ['live', 'record', 'replay'];
+
+const isHypixelClientMode = (value: unknown): value is HypixelClientMode =>
+  HYPIXEL_CLIENT_MODES.includes(value as HypixelClientMode);
+
+export interface HypixelClientConfig {
+  mode: HypixelClientMode;
+  recordingName: string; // Recording written in record mode and served in replay mode
+  apiKey: string;
+}
+
+export const DEFAULT_HYPIXEL_CLIENT_CONFIG: HypixelClientConfig = {
+  mode: 'live',
+  recordingName: 'session',
+  apiKey: '',
+};
+
+export const createHypixelClient = (config: HypixelClientConfig): HypixelClient => {
+  const live = () => createLiveClient({ apiKey: config.apiKey || undefined });
+  switch (config.mode) {
+    case 'live':
+      return live();
+    case 'record':
+      return createRecordingClient(live(), saveToRecording(config.recordingName));
+    case 'replay': {
+      // Loaded on first use and kept; a failed load is retried on the next request.
+      let recording: Promise<HypixelSnapshot> | null = null;
+      return createReplayClient(() => {
+        recording ??= loadRecording(config.recordingName).catch(error => {
+          recording = null;
+          throw error;
+        });
+        return recording;
+      });
+    }
+  }
+};
+
+const HYPIXEL_CLIENT_CONFIG_KEY = 'hypixelClientConfig';
+
+/**
+ * Reads the saved client config. Each field that is missing or invalid falls back to its default.
+ */
+export const loadHypixelClientConfig = (): HypixelClientConfig => {
+  try {
+    const stored = localStorage.getItem(HYPIXEL_CLIENT_CONFIG_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isObject(parsed)) return DEFAULT_HYPIXEL_CLIENT_CONFIG;
+    const { mode, recordingName, apiKey } = parsed;
+    return {
+      mode: isHypixelClientMode(mode) ? mode : DEFAULT_HYPIXEL_CLIENT_CONFIG.mode,
+      recordingName: typeof recordingName === 'string' && recordingName !== '' ? recordingName : DEFAULT_HYPIXEL_CLIENT_CONFIG.recordingName,
+      apiKey: typeof apiKey === 'string' ? apiKey : DEFAULT_HYPIXEL_CLIENT_CONFIG.apiKey,
+    };
+  } catch {
+    return DEFAULT_HYPIXEL_CLIENT_CONFIG;
+  }
+};
+
+export const saveHypixelClientConfig = (config: HypixelClientConfig): void => {
+  localStorage.setItem(HYPIXEL_CLIENT_CONFIG_KEY, JSON.stringify(config));
+};
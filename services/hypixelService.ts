@@ -1,17 +1,63 @@
 
-import { AuctionFlip, BazaarFlip, CraftingFlip, Ingredient, Rarity, RawAuction } from '../types';
-import { analyzeCraftingRecipe } from './geminiService';
-
-const API_BASE_URL = 'https://api.hypixel.net/v2/skyblock';
-const PROFIT_THRESHOLD = 50000; // Minimum profit to be considered a flip
-const MIN_PRICE = 1; // Minimum price for an item to be considered, to filter out junk
+import {
+  AuctionFlip, BazaarFlip, BazaarOrderFlip, CraftingFlip, DecodedAuction, Ingredient, PriceStrategyId, Rarity, RawAuction,
+  RawAuctionsPage, RawBazaarProduct, RawEndedAuction, RawEndedAuctionsResponse,
+} from '../types';
+import { analyzeCraftingRecipe } from './aiService';
+import { decodeItem, decodeItemBytes, resolveItemId } from './nbtService';
+import {
+  buildComparableIndex, buildComparableKeys, ComparableConfig, ComparableIndex, ComparableItem, DEFAULT_COMPARABLE_CONFIG, selectPricingKey,
+} from './comparablesService';
+import { calculateAuctionFees, calculateBazaarFees, DEFAULT_FEE_SETTINGS, FeeSettings } from './feeService';
+import { buildCostTree, flattenCostTree, IngredientPrice, loadRecipeDatabase, RecipeDatabase } from './recipeService';
+import { AuctionPricePoint, BazaarPricePoint, queryRecentPriceHistory, recordAuctionSnapshots, recordBazaarSnapshots } from './priceHistoryService';
+import { DEFAULT_PRICE_STRATEGY, findMarketPriceAuction, MarketPriceOptions, PriceHistoryPoint, PRICE_STRATEGIES } from './priceStrategyService';
+import { computeSalesVelocity, expectedCoinsPerHour, ObservedSale } from './salesVelocityService';
+import { createLiveClient, HypixelClient } from './hypixelClient';
+import { DEFAULT_SCANNER_SETTINGS, ScannerSettings } from './scannerSettingsService';
+import { createItemFilter, EMPTY_ITEM_LISTS, ItemLists, ListedItem, usesCategories } from './itemListService';
 
 // Helper to clean up item names from auctions for grouping.
-const normalizeAuctionName = (name: string): string => {
+export const normalizeAuctionName = (name: string): string => {
     // We remove color codes and reforge prefixes like "⚚ " or "✪"
     return name.replace(/§[a-f0-9k-or]/g, '').replace(/^[✪⚚\s]+|[\s✪⚚]+$/g, '').trim();
 };
 
+let client: HypixelClient = createLiveClient();
+let clientGeneration = 0; // Bumped on every switch, so work started on the old client can tell
+let historyEnabled = true;
+
+export interface ClientOptions {
+    recordHistory?: boolean; // Write fetched prices to the price history, on by default; off for replayed data
+}
+
+/**
+ * Switches where Hypixel data comes from. The auction index is dropped so data from
+ * different sources is never mixed, and a sync still running on the old client fails
+ * instead of writing its results.
+ */
+export const setHypixelClient = (next: HypixelClient, options: ClientOptions = {}): void => {
+    client = next;
+    clientGeneration++;
+    historyEnabled = options.recordHistory ?? true;
+    syncInFlight = null;
+    syncProgressListeners.clear();
+    lastRecordedSnapshot = 0;
+    auctionIndex.clear();
+    recentSales.clear();
+    salesObservedSince = 0;
+    salesLastUpdated = 0;
+    indexLastUpdated = 0;
+    indexLastFullScan = 0;
+    itemCategories = null;
+    historyCache = null;
+};
+
+// Throws if the client was switched since `generation` was read, before stale data is written.
+const assertCurrentClient = (generation: number): void => {
+    if (generation !== clientGeneration) throw new Error('The Hypixel data source changed during the sync');
+};
+
 const formatItemName = (name: string): string => {
   return name
     .replace(/_/g, ' ')
@@ -21,58 +67,106 @@ const formatItemName = (name: string): string => {
     .join(' ');
 };
 
-const calculateAhTax = (price: number): number => {
-  if (price >= 1_000_000) {
-    return price * 0.02; // 2% tax for 1M+
-  }
-  return price * 0.01; // 1% tax under 1M
+// --- ITEM LISTS ---
+
+let itemCategories: Promise<Map<string, string>> | null = null;
+
+// Item categories from the items resource, fetched once per data source. Without it, category
+// rules simply match nothing.
+const loadItemCategories = (): Promise<Map<string, string>> => {
+    itemCategories ??= client.getItems()
+        .then(data => new Map(data.items.filter(item => item.category).map(item => [item.id, item.category!] as [string, string])))
+        .catch(e => {
+            console.warn('Failed to load item categories, category rules will not match:', e);
+            return new Map<string, string>();
+        });
+    return itemCategories;
+};
+
+// Builds the block/allow check for a scan, loading categories only if a rule needs them.
+const buildItemFilter = async (lists: ItemLists): Promise<(item: ListedItem) => boolean> => {
+    const categories = usesCategories(lists) ? await loadItemCategories() : new Map<string, string>();
+    const isAllowed = createItemFilter(lists);
+    return item => isAllowed({ ...item, category: categories.get(item.itemId) });
 };
 
 // --- BAZAAR LOGIC ---
 
-// Helper to get all bazaar prices
-export const fetchBazaarPrices = async (): Promise<Map<string, { price: number; name: string }>> => {
-    const response = await fetch(`${API_BASE_URL}/bazaar`);
-    if (!response.ok) throw new Error('Failed to fetch Bazaar data');
-    const data = await response.json();
-    if (!data.success) throw new Error(data.cause || 'Bazaar API call failed');
+const BAZAAR_TICK = 0.1; // Smallest price step the bazaar accepts
+const HOURS_PER_WEEK = 168;
+
+// Fetches every bazaar product and records the snapshot in the price history, unless the client replays old data.
+const fetchBazaarProducts = async (): Promise<Record<string, RawBazaarProduct>> => {
+    const data = await client.getBazaar();
+    const products: Record<string, RawBazaarProduct> = data.products;
+    const pricePoints = new Map<string, BazaarPricePoint>();
+    for (const productId in products) {
+        const status = products[productId].quick_status;
+        if (status) {
+            pricePoints.set(productId, {
+                buyPrice: status.buyPrice,
+                sellPrice: status.sellPrice,
+                buyVolume: status.buyVolume,
+                sellVolume: status.sellVolume,
+                buyMovingWeek: status.buyMovingWeek,
+                sellMovingWeek: status.sellMovingWeek,
+            });
+        }
+    }
+    if (historyEnabled) {
+        recordBazaarSnapshots(pricePoints, data.lastUpdated)
+            .catch(e => console.warn('Failed to record bazaar price history:', e));
+    }
 
-    const priceMap = new Map<string, { price: number; name: string }>();
-    for (const productId in data.products) {
-        const product = data.products[productId];
+    return products;
+};
+
+// Helper to get all bazaar prices, on both the insta-buy and the buy order side
+export const fetchBazaarPrices = async (): Promise<Map<string, IngredientPrice>> => {
+    const products = await fetchBazaarProducts();
+
+    const priceMap = new Map<string, IngredientPrice>();
+    for (const productId in products) {
+        const product = products[productId];
         const status = product.quick_status;
-        if (status && status.sellPrice > 0) {
+        if (status && (status.buyPrice > 0 || status.sellPrice > 0)) {
             priceMap.set(productId, {
-                price: status.sellPrice, // Player buys from Bazaar at this price
-                name: formatItemName(product.product_id)
+                name: formatItemName(product.product_id),
+                instaBuyPrice: status.buyPrice > 0 ? status.buyPrice : undefined,
+                buyOrderPrice: status.sellPrice > 0 ? status.sellPrice : undefined,
             });
         }
     }
     return priceMap;
 };
 
-export const fetchBazaarFlips = async (): Promise<BazaarFlip[]> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/bazaar`);
-    if (!response.ok) throw new Error('Failed to fetch Bazaar data');
-    const data = await response.json();
-    if (!data.success) throw new Error(data.cause || 'Bazaar API call failed');
-
+/**
+ * Instant bazaar flips: buy at the buy order price, sell at the sell offer price.
+ */
+export const computeBazaarFlips = (
+    products: Record<string, RawBazaarProduct>,
+    fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+    settings: ScannerSettings = DEFAULT_SCANNER_SETTINGS
+): BazaarFlip[] => {
     const flips: BazaarFlip[] = [];
 
-    for (const productId in data.products) {
-        const product = data.products[productId];
+    for (const productId in products) {
+        const product = products[productId];
         const status = product.quick_status;
         if (status && status.sellPrice > 0 && status.buyPrice > 0) {
             const buyFor = status.sellPrice; // Instant buy price
             const sellFor = status.buyPrice; // Instant sell price
-            const profit = sellFor - buyFor;
-            if (profit > 100 && status.buyMovingWeek > 100) { // Filter for decent profit and volume
+            const grossProfit = sellFor - buyFor;
+            const tax = calculateBazaarFees(sellFor, fees).total;
+            const profit = grossProfit - tax;
+            if (profit > settings.bazaarMinProfit && status.buyMovingWeek > settings.bazaarMinWeeklyVolume) { // Filter for decent profit and volume
                 flips.push({
                     id: productId,
                     itemName: formatItemName(product.product_id),
                     buyPrice: buyFor,
                     sellPrice: sellFor,
+                    grossProfit,
+                    fees: tax,
                     profit,
                     buyVolume: status.buyMovingWeek,
                     sellVolume: status.sellMovingWeek,
@@ -80,203 +174,535 @@ export const fetchBazaarFlips = async (): Promise<BazaarFlip[]> => {
             }
         }
     }
+
     return flips;
+};
+
+// Drops the products the item lists exclude.
+const filterBazaarProducts = async (
+    products: Record<string, RawBazaarProduct>,
+    lists: ItemLists
+): Promise<Record<string, RawBazaarProduct>> => {
+    const isAllowed = await buildItemFilter(lists);
+    return Object.fromEntries(Object.entries(products).filter(([productId]) =>
+        isAllowed({ itemId: productId, name: formatItemName(productId) })));
+};
+
+export const fetchBazaarFlips = async (
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  settings: ScannerSettings = DEFAULT_SCANNER_SETTINGS,
+  itemLists: ItemLists = EMPTY_ITEM_LISTS
+): Promise<BazaarFlip[]> => {
+  try {
+    return computeBazaarFlips(await filterBazaarProducts(await fetchBazaarProducts(), itemLists), fees, settings);
   } catch (error) {
     console.error("Error fetching bazaar flips:", error);
     throw error;
   }
 };
 
-// --- AUCTION FLIP LOGIC ---
-
 /**
- * Finds a realistic market price for an item by analyzing a list of its auctions.
- * This method filters outliers and identifies the "wall" where prices stabilize.
- * @param sortedAuctions A list of auctions for a single item, sorted by price ascending.
- * @returns The auction representing the market price, or null if one cannot be determined.
+ * Estimates how many units per hour a pair of orders placed at the top of the book would fill.
+ * Insta-sells fill buy orders and insta-buys fill sell offers, so each side moves at its weekly
+ * moving volume. Orders already sitting at the top level compete for those fills, so our share
+ * is split evenly with them. The slower side bounds the whole flip.
  */
-const findMarketPriceAuction = (sortedAuctions: RawAuction[]): RawAuction | null => {
-    // We need at least 3 auctions: one to buy, and two to establish a market price.
-    if (sortedAuctions.length < 3) {
-        // Not enough data for analysis, fallback to 2nd lowest if it exists.
-        return sortedAuctions[1] || null;
-    }
-
-    const marketCandidates = sortedAuctions.slice(1);
-
-    // 1. Outlier removal using IQR to filter unusually high prices.
-    const prices = marketCandidates.map(a => a.starting_bid);
-    const q1Index = Math.floor(prices.length / 4);
-    const q3Index = Math.floor(prices.length * 3 / 4);
-    
-    // Ensure indices are valid, especially for small arrays
-    if (q1Index >= prices.length || q3Index >= prices.length) {
-       return marketCandidates[0] || null; // Not enough data for IQR
-    }
-
-    const q1 = prices[q1Index];
-    const q3 = prices[q3Index];
-    const iqr = q3 - q1;
-
-    // Define a generous upper bound to trim only extreme outliers.
-    const upperBound = q3 + 2.0 * iqr;
-
-    const filteredCandidates = marketCandidates.filter(a => a.starting_bid <= upperBound);
+const estimateOrderFillRate = (product: RawBazaarProduct): number => {
+    const status = product.quick_status;
+    const competingBuyOrders = product.sell_summary[0]?.orders ?? 0;
+    const competingSellOffers = product.buy_summary[0]?.orders ?? 0;
+
+    const buyFillsPerHour = status.sellMovingWeek / HOURS_PER_WEEK / (competingBuyOrders + 1);
+    const sellFillsPerHour = status.buyMovingWeek / HOURS_PER_WEEK / (competingSellOffers + 1);
+    return Math.min(buyFillsPerHour, sellFillsPerHour);
+};
 
-    // If filtering was too aggressive, it's safer to just use the 2nd lowest BIN.
-    if (filteredCandidates.length < 2) {
-        return marketCandidates[0] || null;
+/**
+ * Finds bazaar flips done with orders instead of instant trades: a buy order one tick above the
+ * best buy order and a sell offer one tick below the best sell offer.
+ */
+export const computeBazaarOrderFlips = (
+    products: Record<string, RawBazaarProduct>,
+    fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+    settings: ScannerSettings = DEFAULT_SCANNER_SETTINGS
+): BazaarOrderFlip[] => {
+    const flips: BazaarOrderFlip[] = [];
+
+    for (const productId in products) {
+        const product = products[productId];
+        const topBuyOrder = product.sell_summary?.[0];
+        const topSellOffer = product.buy_summary?.[0];
+        if (!product.quick_status || !topBuyOrder || !topSellOffer) continue;
+
+        const buyOrderPrice = topBuyOrder.pricePerUnit + BAZAAR_TICK;
+        const sellOfferPrice = topSellOffer.pricePerUnit - BAZAAR_TICK;
+        const grossProfit = sellOfferPrice - buyOrderPrice;
+        const tax = calculateBazaarFees(sellOfferPrice, fees).total;
+        const profit = grossProfit - tax;
+        if (profit <= 0) continue;
+
+        const unitsPerHour = estimateOrderFillRate(product);
+        const coinsPerHour = unitsPerHour * profit;
+        if (coinsPerHour < settings.orderFlipMinCoinsPerHour) continue;
+
+        flips.push({
+            id: productId,
+            itemName: formatItemName(product.product_id),
+            buyOrderPrice,
+            sellOfferPrice,
+            grossProfit,
+            fees: tax,
+            profit,
+            unitsPerHour: Math.round(unitsPerHour),
+            coinsPerHour: Math.round(coinsPerHour),
+            buyOrderDepth: topBuyOrder.amount,
+            sellOfferDepth: topSellOffer.amount,
+        });
     }
 
-    // 2. Find the "market wall" by looking for a significant price jump.
-    // A wall is the start of a dense cluster of prices. We find it by locating the
-    // first large gap between items. The wall starts right after that gap.
-    const GAP_THRESHOLD = 0.08; // 8% price jump is considered significant.
-    
-    let wallStartIndex = -1;
-
-    for (let i = 0; i < filteredCandidates.length - 1; i++) {
-        const priceA = filteredCandidates[i].starting_bid;
-        const priceB = filteredCandidates[i+1].starting_bid;
+    return flips;
+};
 
-        if (priceA > 0) {
-            const gap = (priceB - priceA) / priceA;
-            if (gap > GAP_THRESHOLD) {
-                wallStartIndex = i + 1;
-                break;
-            }
-        }
-    }
-    
-    if (wallStartIndex !== -1) {
-        // We found a jump, so the market wall is the first item after the jump.
-        return filteredCandidates[wallStartIndex];
-    } else {
-        // No significant jump found, meaning prices are relatively clustered.
-        // The first item in our filtered list is the most reliable floor price.
-        return filteredCandidates[0];
-    }
+export const fetchBazaarOrderFlips = async (
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  settings: ScannerSettings = DEFAULT_SCANNER_SETTINGS,
+  itemLists: ItemLists = EMPTY_ITEM_LISTS
+): Promise<BazaarOrderFlip[]> => {
+  try {
+    return computeBazaarOrderFlips(await filterBazaarProducts(await fetchBazaarProducts(), itemLists), fees, settings);
+  } catch (error) {
+    console.error("Error fetching bazaar order flips:", error);
+    throw error;
+  }
 };
 
+// --- AUCTION FLIP LOGIC ---
 
-export const fetchAuctionFlips = async (): Promise<AuctionFlip[]> => {
-  const allAuctions = await fetchAllAuctionPages();
+export interface ScanProgress {
+  phase: 'fetching' | 'computing';
+  done: number;
+  total: number;
+}
 
-  // Filter for active BINs and group by item name.
-  const activeBins = allAuctions.filter(auc => auc.bin && !auc.claimed);
-  const groupedAuctions = new Map<string, RawAuction[]>();
+export interface ScanOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+  onPartial?: (flips: AuctionFlip[]) => void; // Receives each new batch of flips as it is found
+  recordHistory?: boolean; // Write the snapshot to the price history, on by default; never for a replay client
+  priceStrategy?: PriceStrategyId; // How auction flips are valued
+  settings?: ScannerSettings; // Flip thresholds, the defaults unless given
+  itemLists?: ItemLists; // Items to skip or restrict the scan to
+}
 
-  activeBins.forEach(auction => {
-    const normalizedName = normalizeAuctionName(auction.item_name);
-    if (!groupedAuctions.has(normalizedName)) {
-      groupedAuctions.set(normalizedName, []);
+const PARTIAL_BATCH_SIZE = 500; // Candidates priced between partial results (and cancellation checks)
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+export const fetchAuctionFlips = async (
+  config: ComparableConfig = DEFAULT_COMPARABLE_CONFIG,
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  options: ScanOptions = {}
+): Promise<AuctionFlip[]> => {
+  const {
+    signal, onProgress, onPartial, recordHistory = true, priceStrategy = DEFAULT_PRICE_STRATEGY, settings = DEFAULT_SCANNER_SETTINGS,
+    itemLists = EMPTY_ITEM_LISTS,
+  } = options;
+  const strategy = PRICE_STRATEGIES[priceStrategy];
+  const marketPriceOptions: MarketPriceOptions = { iqrMultiplier: settings.iqrMultiplier, gapThreshold: settings.gapThreshold };
+
+  // Bucket every active BIN by comparable item properties.
+  const activeBins = await syncAuctionIndex(onProgress);
+  signal?.throwIfAborted();
+  const index = buildComparableIndex(activeBins, config);
+  if (recordHistory && historyEnabled) recordAuctionHistory(activeBins, index, marketPriceOptions);
+
+  const now = indexLastUpdated;
+  const salesByKey = groupRecentSales(config);
+  const observedSince = Math.max(salesObservedSince, salesLastUpdated - SALES_RETENTION);
+  const history = strategy.historyWindow ? await loadAuctionHistory(now - strategy.historyWindow, now) : new Map<string, PriceHistoryPoint[]>();
+  signal?.throwIfAborted();
+  const itemMarketPrices = new Map<string, number | null>();
+  const itemMarketPrice = (itemId: string): number | null => {
+    if (!itemMarketPrices.has(itemId)) {
+      itemMarketPrices.set(itemId, findMarketPriceAuction(index.buckets.get(itemId) ?? [], marketPriceOptions)?.starting_bid ?? null);
+    }
+    return itemMarketPrices.get(itemId)!;
+  };
+
+  // The cheapest auction of each finest bucket is a buy candidate. Listed-out items still count
+  // as comparables, they just can't be bought.
+  const isAllowed = await buildItemFilter(itemLists);
+  const buyCandidates = new Map<string, DecodedAuction>();
+  for (const auction of activeBins) {
+    if (!isAllowed({ itemId: auction.itemId, name: normalizeAuctionName(auction.item_name), rarity: auction.tier })) continue;
+    const finestKey = index.keysByAuction.get(auction.uuid)![0];
+    const current = buyCandidates.get(finestKey);
+    if (!current || auction.starting_bid < current.starting_bid) {
+      buyCandidates.set(finestKey, auction);
     }
-    groupedAuctions.get(normalizedName)!.push(auction);
-  });
+  }
   
-  // Find flips within each group.
+  // Price each candidate against the finest bucket that has enough comparables.
   const flips: AuctionFlip[] = [];
+  const candidates = Array.from(buyCandidates.values());
+  let reportedCount = 0;
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (i > 0 && i % PARTIAL_BATCH_SIZE === 0) {
+      onProgress?.({ phase: 'computing', done: i, total: candidates.length });
+      if (flips.length > reportedCount) {
+        onPartial?.(flips.slice(reportedCount));
+        reportedCount = flips.length;
+      }
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+    }
 
-  for (const [itemName, auctions] of groupedAuctions.entries()) {
-    if (auctions.length < 2) continue;
-    
-    const sortedAuctions = auctions.sort((a, b) => a.starting_bid - b.starting_bid);
-    
-    const buyAuction = sortedAuctions[0];
+    const buyAuction = candidates[i];
     const buyPrice = buyAuction.starting_bid;
     
-    if (buyPrice < MIN_PRICE) continue;
-
-    // Use the advanced algorithm to find a realistic market price
-    const marketPriceAuction = findMarketPriceAuction(sortedAuctions);
+    if (buyPrice < settings.auctionMinPrice) continue;
+
+    const comparableKey = selectPricingKey(index.keysByAuction.get(buyAuction.uuid)!, index, config.minBucketSize, buyAuction.uuid);
+    const comparables = index.buckets.get(comparableKey)!.filter(a => a.uuid !== buyAuction.uuid);
+    if (comparables.length < 1) continue;
+
+    const estimate = strategy.estimate({
+      buyPrice,
+      listings: comparables.map(a => a.starting_bid),
+      sales: salesByKey.get(comparableKey) ?? [],
+      history: history.get(buyAuction.itemId) ?? [],
+      itemMarketPrice: strategy.historyWindow ? itemMarketPrice(buyAuction.itemId) : null,
+      now,
+      marketPriceOptions,
+    });
     
-    if (!marketPriceAuction) continue;
+    if (!estimate) continue;
 
-    const marketPrice = marketPriceAuction.starting_bid;
+    const marketPrice = estimate.price;
     
     if (marketPrice <= buyPrice) continue;
 
-    const postTaxSellPrice = marketPrice - calculateAhTax(marketPrice);
-    const profit = postTaxSellPrice - buyPrice;
+    const grossProfit = marketPrice - buyPrice;
+    const sellFees = calculateAuctionFees(marketPrice, fees).total;
+    const profit = grossProfit - sellFees;
     
-    if (profit > PROFIT_THRESHOLD) {
+    if (profit > settings.auctionMinProfit) {
+      const velocity = computeSalesVelocity(salesByKey.get(comparableKey) ?? [], observedSince, salesLastUpdated);
       flips.push({
         id: buyAuction.uuid,
-        itemName: itemName, // Use the grouped (normalized) name
+        itemId: buyAuction.itemId,
+        itemName: normalizeAuctionName(buyAuction.item_name),
         rarity: buyAuction.tier,
         lore: buyAuction.item_lore,
         lowestBin: buyPrice,
         marketPrice: marketPrice,
+        grossProfit,
+        fees: Math.round(sellFees),
         profit: Math.round(profit),
+        comparableKey,
+        confidence: estimate.confidence,
+        priceStrategy,
+        salesPerHour: Math.round(velocity.salesPerHour * 100) / 100,
+        medianTimeToSell: velocity.medianTimeToSell,
+        coinsPerHour: expectedCoinsPerHour(Math.round(profit), velocity),
       });
     }
   }
 
+  if (flips.length > reportedCount) onPartial?.(flips.slice(reportedCount));
+  onProgress?.({ phase: 'computing', done: candidates.length, total: candidates.length });
   return flips;
 };
 
-// --- HELPER for fetching all auction pages ---
-const fetchAllAuctionPages = async (maxPages: number = 35): Promise<RawAuction[]> => {
-    const firstPageResponse = await fetch(`${API_BASE_URL}/auctions?page=0`);
-    if (!firstPageResponse.ok) throw new Error(`Hypixel API error: ${firstPageResponse.statusText}`);
-    const firstPageData = await firstPageResponse.json();
-    if (!firstPageData.success) throw new Error(firstPageData.cause || 'Failed to fetch auctions.');
-    
-    let allAuctions: RawAuction[] = firstPageData.auctions;
-    const totalPages = Math.min(firstPageData.totalPages, maxPages);
-    
-    // Fetch pages in chunks to avoid too many parallel requests
+let lastRecordedSnapshot = 0;
+
+// Writes one price snapshot per item id for each new auction house snapshot.
+const recordAuctionHistory = (activeBins: DecodedAuction[], index: ComparableIndex, marketPriceOptions: MarketPriceOptions): void => {
+  if (indexLastUpdated === lastRecordedSnapshot) return;
+  lastRecordedSnapshot = indexLastUpdated;
+
+  const itemIds = new Set(activeBins.map(auction => auction.itemId));
+  const points = new Map<string, AuctionPricePoint>();
+  for (const itemId of itemIds) {
+    const listings = index.buckets.get(itemId);
+    if (!listings || listings.length === 0) continue;
+    const wall = findMarketPriceAuction(listings, marketPriceOptions);
+    points.set(itemId, {
+      lowestBin: listings[0].starting_bid,
+      marketPrice: wall ? wall.starting_bid : listings[0].starting_bid,
+      listingCount: listings.length,
+    });
+  }
+
+  recordAuctionSnapshots(points, indexLastUpdated)
+    .catch(e => console.warn('Failed to record auction price history:', e));
+};
+
+// History points read by earlier scans. Each scan only reads the snapshots recorded since
+// the last one and drops points that left the window. Retention merges snapshots in the
+// store later on, but the raw points kept here carry the same prices and sample weights.
+let historyCache: { loadedUntil: number; points: Map<string, PriceHistoryPoint[]> } | null = null;
+
+// Reads the item-level market walls recorded in the price history. Without IndexedDB
+// (e.g. in tests and scripts) there is no history and history-based strategies price nothing.
+const loadAuctionHistory = async (from: number, to: number): Promise<Map<string, PriceHistoryPoint[]>> => {
+  const cache = historyCache && historyCache.loadedUntil <= to ? historyCache : { loadedUntil: from, points: new Map<string, PriceHistoryPoint[]>() };
+  try {
+    const snapshots = await queryRecentPriceHistory('auction', Math.max(from, cache.loadedUntil), to);
+    for (const [itemId, itemSnapshots] of snapshots) {
+      const added = itemSnapshots
+        .filter(s => s.auction)
+        .map(s => ({ timestamp: s.timestamp, marketPrice: s.auction!.marketPrice, samples: s.samples }));
+      cache.points.set(itemId, [...(cache.points.get(itemId) ?? []), ...added]);
+    }
+  } catch (e) {
+    console.warn('Failed to load auction price history:', e);
+    return new Map();
+  }
+
+  const points = new Map<string, PriceHistoryPoint[]>();
+  for (const [itemId, itemPoints] of cache.points) {
+    const inWindow = itemPoints.filter(p => p.timestamp >= from);
+    if (inWindow.length > 0) points.set(itemId, inWindow);
+  }
+  historyCache = { loadedUntil: to, points };
+  return points;
+};
+
+/**
+ * Decodes `item_bytes` for each auction so it can be grouped by its real SkyBlock id.
+ * Auctions whose item data cannot be decoded are dropped.
+ */
+const decodeAuctions = async (auctions: RawAuction[]): Promise<DecodedAuction[]> => {
+  const decoded = await Promise.all(auctions.map(async (auction): Promise<DecodedAuction | null> => {
+    try {
+      const attributes = await decodeItemBytes(auction.item_bytes);
+      if (!attributes) return null;
+      return { ...auction, itemId: resolveItemId(attributes), attributes };
+    } catch (e) {
+      console.warn(`Failed to decode item bytes for auction ${auction.uuid}:`, e);
+      return null;
+    }
+  }));
+  return decoded.filter((auction): auction is DecodedAuction => auction !== null);
+};
+
+// --- AUCTION INDEX ---
+// Active BINs are kept in memory between refreshes, keyed by uuid. The auctions endpoint is
+// rebuilt roughly once a minute; we only pull pages again when its `lastUpdated` changes.
+
+const FULL_RESCAN_INTERVAL = 10 * 60 * 1000; // Periodically rebuild to catch anything the increments missed
+const ENDED_WINDOW = 60 * 1000; // auctions_ended only covers the last 60 seconds
+
+const auctionIndex = new Map<string, DecodedAuction>();
+let indexLastUpdated = 0;
+let indexLastFullScan = 0;
+let syncInFlight: Promise<DecodedAuction[]> | null = null;
+const syncProgressListeners = new Set<(progress: ScanProgress) => void>();
+
+const reportSyncProgress = (done: number, total: number): void => {
+    syncProgressListeners.forEach(listener => listener({ phase: 'fetching', done, total }));
+};
+
+const addToIndex = async (auctions: RawAuction[], generation: number): Promise<void> => {
+    const fresh = auctions.filter(auc => auc.bin && !auc.claimed && !auctionIndex.has(auc.uuid));
+    const decoded = await decodeAuctions(fresh);
+    assertCurrentClient(generation);
+    decoded.forEach(auction => auctionIndex.set(auction.uuid, auction));
+};
+
+// Fetches the given pages in chunks to avoid too many parallel requests.
+const fetchPages = async (pages: number[]): Promise<RawAuctionsPage[]> => {
     const chunkSize = 5;
-    for (let i = 1; i < totalPages; i += chunkSize) {
-        const pagePromises = [];
-        const end = Math.min(i + chunkSize, totalPages);
-        for (let j = i; j < end; j++) {
-            pagePromises.push(
-                fetch(`${API_BASE_URL}/auctions?page=${j}`)
-                .then(res => res.json())
-                .catch(e => {
-                    console.warn(`Failed to fetch auction page ${j}:`, e);
-                    return null; // Continue even if one page fails
-                })
-            );
-        }
-        
-        const pagesData = await Promise.all(pagePromises);
-        pagesData.forEach(page => {
-          if (page && page.success) {
-            allAuctions = allAuctions.concat(page.auctions);
-          }
+    const results: RawAuctionsPage[] = [];
+    for (let i = 0; i < pages.length; i += chunkSize) {
+        reportSyncProgress(i, pages.length);
+        const pagesData = await Promise.all(pages.slice(i, i + chunkSize).map(page =>
+            client.getAuctionsPage(page).catch(e => {
+                console.warn(`Failed to fetch auction page ${page}:`, e);
+                return null; // Continue even if one page fails
+            })
+        ));
+        pagesData.forEach(page => { if (page) results.push(page); });
+    }
+    return results;
+};
+
+const rebuildIndex = async (firstPage: RawAuctionsPage, generation: number): Promise<void> => {
+    const otherPages = Array.from({ length: firstPage.totalPages - 1 }, (_, i) => i + 1);
+    const pages = [firstPage, ...await fetchPages(otherPages)];
+
+    assertCurrentClient(generation);
+    auctionIndex.clear();
+    for (const page of pages) {
+        await addToIndex(page.auctions, generation);
+    }
+    indexLastFullScan = Date.now();
+};
+
+const applyEndedAuctions = (ended: RawEndedAuction[]): void => {
+    ended.forEach(sale => auctionIndex.delete(sale.auction_id));
+};
+
+// New listings show up at the front of the page list, so we walk forward until a page has nothing new.
+const applyNewAuctions = async (firstPage: RawAuctionsPage, since: number, generation: number): Promise<void> => {
+    let page: RawAuctionsPage | null = firstPage;
+    while (page) {
+        const fresh = page.auctions.filter(auc => auc.start > since);
+        if (fresh.length === 0) break;
+        await addToIndex(fresh, generation);
+        const next = page.page + 1;
+        page = next < firstPage.totalPages ? await client.getAuctionsPage(next) : null;
+    }
+};
+
+const pruneExpired = (now: number): void => {
+    for (const [uuid, auction] of auctionIndex) {
+        if (auction.end <= now) auctionIndex.delete(uuid);
+    }
+};
+
+/**
+ * Brings the in-memory auction index up to date with the API and returns every active BIN.
+ * The first call (and one every few minutes) scans all pages; later calls only apply
+ * new listings and the removals reported by `auctions_ended`.
+ */
+export const syncAuctionIndex = (onProgress?: (progress: ScanProgress) => void): Promise<DecodedAuction[]> => {
+    if (onProgress) syncProgressListeners.add(onProgress);
+    // Views refreshing at the same time share one sync instead of racing on the index.
+    if (!syncInFlight) {
+        const sync: Promise<DecodedAuction[]> = runIndexSync().finally(() => {
+            if (syncInFlight !== sync) return; // Dropped by a client switch; a newer sync may be running
+            syncInFlight = null;
+            syncProgressListeners.clear();
         });
+        syncInFlight = sync;
     }
+    return syncInFlight;
+};
 
-    return allAuctions;
-}
+const runIndexSync = async (): Promise<DecodedAuction[]> => {
+    const generation = clientGeneration;
+    const firstPage = await client.getAuctionsPage(0);
+    assertCurrentClient(generation);
+
+    if (firstPage.lastUpdated !== indexLastUpdated) {
+        const missedUpdates = firstPage.lastUpdated - indexLastUpdated > ENDED_WINDOW;
+        const rescanDue = Date.now() - indexLastFullScan > FULL_RESCAN_INTERVAL;
+
+        // Sales are recorded first, while the sold listings are still in the index.
+        const ended = await client.getEndedAuctions();
+        assertCurrentClient(generation);
+        await recordSales(ended, generation);
+        assertCurrentClient(generation);
+        if (indexLastUpdated === 0 || missedUpdates || rescanDue) {
+            await rebuildIndex(firstPage, generation);
+        } else {
+            applyEndedAuctions(ended.auctions);
+            await applyNewAuctions(firstPage, indexLastUpdated, generation);
+        }
+        pruneExpired(firstPage.lastUpdated);
+        indexLastUpdated = firstPage.lastUpdated;
+    }
+
+    return Array.from(auctionIndex.values());
+};
+
+// --- RECENT SALES ---
+// BIN sales reported by `auctions_ended`, kept for sales-based pricing and sales velocity.
+// Only sales seen while the app is running are known, so the buffer fills up over the first
+// hours; `startSalesTracking` keeps polling the endpoint between auction scans.
+
+interface RecentSale extends ComparableItem, ObservedSale {}
+
+const SALES_RETENTION = 48 * 60 * 60 * 1000;
+const recentSales = new Map<string, RecentSale>(); // auction id -> sale
+let salesObservedSince = 0; // Start of the period covered by the recorded sales
+let salesLastUpdated = 0;
+
+const recordSales = async (ended: RawEndedAuctionsResponse, generation: number): Promise<void> => {
+    const coveredFrom = Math.min(ended.lastUpdated - ENDED_WINDOW, ...ended.auctions.map(sale => sale.timestamp));
+    if (salesObservedSince === 0 || coveredFrom < salesObservedSince) salesObservedSince = coveredFrom;
+    salesLastUpdated = Math.max(salesLastUpdated, ended.lastUpdated);
+
+    const fresh = ended.auctions.filter(sale => sale.bin && !recentSales.has(sale.auction_id));
+    await Promise.all(fresh.map(async sale => {
+        try {
+            const item = await decodeItem(sale.item_bytes);
+            if (!item || generation !== clientGeneration) return;
+            recentSales.set(sale.auction_id, {
+                itemId: resolveItemId(item.attributes),
+                item_name: item.displayName,
+                attributes: item.attributes,
+                price: sale.price,
+                timestamp: sale.timestamp,
+                listedAt: auctionIndex.get(sale.auction_id)?.start,
+            });
+        } catch (e) {
+            console.warn(`Failed to decode item bytes for sale ${sale.auction_id}:`, e);
+        }
+    }));
+    for (const [auctionId, sale] of recentSales) {
+        if (salesLastUpdated - sale.timestamp > SALES_RETENTION) recentSales.delete(auctionId);
+    }
+};
+
+// Files each recent sale under every comparable key it belongs to, like a listing.
+const groupRecentSales = (config: ComparableConfig): Map<string, ObservedSale[]> => {
+    const byKey = new Map<string, ObservedSale[]>();
+    for (const sale of recentSales.values()) {
+        for (const key of buildComparableKeys(sale, config)) {
+            if (!byKey.has(key)) byKey.set(key, []);
+            byKey.get(key)!.push({ price: sale.price, timestamp: sale.timestamp, listedAt: sale.listedAt });
+        }
+    }
+    return byKey;
+};
+
+/**
+ * Polls `auctions_ended` once per window so no sale is missed while no scan is running.
+ * Returns a function that stops polling.
+ */
+export const startSalesTracking = (): (() => void) => {
+    const poll = () => {
+        const generation = clientGeneration;
+        return client.getEndedAuctions()
+            .then(ended => generation === clientGeneration ? recordSales(ended, generation) : undefined)
+            .catch(e => console.warn('Failed to poll ended auctions:', e));
+    };
+    poll();
+    const intervalId = setInterval(poll, ENDED_WINDOW);
+    return () => clearInterval(intervalId);
+};
 
 // --- AI-POWERED ANALYSIS LOGIC ---
 export interface ItemForAnalysis {
   id: string;
+  itemId: string;
   name: string;
   lore: string;
   rarity: Rarity;
   price: number;
 }
 
-export const fetchItemsForAnalysis = async (maxItems: number = 15): Promise<ItemForAnalysis[]> => {
-    const allAuctions = await fetchAllAuctionPages(10); // Fetch fewer pages for this analysis
-    const activeBins = allAuctions.filter(auc => auc.bin && !auc.claimed);
+export const fetchItemsForAnalysis = async (maxItems: number = 15, options: ScanOptions = {}): Promise<ItemForAnalysis[]> => {
+    const activeBins = await syncAuctionIndex(options.onProgress);
+    options.signal?.throwIfAborted();
 
-    // Group auctions by normalized name to find the lowest BIN for each
-    const itemMap = new Map<string, RawAuction>();
+    // Group auctions by item id to find the lowest BIN for each
+    const itemMap = new Map<string, DecodedAuction>();
     activeBins.forEach(auction => {
-        const normalizedName = normalizeAuctionName(auction.item_name);
-        const existing = itemMap.get(normalizedName);
+        const existing = itemMap.get(auction.itemId);
         if (!existing || auction.starting_bid < existing.starting_bid) {
-            itemMap.set(normalizedName, auction);
+            itemMap.set(auction.itemId, auction);
         }
     });
 
     // Filter for interesting items to send to the AI
+    const isAllowed = await buildItemFilter(options.itemLists ?? EMPTY_ITEM_LISTS);
     const candidates = Array.from(itemMap.values()).filter(auc => {
+        if (!isAllowed({ itemId: auc.itemId, name: normalizeAuctionName(auc.item_name), rarity: auc.tier })) return false;
         const isHighRarity = [Rarity.EPIC, Rarity.LEGENDARY, Rarity.MYTHIC].includes(auc.tier);
         const hasLore = auc.item_lore && auc.item_lore.length > 50; // Ensure item has substantial lore/stats
         const isDecentPrice = auc.starting_bid > 250000;
@@ -288,6 +714,7 @@ export const fetchItemsForAnalysis = async (maxItems: number = 15): Promise<Item
     
     return sortedCandidates.slice(0, maxItems).map(auc => ({
         id: auc.uuid,
+        itemId: auc.itemId,
         name: normalizeAuctionName(auc.item_name),
         lore: auc.item_lore,
         rarity: auc.tier,
@@ -296,59 +723,105 @@ export const fetchItemsForAnalysis = async (maxItems: number = 15): Promise<Item
 };
 
 // --- CRAFTING FLIP LOGIC ---
-const CRAFT_PROFIT_THRESHOLD = 100000;
 
+// Loads the recipe database, treating a missing bundle as an empty database.
+const loadRecipesOrEmpty = async (): Promise<RecipeDatabase> => {
+    try {
+        return await loadRecipeDatabase();
+    } catch (e) {
+        console.warn('No recipe database available, crafting flips will rely on the AI fallback:', e);
+        return new Map();
+    }
+};
+
+export interface CraftingOptions {
+    fees?: FeeSettings;
+    useAiFallback?: boolean; // Ask the AI for recipes missing from the database
+    refreshRecipes?: boolean; // Ask again instead of using cached AI recipes
+    useBuyOrders?: boolean; // Let ingredients be priced at buy order instead of insta-buy prices
+    signal?: AbortSignal; // Cancels pending AI recipe requests
+    onFlip?: (flip: CraftingFlip) => void; // Called for each profitable flip as soon as it is found
+    settings?: ScannerSettings; // Flip thresholds, the defaults unless given
+    itemLists?: ItemLists; // Items to skip before any recipe is looked up
+}
+
+/**
+ * Finds items that are cheaper to craft from bazaar materials than to buy on the AH.
+ * Recipes come from the local recipe database; items missing from it are only analyzed
+ * when `useAiFallback` is set, in which case the AI is asked for the recipe through the
+ * shared analysis queue. Every intermediate ingredient is bought or crafted, whichever is cheaper.
+ */
 export const fetchCraftingFlips = async (
     itemsToAnalyze: ItemForAnalysis[],
-    progressCallback: (progress: number) => void
+    progressCallback: (progress: number) => void,
+    options: CraftingOptions = {}
 ): Promise<CraftingFlip[]> => {
-    const bazaarPrices = await fetchBazaarPrices();
+    const {
+        fees = DEFAULT_FEE_SETTINGS, useAiFallback = false, useBuyOrders = true, refreshRecipes = false, signal, onFlip,
+        settings = DEFAULT_SCANNER_SETTINGS, itemLists = EMPTY_ITEM_LISTS,
+    } = options;
+    const [bazaarPrices, recipes, isAllowed] = await Promise.all([fetchBazaarPrices(), loadRecipesOrEmpty(), buildItemFilter(itemLists)]);
+    signal?.throwIfAborted();
+    const allowedItems = itemsToAnalyze.filter(item => isAllowed({ itemId: item.itemId, name: item.name, rarity: item.rarity }));
     const craftingFlips: CraftingFlip[] = [];
 
-    let processedCount = 0;
-
-    for (const item of itemsToAnalyze) {
-        const recipeIngredients = await analyzeCraftingRecipe(item.name);
-        processedCount++;
-        progressCallback(Math.round((processedCount / itemsToAnalyze.length) * 100));
-
-        if (recipeIngredients.length === 0) {
-            continue; // Not craftable or AI failed
+    const evaluateItem = async (item: ItemForAnalysis): Promise<CraftingFlip | null> => {
+        let costTree = buildCostTree(item.itemId, recipes, bazaarPrices, { useBuyOrders });
+        let recipeSource: CraftingFlip['recipeSource'] = 'database';
+        let recipeCacheHit: boolean | undefined;
+        if (!costTree && useAiFallback && !recipes.has(item.itemId)) {
+            const analysis = await analyzeCraftingRecipe({ name: item.name, rarity: item.rarity }, { refresh: refreshRecipes, signal });
+            if (analysis.result.length > 0) {
+                costTree = buildCostTree(item.itemId, recipes, bazaarPrices, { useBuyOrders, rootRecipe: analysis.result });
+                recipeSource = 'ai';
+                recipeCacheHit = analysis.cacheHit;
+            }
         }
 
-        let craftCost = 0;
-        let isCraftable = true;
-        const recipeForDisplay: Ingredient[] = [];
-
-        for (const ingredient of recipeIngredients) {
-            const materialInfo = bazaarPrices.get(ingredient.ingredientId);
-            if (!materialInfo) {
-                isCraftable = false; // A material isn't on the bazaar
-                break;
-            }
-            craftCost += materialInfo.price * ingredient.quantity;
-            recipeForDisplay.push({
-                id: ingredient.ingredientId,
-                name: materialInfo.name,
-                quantity: ingredient.quantity,
-            });
+        if (!costTree || costTree.totalCost <= 0) {
+            return null; // Not craftable, no recipe known, or a material can't be sourced
         }
 
-        if (isCraftable && craftCost > 0) {
-            const profit = (item.price - calculateAhTax(item.price)) - craftCost;
-            if (profit > CRAFT_PROFIT_THRESHOLD) {
-                craftingFlips.push({
-                    id: item.id,
-                    itemName: item.name,
-                    rarity: item.rarity,
-                    marketPrice: item.price,
-                    craftCost: Math.round(craftCost),
-                    profit: Math.round(profit),
-                    recipe: recipeForDisplay
-                });
-            }
+        const craftCost = costTree.totalCost;
+        const grossProfit = item.price - craftCost;
+        const sellFees = calculateAuctionFees(item.price, fees).total;
+        const profit = grossProfit - sellFees;
+        if (profit <= settings.craftMinProfit) return null;
+
+        const recipeForDisplay: Ingredient[] = flattenCostTree(costTree).map(ingredient => ({
+            id: ingredient.ingredientId,
+            name: bazaarPrices.get(ingredient.ingredientId)?.name ?? ingredient.ingredientId,
+            quantity: ingredient.quantity,
+        }));
+
+        return {
+            id: item.id,
+            itemId: item.itemId,
+            itemName: item.name,
+            rarity: item.rarity,
+            marketPrice: item.price,
+            craftCost: Math.round(craftCost),
+            grossProfit: Math.round(grossProfit),
+            fees: Math.round(sellFees),
+            profit: Math.round(profit),
+            recipe: recipeForDisplay,
+            recipeSource,
+            recipeCacheHit,
+            costTree,
+        };
+    };
+
+    // AI lookups are throttled by the analysis queue, so all items can be started at once.
+    let processedCount = 0;
+    await Promise.all(allowedItems.map(async item => {
+        const flip = await evaluateItem(item);
+        processedCount++;
+        progressCallback(Math.round((processedCount / allowedItems.length) * 100));
+        if (flip) {
+            craftingFlips.push(flip);
+            onFlip?.(flip);
         }
-    }
+    }));
 
     return craftingFlips;
 };
@@ -0,0 +1,144 @@
+import { Rarity } from '../types';
+
+// --- ITEM LISTS ---
+// Block and allow lists every finder applies before pricing or analyzing items. An item on the
+// block list is never shown. If the allow list has any rules, only items matching one are shown.
+
+export type ItemRuleKind = 'itemId' | 'name' | 'regex' | 'rarity' | 'category';
+
+export interface ItemRule {
+  kind: ItemRuleKind;
+  value: string;
+}
+
+export interface ItemLists {
+  block: ItemRule[];
+  allow: ItemRule[];
+}
+
+export const EMPTY_ITEM_LISTS: ItemLists = { block: [], allow: [] };
+
+// What the rules are matched against. Rules for data an item lacks (bazaar products have no
+// rarity, items missing from the items resource have no category) never match it.
+export interface ListedItem {
+  itemId: string;
+  name: string;
+  rarity?: Rarity;
+  category?: string;
+}
+
+export const ITEM_RULE_KINDS: { kind: ItemRuleKind; label: string }[] = [
+  { kind: 'itemId', label: 'Item ID' },
+  { kind: 'name', label: 'Name' },
+  { kind: 'regex', label: 'Name regex' },
+  { kind: 'rarity', label: 'Rarity' },
+  { kind: 'category', label: 'Category' },
+];
+
+// Names are compared without color codes, case or repeated whitespace.
+const normalizeName = (name: string): string => name.replace(/§./g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Returns why a rule cannot be saved, or null if it is valid.
+ */
+export const validateItemRule = (rule: ItemRule): string | null => {
+  if (rule.value.trim() === '') return 'Enter a value';
+  if (rule.kind === 'rarity' && !Object.values(Rarity).includes(rule.value as Rarity)) return 'Unknown rarity';
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.value, 'i');
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  return null;
+};
+
+/**
+ * Compiles one valid rule into a matcher. Also used by the watchlist to match its items.
+ */
+export const compileItemRule = (rule: ItemRule): ((item: ListedItem) => boolean) => {
+  const value = rule.value.trim();
+  switch (rule.kind) {
+    case 'itemId':
+      return item => item.itemId.toUpperCase() === value.toUpperCase();
+    case 'name': {
+      const name = normalizeName(value);
+      return item => normalizeName(item.name) === name;
+    }
+    case 'regex': {
+      const pattern = new RegExp(value, 'i');
+      return item => pattern.test(item.name);
+    }
+    case 'rarity':
+      return item => item.rarity === value;
+    case 'category':
+      return item => item.category?.toUpperCase() === value.toUpperCase();
+  }
+};
+
+const compileList = (rules: ItemRule[]) => {
+  const matchers = rules.filter(rule => !validateItemRule(rule)).map(compileItemRule);
+  return (item: ListedItem) => matchers.some(matches => matches(item));
+};
+
+/**
+ * Compiles the lists into a check that tells whether an item may be shown. Invalid rules are
+ * skipped rather than failing the scan.
+ */
+export const createItemFilter = (lists: ItemLists): ((item: ListedItem) => boolean) => {
+  const isBlocked = compileList(lists.block);
+  const isAllowed = compileList(lists.allow);
+  const hasAllowRules = lists.allow.some(rule => !validateItemRule(rule));
+  return item => !isBlocked(item) && (!hasAllowRules || isAllowed(item));
+};
+
+// Categories come from the items resource, which is only worth fetching if a rule uses them.
+export const usesCategories = (lists: ItemLists): boolean =>
+  [...lists.block, ...lists.allow].some(rule => rule.kind === 'category');
+
+// --- PERSISTENCE ---
+
+const ITEM_LISTS_KEY = 'itemLists';
+
+const listeners = new Set<(lists: ItemLists) => void>();
+
+export const isItemRule = (rule: unknown): rule is ItemRule =>
+  typeof rule === 'object' && rule !== null && 'kind' in rule && 'value' in rule
+  && ITEM_RULE_KINDS.some(({ kind }) => kind === rule.kind) && typeof rule.value === 'string';
+
+export const loadItemLists = (): ItemLists => {
+  try {
+    const stored = localStorage.getItem(ITEM_LISTS_KEY);
+    if (!stored) return EMPTY_ITEM_LISTS;
+    const parsed = JSON.parse(stored);
+    return {
+      block: Array.isArray(parsed.block) ? parsed.block.filter(isItemRule) : [],
+      allow: Array.isArray(parsed.allow) ? parsed.allow.filter(isItemRule) : [],
+    };
+  } catch {
+    return EMPTY_ITEM_LISTS;
+  }
+};
+
+/**
+ * Saves the lists and passes them to every subscribed view. Callers validate new rules first.
+ */
+export const saveItemLists = (lists: ItemLists): void => {
+  localStorage.setItem(ITEM_LISTS_KEY, JSON.stringify(lists));
+  listeners.forEach(listener => listener(lists));
+};
+
+export const subscribeItemLists = (listener: (lists: ItemLists) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Adds an item to the block list by its id, backing the "hide this item" row action.
+ */
+export const blockItem = (itemId: string): void => {
+  const lists = loadItemLists();
+  if (lists.block.some(rule => rule.kind === 'itemId' && rule.value.toUpperCase() === itemId.toUpperCase())) return;
+  saveItemLists({ ...lists, block: [...lists.block, { kind: 'itemId', value: itemId }] });
+};
@@ -0,0 +1,337 @@
+import { PriceStrategyId } from '../types';
+import { calculateAuctionFees, calculateBazaarFees, FeeSettings } from './feeService';
+import { PRICE_STRATEGIES } from './priceStrategyService';
+import { JOURNAL_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// --- FLIP JOURNAL ---
+// Records the flips we actually took: what was bought at what price, and what it sold for.
+// Closed entries give the realized profit, which is compared with what the finder predicted.
+
+export type JournalSource = 'auction' | 'bazaar' | 'bazaarOrder' | 'crafting' | 'trend' | 'manual';
+
+export interface JournalEntry {
+  id: string;
+  source: JournalSource; // Finder the flip was logged from
+  priceStrategy?: PriceStrategyId; // For auction flips, the strategy that priced the flip
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  buyPrice: number; // Per unit
+  boughtAt: number;
+  predictedSellPrice: number; // Per unit, as shown by the finder
+  predictedProfit: number; // For the whole quantity, after fees, as shown by the finder
+  sellPrice: number | null; // Per unit, null while the flip is open
+  sellFees: number | null; // For the whole quantity
+  soldAt: number | null;
+  notes: string;
+}
+
+// What a finder row knows when a buy is logged from it.
+export type JournalBuy = Pick<JournalEntry, 'source' | 'priceStrategy' | 'itemId' | 'itemName' | 'buyPrice' | 'predictedSellPrice'> & {
+  predictedUnitProfit: number; // Net profit per unit, as shown by the finder
+};
+
+export const JOURNAL_SOURCES: Record<JournalSource, string> = {
+  auction: 'Auction flip',
+  bazaar: 'Bazaar flip',
+  bazaarOrder: 'Bazaar orders',
+  crafting: 'Craft',
+  trend: 'Market trend',
+  manual: 'Manual',
+};
+
+export const createJournalEntry = (
+  { predictedUnitProfit, ...buy }: JournalBuy,
+  quantity: number,
+  notes: string = '',
+  boughtAt: number = Date.now()
+): JournalEntry => ({
+  id: crypto.randomUUID(),
+  ...buy,
+  quantity,
+  boughtAt,
+  predictedProfit: predictedUnitProfit * quantity,
+  sellPrice: null,
+  sellFees: null,
+  soldAt: null,
+  notes,
+});
+
+export const isClosed = (entry: JournalEntry): entry is JournalEntry & { sellPrice: number; sellFees: number; soldAt: number } =>
+  entry.sellPrice !== null && entry.sellFees !== null && entry.soldAt !== null;
+
+export const entryCost = (entry: JournalEntry): number => entry.buyPrice * entry.quantity;
+
+/**
+ * Net coins made on a closed flip after the sale fees, or null while it is open.
+ */
+export const realizedProfit = (entry: JournalEntry): number | null =>
+  isClosed(entry) ? entry.sellPrice * entry.quantity - entry.sellFees - entryCost(entry) : null;
+
+export const holdTime = (entry: JournalEntry): number | null => isClosed(entry) ? entry.soldAt - entry.boughtAt : null;
+
+export const realizedRoi = (entry: JournalEntry): number | null => {
+  const profit = realizedProfit(entry);
+  return profit === null || entryCost(entry) === 0 ? null : profit / entryCost(entry);
+};
+
+/**
+ * Fees for selling the whole quantity at `sellPrice` each, pre-filled when recording a sale.
+ * Bazaar flips pay the sales tax; everything else is sold as one BIN auction per unit.
+ */
+export const estimateSaleFees = (source: JournalSource, sellPrice: number, quantity: number, fees: FeeSettings): number =>
+  source === 'bazaar' || source === 'bazaarOrder'
+    ? calculateBazaarFees(sellPrice * quantity, fees).total
+    : calculateAuctionFees(sellPrice, fees).total * quantity;
+
+/**
+ * A price as the dialogs pre-fill it. Bazaar prices move in steps of 0.1 coins, so whole coins
+ * would misstate cheap products; one decimal keeps them exact and auction prices unchanged.
+ */
+export const priceInputValue = (price: number): string => String(Math.round(price * 10) / 10);
+
+export const closeJournalEntry = (entry: JournalEntry, sellPrice: number, sellFees: number, soldAt: number = Date.now()): JournalEntry =>
+  ({ ...entry, sellPrice, sellFees, soldAt });
+
+// --- SUMMARIES ---
+
+export type SummaryPeriod = 'day' | 'week';
+
+export interface PeriodSummary {
+  periodStart: number; // Local midnight the day or the Monday starts at
+  flips: number;
+  invested: number;
+  realizedProfit: number;
+  roi: number;
+}
+
+export const periodStart = (timestamp: number, period: SummaryPeriod): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  return date.getTime();
+};
+
+/**
+ * Realized profit of the closed flips grouped by the day or week they sold in, newest first.
+ */
+export const summarizeByPeriod = (entries: JournalEntry[], period: SummaryPeriod): PeriodSummary[] => {
+  const summaries = new Map<number, PeriodSummary>();
+  for (const entry of entries) {
+    if (!isClosed(entry)) continue;
+    const start = periodStart(entry.soldAt, period);
+    const summary = summaries.get(start) ?? { periodStart: start, flips: 0, invested: 0, realizedProfit: 0, roi: 0 };
+    summary.flips++;
+    summary.invested += entryCost(entry);
+    summary.realizedProfit += realizedProfit(entry)!;
+    summaries.set(start, summary);
+  }
+  return [...summaries.values()]
+    .map(summary => ({ ...summary, roi: summary.invested > 0 ? summary.realizedProfit / summary.invested : 0 }))
+    .sort((a, b) => b.periodStart - a.periodStart);
+};
+
+export interface StrategySummary {
+  strategy: string; // Source, plus the price strategy for auction flips
+  label: string;
+  flips: number;
+  predictedProfit: number;
+  realizedProfit: number;
+  accuracy: number | null; // realized / predicted, null when nothing was predicted
+  averageHoldTime: number;
+}
+
+const strategyOf = (entry: JournalEntry): { strategy: string; label: string } =>
+  entry.source === 'auction' && entry.priceStrategy
+    ? { strategy: `auction:${entry.priceStrategy}`, label: `${JOURNAL_SOURCES.auction} (${PRICE_STRATEGIES[entry.priceStrategy]?.label ?? entry.priceStrategy})` }
+    : { strategy: entry.source, label: JOURNAL_SOURCES[entry.source] };
+
+/**
+ * Predicted against realized profit of the closed flips, per strategy that found them.
+ */
+export const compareStrategies = (entries: JournalEntry[]): StrategySummary[] => {
+  const summaries = new Map<string, StrategySummary & { totalHoldTime: number }>();
+  for (const entry of entries) {
+    if (!isClosed(entry)) continue;
+    const { strategy, label } = strategyOf(entry);
+    const summary = summaries.get(strategy)
+      ?? { strategy, label, flips: 0, predictedProfit: 0, realizedProfit: 0, accuracy: null, averageHoldTime: 0, totalHoldTime: 0 };
+    summary.flips++;
+    summary.predictedProfit += entry.predictedProfit;
+    summary.realizedProfit += realizedProfit(entry)!;
+    summary.totalHoldTime += holdTime(entry)!;
+    summaries.set(strategy, summary);
+  }
+  return [...summaries.values()]
+    .map(({ totalHoldTime, ...summary }) => ({
+      ...summary,
+      accuracy: summary.predictedProfit !== 0 ? summary.realizedProfit / summary.predictedProfit : null,
+      averageHoldTime: totalHoldTime / summary.flips,
+    }))
+    .sort((a, b) => b.realizedProfit - a.realizedProfit);
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  'id', 'source', 'priceStrategy', 'itemId', 'itemName', 'quantity', 'buyPrice', 'boughtAt',
+  'predictedSellPrice', 'predictedProfit', 'sellPrice', 'sellFees', 'soldAt', 'notes',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const TIMESTAMP_COLUMNS: CsvColumn[] = ['boughtAt', 'soldAt'];
+
+const quoteCsv = (value: string): string => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Journal as CSV, one row per entry, with ISO timestamps so it opens cleanly in a spreadsheet.
+ */
+export const journalToCsv = (entries: JournalEntry[]): string => {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    if (value === null || value === undefined) return '';
+    if (TIMESTAMP_COLUMNS.includes(column)) return new Date(value as number).toISOString();
+    return quoteCsv(String(value));
+  }).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+// Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+/**
+ * Reads entries back from `journalToCsv` output. Throws with the offending line if a row is
+ * malformed, so a bad file imports nothing rather than half of it.
+ */
+export const parseJournalCsv = (text: string): JournalEntry[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) throw new Error('The file is empty');
+  const missing = CSV_COLUMNS.filter(column => column !== 'priceStrategy' && column !== 'notes' && !header.includes(column));
+  if (missing.length > 0) throw new Error(`Missing columns: ${missing.join(', ')}`);
+
+  return rows.map((fields, index) => {
+    const line = index + 2;
+    const get = (column: CsvColumn) => (fields[header.indexOf(column)] ?? '').trim();
+    const fail = (column: CsvColumn): never => { throw new Error(`Line ${line}: invalid ${column} "${get(column)}"`); };
+    const number = (column: CsvColumn, min = -Infinity): number => {
+      const value = Number(get(column));
+      return get(column) !== '' && Number.isFinite(value) && value >= min ? value : fail(column);
+    };
+    const price = (column: CsvColumn): number => number(column, 0);
+    const timestamp = (column: CsvColumn): number => {
+      const value = Date.parse(get(column));
+      return Number.isFinite(value) ? value : fail(column);
+    };
+    const optional = <T>(column: CsvColumn, read: (column: CsvColumn) => T): T | null => get(column) === '' ? null : read(column);
+
+    const source = get('source') as JournalSource;
+    if (!Object.hasOwn(JOURNAL_SOURCES, source)) fail('source');
+    const priceStrategy = get('priceStrategy') as PriceStrategyId;
+    if (priceStrategy && !Object.hasOwn(PRICE_STRATEGIES, priceStrategy)) fail('priceStrategy');
+    const quantity = number('quantity', 1);
+    if (!Number.isInteger(quantity)) fail('quantity');
+
+    const entry: JournalEntry = {
+      id: get('id') || crypto.randomUUID(),
+      source,
+      priceStrategy: priceStrategy || undefined,
+      itemId: get('itemId'),
+      itemName: get('itemName') || get('itemId'),
+      quantity,
+      buyPrice: price('buyPrice'),
+      boughtAt: timestamp('boughtAt'),
+      predictedSellPrice: price('predictedSellPrice'),
+      predictedProfit: number('predictedProfit'),
+      sellPrice: optional('sellPrice', price),
+      sellFees: optional('sellFees', price),
+      soldAt: optional('soldAt', timestamp),
+      notes: fields[header.indexOf('notes')] ?? '',
+    };
+    if (!entry.itemId) fail('itemId');
+    if ((entry.sellPrice === null) !== (entry.soldAt === null)) fail(entry.sellPrice === null ? 'sellPrice' : 'soldAt');
+    if (entry.sellPrice !== null && entry.sellFees === null) entry.sellFees = 0;
+    return entry;
+  });
+};
+
+// --- PERSISTENCE ---
+
+const listeners = new Set<(entries: JournalEntry[]) => void>();
+
+/**
+ * Every journal entry, most recent buy first.
+ */
+export const loadJournal = async (): Promise<JournalEntry[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOURNAL_STORE, 'readonly');
+  const entries: JournalEntry[] = await requestToPromise(transaction.objectStore(JOURNAL_STORE).index('boughtAt').getAll());
+  return entries.reverse();
+};
+
+const notifyListeners = async () => {
+  if (listeners.size === 0) return;
+  const entries = await loadJournal();
+  listeners.forEach(listener => listener(entries));
+};
+
+/**
+ * Adds or replaces entries by id. Used for logging buys, recording sales and CSV imports.
+ */
+export const saveJournalEntries = async (entries: JournalEntry[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+  const store = transaction.objectStore(JOURNAL_STORE);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(transaction);
+  await notifyListeners();
+};
+
+export const deleteJournalEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOURNAL_STORE, 'readwrite');
+  transaction.objectStore(JOURNAL_STORE).delete(id);
+  await transactionDone(transaction);
+  await notifyListeners();
+};
+
+export const subscribeJournal = (listener: (entries: JournalEntry[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,295 @@
+import { ExtraAttributes, PetInfo, Rarity } from '../types';
+
+// NBT tag type ids, as defined by the Minecraft binary NBT format.
+const TAG_END = 0;
+const TAG_BYTE = 1;
+const TAG_SHORT = 2;
+const TAG_INT = 3;
+const TAG_LONG = 4;
+const TAG_FLOAT = 5;
+const TAG_DOUBLE = 6;
+const TAG_BYTE_ARRAY = 7;
+const TAG_STRING = 8;
+const TAG_LIST = 9;
+const TAG_COMPOUND = 10;
+const TAG_INT_ARRAY = 11;
+const TAG_LONG_ARRAY = 12;
+
+export type NbtValue = number | string | number[] | NbtValue[] | NbtCompound;
+export interface NbtCompound {
+  [key: string]: NbtValue;
+}
+
+const RARITY_ORDER: Rarity[] = [
+  Rarity.COMMON,
+  Rarity.UNCOMMON,
+  Rarity.RARE,
+  Rarity.EPIC,
+  Rarity.LEGENDARY,
+  Rarity.MYTHIC,
+];
+
+// --- BINARY READER ---
+
+class NbtReader {
+  private offset = 0;
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder('utf-8');
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readTagType(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  readString(): string {
+    const length = this.view.getUint16(this.offset);
+    this.offset += 2;
+    const value = this.decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  readPayload(type: number): NbtValue {
+    switch (type) {
+      case TAG_BYTE:
+        return this.view.getInt8(this.offset++);
+      case TAG_SHORT: {
+        const value = this.view.getInt16(this.offset);
+        this.offset += 2;
+        return value;
+      }
+      case TAG_INT: {
+        const value = this.view.getInt32(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case TAG_LONG: {
+        // Longs are only used for timestamps and uuids' halves here, so a lossy number is fine.
+        const value = Number(this.view.getBigInt64(this.offset));
+        this.offset += 8;
+        return value;
+      }
+      case TAG_FLOAT: {
+        const value = this.view.getFloat32(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case TAG_DOUBLE: {
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case TAG_BYTE_ARRAY:
+        return this.readArray(TAG_BYTE);
+      case TAG_STRING:
+        return this.readString();
+      case TAG_LIST: {
+        const itemType = this.readTagType();
+        const length = this.readInt();
+        const list: NbtValue[] = [];
+        for (let i = 0; i < length; i++) {
+          list.push(this.readPayload(itemType));
+        }
+        return list;
+      }
+      case TAG_COMPOUND:
+        return this.readCompound();
+      case TAG_INT_ARRAY:
+        return this.readArray(TAG_INT);
+      case TAG_LONG_ARRAY:
+        return this.readArray(TAG_LONG);
+      default:
+        throw new Error(`Unknown NBT tag type ${type} at offset ${this.offset}`);
+    }
+  }
+
+  readCompound(): NbtCompound {
+    const compound: NbtCompound = {};
+    for (;;) {
+      const type = this.readTagType();
+      if (type === TAG_END) return compound;
+      const name = this.readString();
+      compound[name] = this.readPayload(type);
+    }
+  }
+
+  private readInt(): number {
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private readArray(itemType: number): number[] {
+    const length = this.readInt();
+    const values: number[] = [];
+    for (let i = 0; i < length; i++) {
+      values.push(this.readPayload(itemType) as number);
+    }
+    return values;
+  }
+}
+
+// --- DECODING ---
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const gunzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Decodes a base64-encoded, gzipped NBT blob (the format of `item_bytes` on the
+ * auctions endpoints) into its root compound.
+ */
+export const decodeNbt = async (base64: string): Promise<NbtCompound> => {
+  const bytes = await gunzip(base64ToBytes(base64));
+  const reader = new NbtReader(bytes);
+  const rootType = reader.readTagType();
+  if (rootType !== TAG_COMPOUND) {
+    throw new Error(`Expected root NBT compound, got tag type ${rootType}`);
+  }
+  reader.readString(); // The root name is always empty
+  return reader.readCompound();
+};
+
+const asNumber = (value: NbtValue | undefined): number | undefined =>
+  typeof value === 'number' ? value : undefined;
+
+const asString = (value: NbtValue | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const asCompound = (value: NbtValue | undefined): NbtCompound | undefined =>
+  value !== undefined && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Parses the `petInfo` JSON string. Pets without a string `type` and `tier` cannot be keyed,
+ * so they parse to undefined; the tier is kept as-is since newer tiers are not in `Rarity`.
+ */
+const parsePetInfo = (raw: string | undefined): PetInfo | undefined => {
+  if (!raw) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (!isObject(parsed) || typeof parsed.type !== 'string' || typeof parsed.tier !== 'string') return undefined;
+  return {
+    type: parsed.type,
+    tier: parsed.tier as Rarity,
+    exp: optionalNumber(parsed.exp) ?? 0,
+    active: !!parsed.active,
+    candyUsed: optionalNumber(parsed.candyUsed) ?? 0,
+    heldItem: optionalString(parsed.heldItem),
+    skin: optionalString(parsed.skin),
+  };
+};
+
+/**
+ * Converts the raw `ExtraAttributes` compound into our typed model.
+ * Unknown keys are dropped; missing counters default to 0.
+ */
+export const toExtraAttributes = (raw: NbtCompound): ExtraAttributes => {
+  const enchantments: Record<string, number> = {};
+  const rawEnchantments = asCompound(raw.enchantments);
+  if (rawEnchantments) {
+    for (const [name, level] of Object.entries(rawEnchantments)) {
+      if (typeof level === 'number') enchantments[name] = level;
+    }
+  }
+
+  const gems: Record<string, string> = {};
+  const rawGems = asCompound(raw.gems);
+  if (rawGems) {
+    for (const [slot, value] of Object.entries(rawGems)) {
+      // Gem slots are either a plain quality string or a compound with a `quality` key.
+      const quality = asString(value) ?? asString(asCompound(value)?.quality);
+      if (quality) gems[slot] = quality;
+    }
+  }
+
+  return {
+    id: asString(raw.id) ?? 'UNKNOWN',
+    uuid: asString(raw.uuid),
+    enchantments,
+    modifier: asString(raw.modifier),
+    hot_potato_count: asNumber(raw.hot_potato_count) ?? 0,
+    rarity_upgrades: asNumber(raw.rarity_upgrades) ?? 0,
+    // Older dungeon items store their stars as `dungeon_item_level`.
+    upgrade_level: asNumber(raw.upgrade_level) ?? asNumber(raw.dungeon_item_level) ?? 0,
+    gems,
+    skin: asString(raw.skin),
+    petInfo: parsePetInfo(asString(raw.petInfo)),
+  };
+};
+
+export interface DecodedItem {
+  attributes: ExtraAttributes;
+  displayName: string; // Name as shown in game, with colour codes
+}
+
+/**
+ * Decodes an auction's `item_bytes` and returns the (single) item in it.
+ * @returns The item, or null if the blob carries no SkyBlock item.
+ */
+export const decodeItem = async (itemBytes: string): Promise<DecodedItem | null> => {
+  const root = await decodeNbt(itemBytes);
+  const items = root.i;
+  if (!Array.isArray(items) || items.length === 0) return null;
+
+  const tag = asCompound(asCompound(items[0])?.tag);
+  const extra = asCompound(tag?.ExtraAttributes);
+  if (!extra) return null;
+  return {
+    attributes: toExtraAttributes(extra),
+    displayName: asString(asCompound(tag?.display)?.Name) ?? '',
+  };
+};
+
+/**
+ * Decodes an auction's `item_bytes` and returns the `ExtraAttributes` of the (single) item in it.
+ * @returns The typed attributes, or null if the blob carries no SkyBlock item.
+ */
+export const decodeItemBytes = async (itemBytes: string): Promise<ExtraAttributes | null> =>
+  (await decodeItem(itemBytes))?.attributes ?? null;
+
+/**
+ * Returns the id we group items by. This is the raw SkyBlock `id` except for the
+ * generic containers, which use the NEU convention instead:
+ * pets become `TYPE;RARITY_INDEX` and single-enchant books become `ENCHANT;LEVEL`.
+ */
+export const resolveItemId = (attributes: ExtraAttributes): string => {
+  if (attributes.id === 'PET' && attributes.petInfo) {
+    const tierIndex = RARITY_ORDER.indexOf(attributes.petInfo.tier);
+    // Tiers NEU has no index for (SPECIAL, or ones added later) keep their name instead.
+    return `${attributes.petInfo.type};${tierIndex === -1 ? attributes.petInfo.tier : tierIndex}`;
+  }
+  if (attributes.id === 'ENCHANTED_BOOK') {
+    const enchants = Object.entries(attributes.enchantments);
+    if (enchants.length === 1) {
+      const [name, level] = enchants[0];
+      return `${name.toUpperCase()};${level}`;
+    }
+  }
+  return attributes.id;
+};
@@ -0,0 +1,167 @@
+import { AuctionFlip, BazaarFlip, CraftingFlip } from '../types';
+
+// --- PORTFOLIO PLANNER ---
+// Picks which flips to take together with a limited purse. Every candidate is valued at its
+// expected profit: the profit discounted by how likely it is to sell within the planning horizon.
+
+export type PortfolioSource = 'auction' | 'bazaar' | 'crafting';
+
+export interface PortfolioCandidate {
+  key: string;
+  source: PortfolioSource;
+  itemId: string;
+  itemName: string;
+  unitCost: number; // Coins tied up per unit
+  unitProfit: number; // Net profit per unit if it sells
+  maxUnits: number; // 1 for auctions and crafts; bazaar flips are capped by the traded volume
+  usesAuctionSlot: boolean; // Resold through the auction house, taking one listing slot per unit
+  sellProbability: number; // 0-1, chance a unit sells within the horizon
+}
+
+export interface PortfolioOptions {
+  budget: number; // Purse to spend
+  auctionSlots: number; // Free auction house listing slots
+  maxItemShare: number; // 0-1, most of the budget a single item may take
+  horizonHours: number; // How long we are willing to wait for sales
+}
+
+export const DEFAULT_PORTFOLIO_OPTIONS: PortfolioOptions = {
+  budget: 10_000_000,
+  auctionSlots: 14,
+  maxItemShare: 0.25,
+  horizonHours: 24,
+};
+
+export interface PortfolioPick {
+  candidate: PortfolioCandidate;
+  units: number;
+  cost: number;
+  expectedProfit: number;
+}
+
+export interface PortfolioPlan {
+  picks: PortfolioPick[];
+  totalCost: number;
+  expectedProfit: number;
+  roi: number; // expectedProfit / totalCost
+  slotsUsed: number;
+}
+
+const HOURS_PER_WEEK = 168;
+// Share of an item's hourly bazaar volume we assume we can trade without moving the price.
+const BAZAAR_VOLUME_SHARE = 0.1;
+// Crafted items, and auction buckets with no sale seen yet (e.g. right after startup), have no
+// sales data, so they are assumed to sell half the time.
+const UNKNOWN_SELL_PROBABILITY = 0.5;
+
+// Chance of at least one sale in the horizon for sales arriving at `salesPerHour`, a Poisson process.
+const sellProbabilityFromRate = (salesPerHour: number, horizonHours: number): number =>
+  1 - Math.exp(-salesPerHour * horizonHours);
+
+export const auctionPortfolioCandidates = (flips: AuctionFlip[], horizonHours: number): PortfolioCandidate[] => flips.map(flip => ({
+  key: `auction:${flip.id}`,
+  source: 'auction',
+  itemId: flip.itemId,
+  itemName: flip.itemName,
+  unitCost: flip.lowestBin,
+  unitProfit: flip.profit,
+  maxUnits: 1,
+  usesAuctionSlot: true,
+  // A shaky market price makes the profit itself uncertain, so confidence discounts it too.
+  sellProbability: (flip.salesPerHour === 0 ? UNKNOWN_SELL_PROBABILITY : sellProbabilityFromRate(flip.salesPerHour, horizonHours)) * flip.confidence,
+}));
+
+export const bazaarPortfolioCandidates = (flips: BazaarFlip[], horizonHours: number): PortfolioCandidate[] => flips.map(flip => ({
+  key: `bazaar:${flip.id}`,
+  source: 'bazaar',
+  itemId: flip.id,
+  itemName: flip.itemName,
+  unitCost: flip.buyPrice,
+  unitProfit: flip.profit,
+  maxUnits: Math.floor(Math.min(flip.buyVolume, flip.sellVolume) / HOURS_PER_WEEK * horizonHours * BAZAAR_VOLUME_SHARE),
+  usesAuctionSlot: false,
+  sellProbability: 1, // Instant flips sell into standing buy orders
+}));
+
+export const craftingPortfolioCandidates = (flips: CraftingFlip[]): PortfolioCandidate[] => flips.map(flip => ({
+  key: `crafting:${flip.id}`,
+  source: 'crafting',
+  itemId: flip.itemId,
+  itemName: flip.itemName,
+  unitCost: flip.craftCost,
+  unitProfit: flip.profit,
+  maxUnits: 1,
+  usesAuctionSlot: true,
+  sellProbability: UNKNOWN_SELL_PROBABILITY,
+}));
+
+const expectedUnitProfit = (candidate: PortfolioCandidate) => candidate.unitProfit * candidate.sellProbability;
+
+// Greedy pass over candidates in the given order, taking as many units of each as every
+// constraint allows.
+const fillGreedy = (candidates: PortfolioCandidate[], options: PortfolioOptions): PortfolioPlan => {
+  const itemCap = options.budget * options.maxItemShare;
+  const spentByItem = new Map<string, number>();
+  const picks: PortfolioPick[] = [];
+  let totalCost = 0;
+  let slotsUsed = 0;
+
+  for (const candidate of candidates) {
+    const byBudget = Math.floor((options.budget - totalCost) / candidate.unitCost);
+    const byItemCap = Math.floor((itemCap - (spentByItem.get(candidate.itemId) ?? 0)) / candidate.unitCost);
+    const bySlots = candidate.usesAuctionSlot ? options.auctionSlots - slotsUsed : Infinity;
+    const units = Math.min(candidate.maxUnits, byBudget, byItemCap, bySlots);
+    if (units <= 0) continue;
+
+    const cost = units * candidate.unitCost;
+    picks.push({ candidate, units, cost, expectedProfit: units * expectedUnitProfit(candidate) });
+    totalCost += cost;
+    spentByItem.set(candidate.itemId, (spentByItem.get(candidate.itemId) ?? 0) + cost);
+    if (candidate.usesAuctionSlot) slotsUsed += units;
+  }
+
+  const expectedProfit = picks.reduce((sum, pick) => sum + pick.expectedProfit, 0);
+  return { picks, totalCost, expectedProfit, roi: totalCost > 0 ? expectedProfit / totalCost : 0, slotsUsed };
+};
+
+/**
+ * Chooses the flips with the most expected profit that fit the budget, the free auction slots
+ * and the per-item cap. This is a knapsack with two limits, so instead of solving it exactly the
+ * planner runs a greedy fill under a few orderings (return on coins, return on coins and slots
+ * together, and raw profit) and keeps the best plan.
+ */
+export const planPortfolio = (candidates: PortfolioCandidate[], options: PortfolioOptions = DEFAULT_PORTFOLIO_OPTIONS): PortfolioPlan => {
+  const usable = candidates.filter(candidate =>
+    candidate.unitCost > 0 && candidate.maxUnits > 0 && expectedUnitProfit(candidate) > 0);
+
+  // Share of each scarce resource one unit uses, so coins and slots can be weighed together.
+  const resourceShare = (candidate: PortfolioCandidate) =>
+    candidate.unitCost / options.budget + (candidate.usesAuctionSlot ? 1 / Math.max(options.auctionSlots, 1) : 0);
+
+  const orderings: ((candidate: PortfolioCandidate) => number)[] = [
+    candidate => expectedUnitProfit(candidate) / candidate.unitCost,
+    candidate => expectedUnitProfit(candidate) / resourceShare(candidate),
+    candidate => expectedUnitProfit(candidate) * candidate.maxUnits,
+  ];
+
+  return orderings
+    .map(score => fillGreedy([...usable].sort((a, b) => score(b) - score(a)), options))
+    .reduce((best, plan) => plan.expectedProfit > best.expectedProfit ? plan : best);
+};
+
+// --- PERSISTENCE ---
+
+const PORTFOLIO_OPTIONS_KEY = 'portfolioOptions';
+
+export const loadPortfolioOptions = (): PortfolioOptions => {
+  try {
+    const stored = localStorage.getItem(PORTFOLIO_OPTIONS_KEY);
+    return stored ? { ...DEFAULT_PORTFOLIO_OPTIONS, ...JSON.parse(stored) } : DEFAULT_PORTFOLIO_OPTIONS;
+  } catch {
+    return DEFAULT_PORTFOLIO_OPTIONS;
+  }
+};
+
+export const savePortfolioOptions = (options: PortfolioOptions): void => {
+  localStorage.setItem(PORTFOLIO_OPTIONS_KEY, JSON.stringify(options));
+};
@@ -0,0 +1,205 @@
+import { openDatabase, PRICE_HISTORY_STORE, requestToPromise, transactionDone } from './db';
+
+// --- PRICE HISTORY STORE ---
+// Each auction and bazaar refresh writes one compact snapshot per item. Old snapshots are
+// merged into coarser buckets by the retention policy so the store stays small.
+
+export type PriceSource = 'auction' | 'bazaar';
+
+export interface AuctionPricePoint {
+  lowestBin: number;
+  marketPrice: number; // Market wall price of the item's comparables
+  listingCount: number;
+}
+
+export interface BazaarPricePoint {
+  buyPrice: number;
+  sellPrice: number;
+  buyVolume: number;
+  sellVolume: number;
+  buyMovingWeek: number;
+  sellMovingWeek: number;
+}
+
+export interface PriceSnapshot {
+  itemId: string;
+  source: PriceSource;
+  timestamp: number; // Start of the bucket for downsampled snapshots
+  resolution: number; // Bucket width in ms, 0 for a raw snapshot
+  samples: number; // Raw snapshots merged into this one
+  auction?: AuctionPricePoint;
+  bazaar?: BazaarPricePoint;
+}
+
+export interface RetentionTier {
+  olderThan: number; // Age in ms after which snapshots are merged
+  resolution: number; // Bucket width they are merged into
+}
+
+export interface RetentionPolicy {
+  tiers: RetentionTier[]; // Ordered by increasing age
+  maxAge: number; // Snapshots older than this are deleted
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  tiers: [
+    { olderThan: 6 * HOUR, resolution: 5 * MINUTE },
+    { olderThan: 2 * DAY, resolution: HOUR },
+  ],
+  maxAge: 30 * DAY,
+};
+
+const RETENTION_RUN_INTERVAL = HOUR;
+let lastRetentionRun = 0;
+
+// --- MERGING ---
+
+const mergePoints = <T extends object>(points: { value: T; weight: number }[]): T => {
+  const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+  const merged: Record<string, number> = {};
+  for (const { value, weight } of points) {
+    for (const [key, field] of Object.entries(value)) {
+      merged[key] = (merged[key] ?? 0) + (field as number) * weight / totalWeight;
+    }
+  }
+  return merged as T;
+};
+
+/**
+ * Merges snapshots of one item and source into buckets of the given width.
+ * Fields are averaged, weighted by how many raw samples each snapshot already holds.
+ */
+export const downsampleSnapshots = (snapshots: PriceSnapshot[], resolution: number): PriceSnapshot[] => {
+  const buckets = new Map<number, PriceSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const bucketStart = Math.floor(snapshot.timestamp / resolution) * resolution;
+    if (!buckets.has(bucketStart)) buckets.set(bucketStart, []);
+    buckets.get(bucketStart)!.push(snapshot);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucketStart, group]) => {
+      const { itemId, source } = group[0];
+      const samples = group.reduce((sum, s) => sum + s.samples, 0);
+      const auctions = group.filter(s => s.auction).map(s => ({ value: s.auction!, weight: s.samples }));
+      const bazaars = group.filter(s => s.bazaar).map(s => ({ value: s.bazaar!, weight: s.samples }));
+      return {
+        itemId,
+        source,
+        timestamp: bucketStart,
+        resolution,
+        samples,
+        auction: auctions.length > 0 ? mergePoints(auctions) : undefined,
+        bazaar: bazaars.length > 0 ? mergePoints(bazaars) : undefined,
+      };
+    });
+};
+
+// --- WRITING ---
+
+const writeSnapshots = async (snapshots: PriceSnapshot[]): Promise<void> => {
+  if (snapshots.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(PRICE_HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(PRICE_HISTORY_STORE);
+  snapshots.forEach(snapshot => store.put(snapshot));
+  await transactionDone(transaction);
+
+  if (Date.now() - lastRetentionRun > RETENTION_RUN_INTERVAL) {
+    lastRetentionRun = Date.now();
+    await applyRetentionPolicy();
+  }
+};
+
+export const recordAuctionSnapshots = (points: Map<string, AuctionPricePoint>, timestamp: number): Promise<void> =>
+  writeSnapshots(Array.from(points.entries()).map(([itemId, auction]) => ({
+    itemId, source: 'auction', timestamp, resolution: 0, samples: 1, auction,
+  })));
+
+export const recordBazaarSnapshots = (points: Map<string, BazaarPricePoint>, timestamp: number): Promise<void> =>
+  writeSnapshots(Array.from(points.entries()).map(([itemId, bazaar]) => ({
+    itemId, source: 'bazaar', timestamp, resolution: 0, samples: 1, bazaar,
+  })));
+
+// --- RETENTION ---
+
+const snapshotGroupKey = (snapshot: PriceSnapshot) => `${snapshot.source}|${snapshot.itemId}`;
+
+/**
+ * Deletes snapshots past `maxAge` and merges older snapshots into the coarser buckets of each tier.
+ */
+export const applyRetentionPolicy = async (policy: RetentionPolicy = DEFAULT_RETENTION_POLICY, now: number = Date.now()): Promise<void> => {
+  const db = await openDatabase();
+
+  {
+    const transaction = db.transaction(PRICE_HISTORY_STORE, 'readwrite');
+    const index = transaction.objectStore(PRICE_HISTORY_STORE).index('timestamp');
+    const expired = await requestToPromise(index.getAllKeys(IDBKeyRange.upperBound(now - policy.maxAge, true)));
+    const store = transaction.objectStore(PRICE_HISTORY_STORE);
+    expired.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  for (const tier of policy.tiers) {
+    const transaction = db.transaction(PRICE_HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(PRICE_HISTORY_STORE);
+    // Only whole buckets are merged, so a bucket never gets rewritten while still filling.
+    const cutoff = Math.floor((now - tier.olderThan) / tier.resolution) * tier.resolution;
+    const candidates: PriceSnapshot[] = await requestToPromise(store.index('timestamp').getAll(IDBKeyRange.upperBound(cutoff, true)));
+    const toMerge = candidates.filter(s => s.resolution < tier.resolution);
+
+    const groups = new Map<string, PriceSnapshot[]>();
+    toMerge.forEach(snapshot => {
+      const key = snapshotGroupKey(snapshot);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(snapshot);
+    });
+
+    for (const group of groups.values()) {
+      group.forEach(s => store.delete([s.itemId, s.source, s.timestamp]));
+      downsampleSnapshots(group, tier.resolution).forEach(s => store.put(s));
+    }
+    await transactionDone(transaction);
+  }
+};
+
+// --- QUERYING ---
+
+export interface PriceHistoryQuery {
+  itemId: string;
+  source: PriceSource;
+  from: number;
+  to: number;
+  resolution?: number; // Bucket width of the result in ms; omit for the stored resolution
+}
+
+export const queryPriceHistory = async (query: PriceHistoryQuery): Promise<PriceSnapshot[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PRICE_HISTORY_STORE, 'readonly');
+  const range = IDBKeyRange.bound([query.itemId, query.source, query.from], [query.itemId, query.source, query.to]);
+  const snapshots: PriceSnapshot[] = await requestToPromise(transaction.objectStore(PRICE_HISTORY_STORE).getAll(range));
+  return query.resolution ? downsampleSnapshots(snapshots, query.resolution) : snapshots;
+};
+
+/**
+ * Every snapshot of one source from `from` up to (not including) `to`, grouped by item id
+ * and ordered oldest first.
+ */
+export const queryRecentPriceHistory = async (source: PriceSource, from: number, to: number = Infinity): Promise<Map<string, PriceSnapshot[]>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PRICE_HISTORY_STORE, 'readonly');
+  const index = transaction.objectStore(PRICE_HISTORY_STORE).index('sourceTimestamp');
+  const snapshots: PriceSnapshot[] = await requestToPromise(index.getAll(IDBKeyRange.bound([source, from], [source, to], false, true)));
+
+  const byItem = new Map<string, PriceSnapshot[]>();
+  for (const snapshot of snapshots) {
+    if (!byItem.has(snapshot.itemId)) byItem.set(snapshot.itemId, []);
+    byItem.get(snapshot.itemId)!.push(snapshot);
+  }
+  return byItem;
+};
@@ -0,0 +1,252 @@
+import { PriceStrategyId } from '../types';
+
+// --- MARKET PRICE STRATEGIES ---
+// Each strategy turns what we know about a comparable bucket (its active listings, recent
+// sales and the item's price history) into a market price and a confidence score between
+// 0 and 1. Confidence grows with the number of samples and shrinks with their spread.
+
+export interface PricedSale {
+  price: number;
+  timestamp: number;
+}
+
+export interface PriceHistoryPoint {
+  timestamp: number;
+  marketPrice: number; // Market wall of the whole item id at that time
+  samples: number; // Raw snapshots merged into this point
+}
+
+export interface PricingInput {
+  buyPrice: number; // The listing we would buy
+  listings: number[]; // Other listings in the bucket, ascending
+  sales: PricedSale[]; // Comparable sales in the bucket
+  history: PriceHistoryPoint[]; // Price history of the item id, oldest first
+  itemMarketPrice: number | null; // Current market wall of the whole item id, the reference for `history`
+  now: number;
+  marketPriceOptions: MarketPriceOptions; // Tuning of the market wall search
+}
+
+export interface PriceEstimate {
+  price: number;
+  confidence: number; // 0-1
+}
+
+export interface PriceStrategy {
+  id: PriceStrategyId;
+  label: string;
+  description: string;
+  historyWindow?: number; // How far back the strategy reads the price history; omitted if it reads none
+  estimate: (input: PricingInput) => PriceEstimate | null;
+}
+
+// --- MARKET WALL ---
+
+export interface MarketPriceOptions {
+    iqrMultiplier: number; // Prices above Q3 + iqrMultiplier * IQR are outliers
+    gapThreshold: number; // Relative price jump that marks the start of the market wall
+}
+
+export const DEFAULT_MARKET_PRICE_OPTIONS: MarketPriceOptions = {
+    iqrMultiplier: 2.0, // Generous, so only extreme outliers are trimmed
+    gapThreshold: 0.08, // 8% price jump is considered significant
+};
+
+/**
+ * Finds a realistic market price for an item by analyzing a list of its auctions.
+ * This method filters outliers and identifies the "wall" where prices stabilize.
+ * @param sortedAuctions The auction to buy followed by its comparables, sorted by price ascending.
+ * @returns The auction representing the market price, or null if one cannot be determined.
+ */
+export const findMarketPriceAuction = <T extends { starting_bid: number }>(
+    sortedAuctions: T[],
+    options: MarketPriceOptions = DEFAULT_MARKET_PRICE_OPTIONS
+): T | null => {
+    // We need at least 3 auctions: one to buy, and two to establish a market price.
+    if (sortedAuctions.length < 3) {
+        // Not enough data for analysis, fallback to 2nd lowest if it exists.
+        return sortedAuctions[1] || null;
+    }
+
+    const marketCandidates = sortedAuctions.slice(1);
+
+    // 1. Outlier removal using IQR to filter unusually high prices.
+    const prices = marketCandidates.map(a => a.starting_bid);
+    const q1Index = Math.floor(prices.length / 4);
+    const q3Index = Math.floor(prices.length * 3 / 4);
+    
+    // Ensure indices are valid, especially for small arrays
+    if (q1Index >= prices.length || q3Index >= prices.length) {
+       return marketCandidates[0] || null; // Not enough data for IQR
+    }
+
+    const q1 = prices[q1Index];
+    const q3 = prices[q3Index];
+    const iqr = q3 - q1;
+
+    const upperBound = q3 + options.iqrMultiplier * iqr;
+
+    const filteredCandidates = marketCandidates.filter(a => a.starting_bid <= upperBound);
+
+    // If filtering was too aggressive, it's safer to just use the 2nd lowest BIN.
+    if (filteredCandidates.length < 2) {
+        return marketCandidates[0] || null;
+    }
+
+    // 2. Find the "market wall" by looking for a significant price jump.
+    // A wall is the start of a dense cluster of prices. We find it by locating the
+    // first large gap between items. The wall starts right after that gap.
+    let wallStartIndex = -1;
+
+    for (let i = 0; i < filteredCandidates.length - 1; i++) {
+        const priceA = filteredCandidates[i].starting_bid;
+        const priceB = filteredCandidates[i+1].starting_bid;
+
+        if (priceA > 0) {
+            const gap = (priceB - priceA) / priceA;
+            if (gap > options.gapThreshold) {
+                wallStartIndex = i + 1;
+                break;
+            }
+        }
+    }
+    
+    if (wallStartIndex !== -1) {
+        // We found a jump, so the market wall is the first item after the jump.
+        return filteredCandidates[wallStartIndex];
+    } else {
+        // No significant jump found, meaning prices are relatively clustered.
+        // The first item in our filtered list is the most reliable floor price.
+        return filteredCandidates[0];
+    }
+};
+
+
+// --- CONFIDENCE ---
+
+const FULL_CONFIDENCE_LISTINGS = 10;
+const FULL_CONFIDENCE_SALES = 5;
+const FULL_CONFIDENCE_HISTORY = 24;
+const DISPERSION_WEIGHT = 2; // A quartile spread of 50% of the median halves the confidence
+
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Quartile coefficient of dispersion, mapped so tightly clustered prices score close to 1.
+const dispersionScore = (values: number[]): number => {
+  if (values.length < 2) return 0.5; // A single price says nothing about the spread
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = sorted[Math.floor((sorted.length - 1) / 4)];
+  const q3 = sorted[Math.ceil((sorted.length - 1) * 3 / 4)];
+  const mid = median(sorted);
+  if (mid <= 0) return 0;
+  return 1 / (1 + DISPERSION_WEIGHT * (q3 - q1) / mid);
+};
+
+const confidenceFrom = (sampleSize: number, fullConfidenceAt: number, values: number[]): number =>
+  Math.round(Math.min(1, sampleSize / fullConfidenceAt) * dispersionScore(values) * 100) / 100;
+
+// --- STRATEGIES ---
+
+const LOWEST_N = 5;
+const SALES_WINDOW = 48 * 60 * 60 * 1000;
+const SALES_HALF_LIFE = 6 * 60 * 60 * 1000;
+const HISTORY_SMOOTHING = 0.3; // Weight of each newer point in the exponential moving average
+
+const iqrWallStrategy: PriceStrategy = {
+  id: 'iqrWall',
+  label: 'Market wall',
+  description: 'Trims outliers with the IQR rule and prices at the first dense cluster of listings.',
+  estimate: ({ buyPrice, listings, marketPriceOptions }) => {
+    const wall = findMarketPriceAuction([buyPrice, ...listings].map(starting_bid => ({ starting_bid })), marketPriceOptions);
+    if (!wall) return null;
+    const floor = listings.slice(0, FULL_CONFIDENCE_LISTINGS);
+    return { price: wall.starting_bid, confidence: confidenceFrom(listings.length, FULL_CONFIDENCE_LISTINGS, floor) };
+  },
+};
+
+const lowestMedianStrategy: PriceStrategy = {
+  id: 'lowestMedian',
+  label: `Median of lowest ${LOWEST_N}`,
+  description: `The median of the ${LOWEST_N} cheapest other listings.`,
+  estimate: ({ listings }) => {
+    if (listings.length === 0) return null;
+    const lowest = listings.slice(0, LOWEST_N);
+    return { price: median(lowest), confidence: confidenceFrom(lowest.length, LOWEST_N, lowest) };
+  },
+};
+
+/**
+ * Weighted median of recent sales, where a sale's weight halves every `SALES_HALF_LIFE`.
+ * The sample size is the total weight, so a handful of old sales counts for little.
+ */
+const recentSalesStrategy: PriceStrategy = {
+  id: 'recentSales',
+  label: 'Recent sales',
+  description: 'A time-weighted median of comparable sales from the last two days.',
+  estimate: ({ sales, now }) => {
+    const weighted = sales
+      .filter(sale => sale.timestamp <= now && now - sale.timestamp <= SALES_WINDOW)
+      .map(sale => ({ price: sale.price, weight: Math.pow(0.5, (now - sale.timestamp) / SALES_HALF_LIFE) }))
+      .sort((a, b) => a.price - b.price);
+    if (weighted.length === 0) return null;
+
+    const totalWeight = weighted.reduce((sum, sale) => sum + sale.weight, 0);
+    let cumulative = 0;
+    const price = weighted.find(sale => (cumulative += sale.weight) >= totalWeight / 2)!.price;
+    return { price, confidence: confidenceFrom(totalWeight, FULL_CONFIDENCE_SALES, weighted.map(sale => sale.price)) };
+  },
+};
+
+/**
+ * Smooths the item's market wall over its price history with an exponential moving average
+ * and scales the bucket's current wall by how far the smoothed level sits from today's.
+ * History is kept per item id, so for finer buckets only its relative movement is used.
+ */
+const historyFloorStrategy: PriceStrategy = {
+  id: 'historyFloor',
+  label: 'History-smoothed floor',
+  description: "The current market wall, smoothed against the item's recorded price history.",
+  historyWindow: 24 * 60 * 60 * 1000,
+  estimate: input => {
+    const current = iqrWallStrategy.estimate(input);
+    const { history, itemMarketPrice } = input;
+    if (!current || !itemMarketPrice || history.length === 0) return null;
+
+    const smoothed = [...history.map(point => point.marketPrice), itemMarketPrice]
+      .reduce((average, price) => average + HISTORY_SMOOTHING * (price - average));
+    const samples = history.reduce((sum, point) => sum + point.samples, 0);
+    return {
+      price: Math.round(current.price * smoothed / itemMarketPrice),
+      confidence: Math.round(current.confidence * confidenceFrom(samples, FULL_CONFIDENCE_HISTORY, history.map(point => point.marketPrice)) * 100) / 100,
+    };
+  },
+};
+
+export const PRICE_STRATEGIES: Record<PriceStrategyId, PriceStrategy> = {
+  iqrWall: iqrWallStrategy,
+  lowestMedian: lowestMedianStrategy,
+  recentSales: recentSalesStrategy,
+  historyFloor: historyFloorStrategy,
+};
+
+export const DEFAULT_PRICE_STRATEGY: PriceStrategyId = 'iqrWall';
+
+// --- PERSISTENCE ---
+// The strategy picked in the auction view, which the watchlist monitor's auction scans use too.
+
+const PRICE_STRATEGY_KEY = 'priceStrategy';
+
+export const loadPriceStrategy = (): PriceStrategyId => {
+  try {
+    const stored = localStorage.getItem(PRICE_STRATEGY_KEY);
+    return stored !== null && Object.hasOwn(PRICE_STRATEGIES, stored) ? stored as PriceStrategyId : DEFAULT_PRICE_STRATEGY;
+  } catch {
+    return DEFAULT_PRICE_STRATEGY;
+  }
+};
+
+export const savePriceStrategy = (strategy: PriceStrategyId): void => {
+  localStorage.setItem(PRICE_STRATEGY_KEY, strategy);
+};
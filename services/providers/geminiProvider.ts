@@ -0,0 +1,35 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AIProvider, RateLimitError } from '../aiProvider';
+
+// This check is to prevent running on the server, where process might be defined.
+// The API key is injected by the hosting environment.
+if (typeof process === 'undefined') {
+  (globalThis as any).process = { env: {} };
+}
+
+// Created on first use so the app runs without a Gemini key when another provider is selected.
+let ai: GoogleGenAI | null = null;
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  generateStructured: async (request, config) => {
+    if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: request.prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: request.schema,
+        temperature: request.temperature,
+        abortSignal: request.signal,
+      },
+    }).catch(error => {
+      if (error instanceof ApiError && error.status === 429) throw new RateLimitError(error.message);
+      throw error;
+    });
+
+    return JSON.parse((response.text ?? '').trim());
+  },
+};
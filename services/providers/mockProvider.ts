@@ -0,0 +1,42 @@
+import { AIProvider, AITask } from '../aiProvider';
+
+// Deterministic, offline provider. Answers come from fixtures keyed by task and subject
+// (the item name); anything without a fixture gets a fixed "no answer" response.
+
+export type MockFixtures = Partial<Record<AITask, Record<string, unknown>>>;
+
+const MOCK_FIXTURES_URL = '/ai-fixtures.json';
+
+const FALLBACK_RESPONSES: Record<AITask, unknown> = {
+  itemValue: { estimatedValue: 0, reasoning: 'No mock fixture for this item.' },
+  craftingRecipe: [],
+};
+
+let fixturesPromise: Promise<MockFixtures> | null = null;
+
+const loadFixtures = (): Promise<MockFixtures> => {
+  if (!fixturesPromise) {
+    fixturesPromise = fetch(MOCK_FIXTURES_URL)
+      .then(response => response.ok ? response.json() : {})
+      .catch(() => ({}));
+  }
+  return fixturesPromise;
+};
+
+/**
+ * Replaces the fixtures the mock answers from, e.g. for tests.
+ */
+export const setMockFixtures = (fixtures: MockFixtures): void => {
+  fixturesPromise = Promise.resolve(fixtures);
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (fixtures)',
+  generateStructured: async request => {
+    const fixtures = await loadFixtures();
+    const response = fixtures[request.task]?.[request.subject] ?? FALLBACK_RESPONSES[request.task];
+    // Hand out copies so callers can't mutate the fixtures.
+    return JSON.parse(JSON.stringify(response));
+  },
+};
@@ -0,0 +1,54 @@
+import type { Schema } from '@google/genai';
+import { AIProvider, RateLimitError } from '../aiProvider';
+
+// Talks to any server exposing the OpenAI chat completions API, such as a local Ollama
+// or llama.cpp server. Structured output is requested through `response_format`.
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower-case ones.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const jsonSchema: Record<string, unknown> = {};
+  if (schema.type) jsonSchema.type = schema.type.toLowerCase();
+  if (schema.description) jsonSchema.description = schema.description;
+  if (schema.required) jsonSchema.required = schema.required;
+  if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    jsonSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toJsonSchema(property)])
+    );
+  }
+  return jsonSchema;
+};
+
+export const openAiCompatibleProvider: AIProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+  generateStructured: async (request, config) => {
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.task, schema: toJsonSchema(request.schema) },
+        },
+      }),
+      signal: request.signal,
+    });
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new RateLimitError('AI endpoint rate limited', retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    if (!response.ok) throw new Error(`AI endpoint error: ${response.status} ${response.statusText}`);
+
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+    // Some local models wrap JSON in a markdown fence despite the response format.
+    return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, '').trim());
+  },
+};
@@ -0,0 +1,195 @@
+import { CostNode } from '../types';
+import type { RecipeIngredient } from './aiService';
+
+// --- RECIPE DATABASE ---
+// Crafting recipes come from a JSON bundle in NEU item repo format, served from /recipes.json.
+// The bundle can be an array of NEU item objects or an object keyed by internal name.
+// `scripts/build-recipe-bundle.mjs` builds one from a checkout of the NEU repo.
+
+export interface RecipeEntry {
+  itemId: string;
+  outputCount: number; // Items produced by one craft
+  ingredients: RecipeIngredient[]; // Per craft, not per item
+}
+
+export type RecipeDatabase = Map<string, RecipeEntry>;
+
+const RECIPE_BUNDLE_URL = '/recipes.json';
+const CRAFTING_SLOTS = ['A1', 'A2', 'A3', 'B1', 'B2', 'B3', 'C1', 'C2', 'C3'];
+
+let databasePromise: Promise<RecipeDatabase> | null = null;
+
+// Reads the nine crafting slots of an NEU recipe ("ITEM_ID:count") and sums duplicate ingredients.
+const parseCraftingGrid = (grid: Record<string, unknown>): RecipeIngredient[] => {
+  const totals = new Map<string, number>();
+  for (const slot of CRAFTING_SLOTS) {
+    const value = grid[slot];
+    if (typeof value !== 'string' || value === '') continue;
+    const [ingredientId, count] = value.split(':');
+    totals.set(ingredientId, (totals.get(ingredientId) ?? 0) + (parseInt(count, 10) || 1));
+  }
+  return Array.from(totals.entries()).map(([ingredientId, quantity]) => ({ ingredientId, quantity }));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const parseNeuItem = (item: unknown): RecipeEntry | null => {
+  if (!isObject(item) || typeof item.internalname !== 'string') return null;
+
+  // Older items carry a single `recipe` grid; newer ones a `recipes` list with a type per entry.
+  const recipes = Array.isArray(item.recipes) ? item.recipes.filter(isObject) : [];
+  const grid = isObject(item.recipe) ? item.recipe : recipes.find(r => (r.type ?? 'crafting') === 'crafting');
+  if (!grid) return null;
+
+  const ingredients = parseCraftingGrid(grid);
+  if (ingredients.length === 0) return null;
+
+  return {
+    itemId: item.internalname,
+    outputCount: typeof grid.count === 'number' && grid.count > 0 ? grid.count : 1,
+    ingredients,
+  };
+};
+
+/**
+ * Builds a recipe database from a parsed bundle. Items without a crafting recipe are skipped.
+ */
+export const parseRecipeBundle = (bundle: unknown): RecipeDatabase => {
+  const items = Array.isArray(bundle) ? bundle : isObject(bundle) ? Object.values(bundle) : [];
+  const database: RecipeDatabase = new Map();
+  for (const item of items) {
+    const entry = parseNeuItem(item);
+    if (entry) database.set(entry.itemId, entry);
+  }
+  return database;
+};
+
+export const loadRecipeDatabase = (): Promise<RecipeDatabase> => {
+  if (!databasePromise) {
+    databasePromise = fetch(RECIPE_BUNDLE_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load recipe bundle: ${response.statusText}`);
+        return response.json();
+      })
+      .then(parseRecipeBundle)
+      .catch(error => {
+        databasePromise = null; // Retry on the next call
+        throw error;
+      });
+  }
+  return databasePromise;
+};
+
+// --- COST TREES ---
+
+export interface IngredientPrice {
+  name: string;
+  instaBuyPrice?: number; // Lowest sell offer
+  buyOrderPrice?: number; // Highest buy order, what a competitive buy order pays
+}
+
+export interface CostTreeOptions {
+  useBuyOrders: boolean;
+  rootRecipe?: RecipeIngredient[]; // Recipe for the root item when it is not in the database
+}
+
+const scaleNode = (node: CostNode, factor: number): CostNode => ({
+  ...node,
+  quantity: node.quantity * factor,
+  totalCost: node.totalCost * factor,
+  children: node.children.map(child => scaleNode(child, factor)),
+});
+
+/**
+ * Builds the cheapest way to obtain one `itemId` by crafting it. Every ingredient node picks
+ * the cheapest of insta-buying, a buy order, or crafting it from its own recipe. An item that
+ * is already being crafted further up the tree can only be bought, which cuts recipe cycles.
+ * @returns The tree, or null if some ingredient can neither be bought nor crafted.
+ */
+export const buildCostTree = (
+  itemId: string,
+  database: RecipeDatabase,
+  prices: Map<string, IngredientPrice>,
+  options: CostTreeOptions
+): CostNode | null => {
+  const crafting = new Set<string>(); // Items crafted above the current node
+  const unitNodes = new Map<string, CostNode | null>(); // Cheapest way to get one of an item
+
+  // One item crafted from `recipe`; ingredients scale down when a craft yields several.
+  const craftUnitNode = (id: string, recipe: RecipeEntry): CostNode | null => {
+    crafting.add(id);
+    try {
+      const children: CostNode[] = [];
+      for (const ingredient of recipe.ingredients) {
+        const child = cheapestNode(ingredient.ingredientId, ingredient.quantity / recipe.outputCount);
+        if (!child) return null;
+        children.push(child);
+      }
+      const totalCost = children.reduce((sum, child) => sum + child.totalCost, 0);
+      return {
+        itemId: id,
+        name: prices.get(id)?.name ?? id,
+        quantity: 1,
+        method: 'craft',
+        unitCost: totalCost,
+        totalCost,
+        children,
+      };
+    } finally {
+      crafting.delete(id);
+    }
+  };
+
+  const cheapestUnitNode = (id: string): CostNode | null => {
+    const price = prices.get(id);
+    const candidates: CostNode[] = [];
+    const buyNode = (method: CostNode['method'], unitCost: number): CostNode => ({
+      itemId: id, name: price!.name, quantity: 1, method, unitCost, totalCost: unitCost, children: [],
+    });
+
+    if (price?.instaBuyPrice) candidates.push(buyNode('instabuy', price.instaBuyPrice));
+    if (price?.buyOrderPrice && options.useBuyOrders) candidates.push(buyNode('buy_order', price.buyOrderPrice));
+
+    const recipe = database.get(id);
+    if (recipe && !crafting.has(id)) {
+      const crafted = craftUnitNode(id, recipe);
+      if (crafted) candidates.push(crafted);
+    }
+
+    if (candidates.length === 0) return null;
+    return candidates.reduce((best, node) => node.totalCost < best.totalCost ? node : best);
+  };
+
+  const cheapestNode = (id: string, quantity: number): CostNode | null => {
+    let unit: CostNode | null;
+    if (crafting.has(id)) {
+      unit = cheapestUnitNode(id); // Buy-only inside its own subtree, so not remembered
+    } else {
+      if (!unitNodes.has(id)) unitNodes.set(id, cheapestUnitNode(id));
+      unit = unitNodes.get(id)!;
+    }
+    return unit && scaleNode(unit, quantity);
+  };
+
+  // The root is always crafted: that is the flip being evaluated.
+  const rootRecipe = options.rootRecipe
+    ? { itemId, outputCount: 1, ingredients: options.rootRecipe }
+    : database.get(itemId);
+  return rootRecipe ? craftUnitNode(itemId, rootRecipe) : null;
+};
+
+/**
+ * Lists everything that is bought in a cost tree, summing repeated ingredients.
+ */
+export const flattenCostTree = (root: CostNode): RecipeIngredient[] => {
+  const totals = new Map<string, number>();
+  const visit = (node: CostNode) => {
+    if (node.method === 'craft') {
+      node.children.forEach(visit);
+    } else {
+      totals.set(node.itemId, (totals.get(node.itemId) ?? 0) + node.quantity);
+    }
+  };
+  visit(root);
+  return Array.from(totals.entries()).map(([ingredientId, quantity]) => ({ ingredientId, quantity }));
+};
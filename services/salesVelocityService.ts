@@ -0,0 +1,48 @@
+import { PricedSale } from './priceStrategyService';
+
+// --- SALES VELOCITY ---
+// How fast a comparable bucket sells, from the sales seen on `auctions_ended`. The endpoint
+// only reports sales, so rates are measured over the time we have been watching it.
+
+export interface ObservedSale extends PricedSale {
+  listedAt?: number; // When the sold auction was listed, if it was in the auction index
+}
+
+export interface SalesVelocity {
+  salesPerHour: number;
+  medianTimeToSell: number | null; // ms from listing to sale, null without any sale of a known listing
+}
+
+const HOUR = 60 * 60 * 1000;
+const MIN_HOURS_TO_SELL = 1 / 60; // Caps coins per hour for items that sell almost instantly
+
+/**
+ * Sales rate and median listing-to-sale time for the given sales, observed from
+ * `observedSince` until `now`.
+ */
+export const computeSalesVelocity = (sales: ObservedSale[], observedSince: number, now: number): SalesVelocity => {
+  const observedHours = (now - observedSince) / HOUR;
+  const inWindow = sales.filter(sale => sale.timestamp > observedSince && sale.timestamp <= now);
+  const timesToSell = inWindow
+    .filter(sale => sale.listedAt !== undefined)
+    .map(sale => sale.timestamp - sale.listedAt!)
+    .sort((a, b) => a - b);
+
+  const mid = Math.floor(timesToSell.length / 2);
+  return {
+    salesPerHour: observedHours > 0 ? inWindow.length / observedHours : 0,
+    medianTimeToSell: timesToSell.length === 0
+      ? null
+      : timesToSell.length % 2 ? timesToSell[mid] : (timesToSell[mid - 1] + timesToSell[mid]) / 2,
+  };
+};
+
+/**
+ * Expected profit per hour of waiting for a sale. The wait is the median time to sell, or
+ * the average gap between sales when no listing times are known; without sales it is zero.
+ */
+export const expectedCoinsPerHour = (profit: number, velocity: SalesVelocity): number => {
+  const timeToSell = velocity.medianTimeToSell ?? (velocity.salesPerHour > 0 ? HOUR / velocity.salesPerHour : null);
+  if (timeToSell === null) return 0;
+  return Math.round(profit / Math.max(timeToSell / HOUR, MIN_HOURS_TO_SELL));
+};
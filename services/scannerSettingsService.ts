@@ -0,0 +1,177 @@
+import { FeeSettings, isAuctionDuration, isBazaarFlipperLevel, loadFeeSettings, saveFeeSettings } from './feeService';
+import { DEFAULT_MARKET_PRICE_OPTIONS } from './priceStrategyService';
+
+// --- SCANNER SETTINGS ---
+// Thresholds the finders read on every refresh: what counts as a flip, how the market wall is
+// found, how many items are sent for analysis and how often each view refreshes.
+
+export interface ScannerSettings {
+  auctionMinProfit: number; // Net profit an auction flip needs
+  auctionMinPrice: number; // Cheaper listings are ignored as junk
+  iqrMultiplier: number; // Market wall: prices above Q3 + iqrMultiplier * IQR are outliers
+  gapThreshold: number; // Market wall: relative price jump that marks its start
+  craftMinProfit: number; // Net profit a crafting flip needs
+  trendMinProfit: number; // Potential profit a market trend needs to be shown
+  bazaarMinProfit: number; // Net per-unit profit an instant bazaar flip needs
+  bazaarMinWeeklyVolume: number; // Weekly insta-buys an instant bazaar flip needs
+  orderFlipMinCoinsPerHour: number; // Net profit per hour a bazaar order flip needs
+  trendAnalysisItems: number; // Items sent to the AI per market trend refresh
+  craftingAnalysisItems: number; // Items checked per crafting refresh
+  auctionRefreshSeconds: number;
+  bazaarRefreshSeconds: number;
+}
+
+export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
+  auctionMinProfit: 50000,
+  auctionMinPrice: 1,
+  iqrMultiplier: DEFAULT_MARKET_PRICE_OPTIONS.iqrMultiplier,
+  gapThreshold: DEFAULT_MARKET_PRICE_OPTIONS.gapThreshold,
+  craftMinProfit: 100000,
+  trendMinProfit: 10000,
+  bazaarMinProfit: 100,
+  bazaarMinWeeklyVolume: 100,
+  orderFlipMinCoinsPerHour: 10000,
+  trendAnalysisItems: 15,
+  craftingAnalysisItems: 30,
+  auctionRefreshSeconds: 60,
+  bazaarRefreshSeconds: 30,
+};
+
+interface SettingLimits {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+export const SCANNER_SETTING_LIMITS: Record<keyof ScannerSettings, SettingLimits> = {
+  auctionMinProfit: { min: 0, max: 1e10 },
+  auctionMinPrice: { min: 0, max: 1e10 },
+  iqrMultiplier: { min: 0.5, max: 10 },
+  gapThreshold: { min: 0.01, max: 1 },
+  craftMinProfit: { min: 0, max: 1e10 },
+  trendMinProfit: { min: 0, max: 1e10 },
+  bazaarMinProfit: { min: 0, max: 1e8 },
+  bazaarMinWeeklyVolume: { min: 0, max: 1e9 },
+  orderFlipMinCoinsPerHour: { min: 0, max: 1e9 },
+  trendAnalysisItems: { min: 1, max: 100, integer: true },
+  craftingAnalysisItems: { min: 1, max: 200, integer: true },
+  auctionRefreshSeconds: { min: 20, max: 3600, integer: true }, // The API updates about once a minute
+  bazaarRefreshSeconds: { min: 10, max: 3600, integer: true },
+};
+
+export type ScannerSettingsErrors = Partial<Record<keyof ScannerSettings, string>>;
+
+/**
+ * Checks every field against its limits. Returns an error message per invalid field.
+ */
+export const validateScannerSettings = (settings: Record<string, unknown>): ScannerSettingsErrors => {
+  const errors: ScannerSettingsErrors = {};
+  for (const [key, limits] of Object.entries(SCANNER_SETTING_LIMITS) as [keyof ScannerSettings, SettingLimits][]) {
+    const value = settings[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[key] = 'Must be a number';
+    } else if (limits.integer && !Number.isInteger(value)) {
+      errors[key] = 'Must be a whole number';
+    } else if (value < limits.min || value > limits.max) {
+      errors[key] = `Must be between ${limits.min} and ${limits.max}`;
+    }
+  }
+  return errors;
+};
+
+// Fills invalid or missing fields from the defaults.
+const sanitizeScannerSettings = (settings: Record<string, unknown>): ScannerSettings => {
+  const errors = validateScannerSettings(settings);
+  const sanitized = { ...DEFAULT_SCANNER_SETTINGS };
+  for (const key of Object.keys(DEFAULT_SCANNER_SETTINGS) as (keyof ScannerSettings)[]) {
+    if (!errors[key]) sanitized[key] = settings[key] as number;
+  }
+  return sanitized;
+};
+
+// --- PERSISTENCE ---
+
+const SCANNER_SETTINGS_KEY = 'scannerSettings';
+
+const listeners = new Set<(settings: ScannerSettings) => void>();
+
+export const loadScannerSettings = (): ScannerSettings => {
+  try {
+    const stored = localStorage.getItem(SCANNER_SETTINGS_KEY);
+    return stored ? sanitizeScannerSettings(JSON.parse(stored)) : DEFAULT_SCANNER_SETTINGS;
+  } catch {
+    return DEFAULT_SCANNER_SETTINGS;
+  }
+};
+
+/**
+ * Saves the settings and passes them to every subscribed view. Callers validate first.
+ */
+export const saveScannerSettings = (settings: ScannerSettings): void => {
+  localStorage.setItem(SCANNER_SETTINGS_KEY, JSON.stringify(settings));
+  listeners.forEach(listener => listener(settings));
+};
+
+export const subscribeScannerSettings = (listener: (settings: ScannerSettings) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- PROFILES ---
+// A profile bundles the scanner settings with the fee settings, so a setup can be moved
+// between browsers or shared. Credentials are never part of it.
+
+export interface SettingsProfile {
+  version: 1;
+  scanner: ScannerSettings;
+  fees: FeeSettings;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const exportSettingsProfile = (): string =>
+  JSON.stringify({ version: 1, scanner: loadScannerSettings(), fees: loadFeeSettings() } satisfies SettingsProfile, null, 2);
+
+/**
+ * Parses a profile file. Throws with a readable message if any value is invalid, so a bad
+ * file never half-applies.
+ */
+export const parseSettingsProfile = (text: string): SettingsProfile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(parsed) || parsed.version !== 1 || !isObject(parsed.scanner) || !isObject(parsed.fees)) {
+    throw new Error('The file is not a settings profile.');
+  }
+
+  const scanner = { ...DEFAULT_SCANNER_SETTINGS, ...parsed.scanner };
+  const errors = Object.entries(validateScannerSettings(scanner));
+  if (errors.length > 0) {
+    throw new Error(errors.map(([key, message]) => `${key}: ${message}`).join('; '));
+  }
+
+  const { auctionDuration, bazaarFlipperLevel, mayorPerks } = parsed.fees;
+  if (!isAuctionDuration(auctionDuration)
+    || !isBazaarFlipperLevel(bazaarFlipperLevel)
+    || !isObject(mayorPerks) || typeof mayorPerks.quadTaxing !== 'boolean') {
+    throw new Error('The fee settings in the file are invalid.');
+  }
+
+  return {
+    version: 1,
+    scanner: sanitizeScannerSettings(scanner),
+    fees: {
+      auctionDuration,
+      bazaarFlipperLevel,
+      mayorPerks: { quadTaxing: mayorPerks.quadTaxing },
+    },
+  };
+};
+
+export const applySettingsProfile = (profile: SettingsProfile): void => {
+  saveFeeSettings(profile.fees);
+  saveScannerSettings(profile.scanner);
+};
@@ -0,0 +1,103 @@
+import { Rarity, SortConfig } from '../types';
+
+// --- TABLE FILTERS AND SORTING ---
+// Row filtering and multi-column sorting shared by every results table. Kept free of React so
+// the views and the tests use exactly the same logic.
+
+export interface RangeFilter {
+  min?: number;
+  max?: number;
+}
+
+export interface TableFilters<K extends string> {
+  search: string; // Case-insensitive substring of the item name
+  rarities: Rarity[]; // Empty means every rarity
+  ranges: Partial<Record<K, RangeFilter>>;
+}
+
+export const emptyTableFilters = <K extends string>(): TableFilters<K> => ({ search: '', rarities: [], ranges: {} });
+
+export interface RowAccessors<T> {
+  getName: (row: T) => string;
+  getRarity?: (row: T) => Rarity;
+}
+
+export const hasActiveFilters = <K extends string>(filters: TableFilters<K>): boolean =>
+  filters.search.trim() !== ''
+  || filters.rarities.length > 0
+  || Object.values<RangeFilter | undefined>(filters.ranges).some(range => range?.min !== undefined || range?.max !== undefined);
+
+/**
+ * Keeps the rows matching every filter. Rows without a value for a ranged key (e.g. no time to
+ * sell yet) are dropped, since they cannot be shown to be inside the range.
+ */
+export const filterRows = <T, K extends keyof T & string>(rows: T[], filters: TableFilters<K>, accessors: RowAccessors<T>): T[] => {
+  const search = filters.search.trim().toLowerCase();
+  const rarities = new Set(filters.rarities);
+  const ranges = (Object.entries(filters.ranges) as [K, RangeFilter | undefined][])
+    .filter(([, range]) => range && (range.min !== undefined || range.max !== undefined)) as [K, RangeFilter][];
+
+  return rows.filter(row => {
+    if (search && !accessors.getName(row).toLowerCase().includes(search)) return false;
+    if (rarities.size > 0 && accessors.getRarity && !rarities.has(accessors.getRarity(row))) return false;
+    return ranges.every(([key, { min, max }]) => {
+      const value = row[key];
+      if (typeof value !== 'number') return false;
+      return (min === undefined || value >= min) && (max === undefined || value <= max);
+    });
+  });
+};
+
+/**
+ * Sorts by each config in turn, later ones breaking ties of earlier ones. Unknown values always
+ * go last, whatever the direction.
+ */
+export const sortRows = <T, K extends keyof T>(rows: T[], sorts: SortConfig<K>[]): T[] => {
+  if (sorts.length === 0) return rows;
+  return [...rows].sort((a, b) => {
+    for (const { key, direction } of sorts) {
+      const left = a[key];
+      const right = b[key];
+      if (left === right) continue;
+      if (left === null || left === undefined) return 1;
+      if (right === null || right === undefined) return -1;
+      const order = left < right ? -1 : 1;
+      return direction === 'ascending' ? order : -order;
+    }
+    return 0;
+  });
+};
+
+/**
+ * The sort after a header click. A plain click sorts by that column alone, flipping its
+ * direction if it already was the primary sort. An additive (shift) click appends the column as a
+ * tie-breaker, flips it if present, and removes it on the click after descending.
+ */
+export const toggleSort = <K,>(sorts: SortConfig<K>[], key: K, additive: boolean): SortConfig<K>[] => {
+  const existing = sorts.find(sort => sort.key === key);
+  if (!additive) {
+    const direction = sorts[0]?.key === key && sorts[0].direction === 'ascending' ? 'descending' : 'ascending';
+    return [{ key, direction }];
+  }
+  if (!existing) return [...sorts, { key, direction: 'ascending' }];
+  if (existing.direction === 'descending' && sorts.length > 1) return sorts.filter(sort => sort.key !== key);
+  return sorts.map(sort => sort.key === key ? { key, direction: sort.direction === 'ascending' ? 'descending' : 'ascending' } : sort);
+};
+
+// --- COLUMN VISIBILITY ---
+
+const hiddenColumnsKey = (tableId: string) => `hiddenColumns:${tableId}`;
+
+export const loadHiddenColumns = (tableId: string): string[] => {
+  try {
+    const stored = localStorage.getItem(hiddenColumnsKey(tableId));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveHiddenColumns = (tableId: string, hidden: string[]): void => {
+  localStorage.setItem(hiddenColumnsKey(tableId), JSON.stringify(hidden));
+};
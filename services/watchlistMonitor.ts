@@ -0,0 +1,79 @@
+import { fetchBazaarFlips, fetchBazaarOrderFlips } from './hypixelService';
+import { isReplayedData, requestAuctionFlips } from './auctionWorkerClient';
+import { loadComparableConfig } from './comparablesService';
+import { loadFeeSettings } from './feeService';
+import { loadItemLists } from './itemListService';
+import { loadPriceStrategy } from './priceStrategyService';
+import { loadScannerSettings, ScannerSettings } from './scannerSettingsService';
+import {
+  auctionWatchCandidates, bazaarWatchCandidates, checkWatchlist, FINDER_MARKETS, FinderId, loadWatchlistConfig,
+  subscribeFinderResults, WatchCandidate, WatchMarket,
+} from './watchlistService';
+
+// --- WATCHLIST MONITOR ---
+// Checks the watch rules against every refresh a view publishes. A finder whose view is not
+// open is refreshed here instead, with the settings and price strategy the view would use, so
+// alerts do not depend on the open view. A finder is only refreshed while an enabled rule
+// watches its market, and nothing is checked while the app runs on a snapshot or a replay.
+
+// A view that has not published for this many refresh intervals is taken to be closed.
+const UNATTENDED_AFTER_INTERVALS = 1.5;
+
+const REFRESH_INTERVALS: Record<WatchMarket, (settings: ScannerSettings) => number> = {
+  auction: settings => settings.auctionRefreshSeconds,
+  bazaar: settings => settings.bazaarRefreshSeconds,
+};
+
+const BACKGROUND_REFRESHES: Record<FinderId, () => Promise<WatchCandidate[]>> = {
+  auctionFlips: async () => auctionWatchCandidates(await requestAuctionFlips(
+    loadComparableConfig(), loadFeeSettings(), loadPriceStrategy(), loadScannerSettings(), loadItemLists()
+  )),
+  bazaarFlips: async () => bazaarWatchCandidates(await fetchBazaarFlips(loadFeeSettings(), loadScannerSettings(), loadItemLists())),
+  bazaarOrderFlips: async () => bazaarWatchCandidates(await fetchBazaarOrderFlips(loadFeeSettings(), loadScannerSettings(), loadItemLists())),
+};
+
+const watchedMarkets = (): Set<WatchMarket> =>
+  new Set(loadWatchlistConfig().rules.filter(rule => rule.enabled).flatMap(rule => rule.markets));
+
+const check = (candidates: WatchCandidate[]) => {
+  if (!isReplayedData()) checkWatchlist(candidates);
+};
+
+/**
+ * Checks published finder results, and refreshes each finder no view published within its
+ * interval, starting right away. Intervals come from the scanner settings, read again before
+ * every wait so changes apply without a restart. Returns a function that stops it.
+ */
+export const startWatchlistMonitor = (): (() => void) => {
+  const lastPublished = new Map<FinderId, number>();
+  const timers = new Map<FinderId, ReturnType<typeof setTimeout>>();
+  let stopped = false;
+
+  const unsubscribe = subscribeFinderResults((finder, candidates) => {
+    lastPublished.set(finder, Date.now());
+    check(candidates);
+  });
+
+  const schedule = (finder: FinderId) => {
+    const market = FINDER_MARKETS[finder];
+    const tick = async () => {
+      const interval = REFRESH_INTERVALS[market](loadScannerSettings()) * 1000;
+      const unattended = Date.now() - (lastPublished.get(finder) ?? 0) >= interval * UNATTENDED_AFTER_INTERVALS;
+      if (unattended && watchedMarkets().has(market) && !isReplayedData()) {
+        await BACKGROUND_REFRESHES[finder]()
+          .then(candidates => { if (!stopped) check(candidates); })
+          .catch(e => console.warn(`Watchlist refresh of ${finder} failed:`, e));
+      }
+      if (!stopped) timers.set(finder, setTimeout(tick, REFRESH_INTERVALS[market](loadScannerSettings()) * 1000));
+    };
+    tick();
+  };
+
+  (Object.keys(BACKGROUND_REFRESHES) as FinderId[]).forEach(schedule);
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    timers.forEach(clearTimeout);
+  };
+};
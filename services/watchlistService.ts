@@ -0,0 +1,277 @@
+import { AuctionFlip, BazaarFlip, BazaarOrderFlip, Rarity } from '../types';
+import { compileItemRule, isItemRule, ItemRule, ListedItem, validateItemRule } from './itemListService';
+
+// --- WATCHLIST ---
+// Watch rules are checked against every refresh the auction and bazaar finders publish (see
+// watchlistMonitor). A match raises an alert, which is logged, shown as a desktop notification
+// and optionally beeped.
+
+export type WatchMarket = 'auction' | 'bazaar';
+
+// The finders whose refreshes are watched. Each market has its own refresh interval.
+export type FinderId = 'auctionFlips' | 'bazaarFlips' | 'bazaarOrderFlips';
+
+export const FINDER_MARKETS: Record<FinderId, WatchMarket> = {
+  auctionFlips: 'auction',
+  bazaarFlips: 'bazaar',
+  bazaarOrderFlips: 'bazaar',
+};
+
+export interface WatchRule {
+  id: string;
+  item: ItemRule; // Which items the rule watches: an item id, a name or a name regex
+  markets: WatchMarket[];
+  minProfit?: number; // Net profit, per unit for bazaar flips
+  maxBuyPrice?: number;
+  minConfidence?: number; // 0-1, only auction flips carry a confidence
+  enabled: boolean;
+}
+
+// One flip as the watchlist sees it, whichever finder produced it.
+export interface WatchCandidate {
+  key: string; // Auction uuid or bazaar product id
+  market: WatchMarket;
+  itemId: string;
+  itemName: string;
+  rarity?: Rarity;
+  buyPrice: number;
+  profit: number;
+  confidence?: number;
+  command: string; // In-game command that opens the flip
+}
+
+export interface WatchAlert {
+  id: string;
+  ruleId: string;
+  key: string;
+  market: WatchMarket;
+  itemName: string;
+  buyPrice: number;
+  profit: number;
+  command: string;
+  firedAt: number;
+}
+
+// A flip that stays a match across refreshes only alerts again after this long. Auctions are
+// keyed by their uuid, so a listing still up after the cooldown alerts again, like a bazaar product.
+export const ALERT_COOLDOWN = 30 * 60 * 1000;
+const MAX_LOGGED_ALERTS = 200;
+
+export const auctionWatchCandidates = (flips: AuctionFlip[]): WatchCandidate[] => flips.map(flip => ({
+  key: flip.id,
+  market: 'auction',
+  itemId: flip.itemId,
+  itemName: flip.itemName,
+  rarity: flip.rarity,
+  buyPrice: flip.lowestBin,
+  profit: flip.profit,
+  confidence: flip.confidence,
+  command: `/viewauction ${flip.id}`,
+}));
+
+export const bazaarWatchCandidates = (flips: (BazaarFlip | BazaarOrderFlip)[]): WatchCandidate[] => flips.map(flip => ({
+  key: flip.id,
+  market: 'bazaar',
+  itemId: flip.id,
+  itemName: flip.itemName,
+  buyPrice: 'buyPrice' in flip ? flip.buyPrice : flip.buyOrderPrice,
+  profit: flip.profit,
+  command: `/bz ${flip.itemName}`,
+}));
+
+/**
+ * Returns why a rule cannot be saved, or null if it is valid.
+ */
+export const validateWatchRule = (rule: WatchRule): string | null => {
+  const itemError = validateItemRule(rule.item);
+  if (itemError) return itemError;
+  if (rule.markets.length === 0) return 'Pick at least one market';
+  if ([rule.minProfit, rule.maxBuyPrice].some(value => value !== undefined && (!Number.isFinite(value) || value < 0))) {
+    return 'Amounts must be positive numbers';
+  }
+  if (rule.minConfidence !== undefined && !(rule.minConfidence >= 0 && rule.minConfidence <= 1)) {
+    return 'Confidence must be between 0 and 100%';
+  }
+  return null;
+};
+
+const matchesRule = (rule: WatchRule, candidate: WatchCandidate, matchesItem: (item: ListedItem) => boolean): boolean =>
+  rule.markets.includes(candidate.market)
+  && matchesItem({ itemId: candidate.itemId, name: candidate.itemName, rarity: candidate.rarity })
+  && (rule.minProfit === undefined || candidate.profit >= rule.minProfit)
+  && (rule.maxBuyPrice === undefined || candidate.buyPrice <= rule.maxBuyPrice)
+  && (rule.minConfidence === undefined || (candidate.confidence ?? 0) >= rule.minConfidence);
+
+/**
+ * Finds the new alerts for a refresh. A rule and flip that already alerted within the cooldown
+ * do not alert again.
+ */
+export const evaluateWatchRules = (
+  rules: WatchRule[],
+  candidates: WatchCandidate[],
+  recentAlerts: WatchAlert[],
+  now: number
+): WatchAlert[] => {
+  const alerted = new Set(recentAlerts.filter(alert => now - alert.firedAt < ALERT_COOLDOWN).map(alert => `${alert.ruleId}|${alert.key}`));
+  const alerts: WatchAlert[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled || validateWatchRule(rule)) continue;
+    const matchesItem = compileItemRule(rule.item);
+    for (const candidate of candidates) {
+      const alertKey = `${rule.id}|${candidate.key}`;
+      if (alerted.has(alertKey) || !matchesRule(rule, candidate, matchesItem)) continue;
+      alerted.add(alertKey);
+      alerts.push({
+        id: `${alertKey}|${now}`,
+        ruleId: rule.id,
+        key: candidate.key,
+        market: candidate.market,
+        itemName: candidate.itemName,
+        buyPrice: candidate.buyPrice,
+        profit: candidate.profit,
+        command: candidate.command,
+        firedAt: now,
+      });
+    }
+  }
+  return alerts;
+};
+
+// --- FINDER RESULTS ---
+// Views publish each finished refresh of a finder here, so the rules are checked against the
+// same flips the view shows.
+
+const finderResultListeners = new Set<(finder: FinderId, candidates: WatchCandidate[]) => void>();
+
+export const publishFinderResult = (finder: FinderId, candidates: WatchCandidate[]): void => {
+  finderResultListeners.forEach(listener => listener(finder, candidates));
+};
+
+export const subscribeFinderResults = (listener: (finder: FinderId, candidates: WatchCandidate[]) => void): (() => void) => {
+  finderResultListeners.add(listener);
+  return () => { finderResultListeners.delete(listener); };
+};
+
+// --- PERSISTENCE ---
+
+export interface WatchlistConfig {
+  rules: WatchRule[];
+  playSound: boolean;
+}
+
+const WATCHLIST_KEY = 'watchlist';
+const ALERT_LOG_KEY = 'watchlistAlerts';
+
+const alertListeners = new Set<(alerts: WatchAlert[]) => void>();
+
+// Rules with an item rule of an unknown kind are dropped, since they could never be compiled.
+const isWatchRule = (rule: unknown): rule is WatchRule =>
+  typeof rule === 'object' && rule !== null && 'id' in rule && 'item' in rule && 'markets' in rule
+  && typeof rule.id === 'string' && isItemRule(rule.item) && Array.isArray(rule.markets);
+
+export const loadWatchlistConfig = (): WatchlistConfig => {
+  try {
+    const stored = localStorage.getItem(WATCHLIST_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return { rules: Array.isArray(parsed.rules) ? parsed.rules.filter(isWatchRule) : [], playSound: parsed.playSound === true };
+  } catch {
+    return { rules: [], playSound: false };
+  }
+};
+
+export const saveWatchlistConfig = (config: WatchlistConfig): void => {
+  localStorage.setItem(WATCHLIST_KEY, JSON.stringify(config));
+};
+
+const isWatchAlert = (alert: unknown): alert is WatchAlert =>
+  typeof alert === 'object' && alert !== null
+  && 'id' in alert && typeof alert.id === 'string'
+  && 'ruleId' in alert && typeof alert.ruleId === 'string'
+  && 'key' in alert && typeof alert.key === 'string'
+  && 'market' in alert && (alert.market === 'auction' || alert.market === 'bazaar')
+  && 'itemName' in alert && typeof alert.itemName === 'string'
+  && 'buyPrice' in alert && typeof alert.buyPrice === 'number'
+  && 'profit' in alert && typeof alert.profit === 'number'
+  && 'command' in alert && typeof alert.command === 'string'
+  && 'firedAt' in alert && typeof alert.firedAt === 'number';
+
+// Newest first. Malformed entries are dropped.
+export const loadAlertLog = (): WatchAlert[] => {
+  try {
+    const stored = localStorage.getItem(ALERT_LOG_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isWatchAlert) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveAlertLog = (alerts: WatchAlert[]): void => {
+  localStorage.setItem(ALERT_LOG_KEY, JSON.stringify(alerts));
+  alertListeners.forEach(listener => listener(alerts));
+};
+
+export const clearAlertLog = (): void => saveAlertLog([]);
+
+export const subscribeAlertLog = (listener: (alerts: WatchAlert[]) => void): (() => void) => {
+  alertListeners.add(listener);
+  return () => { alertListeners.delete(listener); };
+};
+
+// --- NOTIFICATIONS ---
+
+export const notificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> =>
+  notificationsSupported() ? Notification.requestPermission() : 'denied';
+
+// A short two-tone chime, synthesized so no audio file has to be shipped.
+const playAlertSound = () => {
+  try {
+    const context = new AudioContext();
+    [880, 1320].forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, context.currentTime + i * 0.15);
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + i * 0.15 + 0.3);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(context.currentTime + i * 0.15);
+      oscillator.stop(context.currentTime + i * 0.15 + 0.3);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (e) {
+    console.warn('Could not play the alert sound:', e);
+  }
+};
+
+const showNotification = (alert: WatchAlert) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const notification = new Notification(`Watchlist: ${alert.itemName}`, {
+    body: `+${Math.round(alert.profit).toLocaleString()} profit, buy at ${Math.round(alert.buyPrice).toLocaleString()}\n${alert.command}`,
+    tag: alert.id,
+  });
+  // Clicking brings the app forward and copies the command, ready to paste in game.
+  notification.onclick = () => {
+    window.focus();
+    navigator.clipboard?.writeText(alert.command).catch(() => {});
+  };
+};
+
+/**
+ * Checks the watch rules against one refresh of a finder. New alerts are logged, notified and,
+ * if enabled, chimed. Returns the new alerts.
+ */
+export const checkWatchlist = (candidates: WatchCandidate[]): WatchAlert[] => {
+  const config = loadWatchlistConfig();
+  if (config.rules.length === 0) return [];
+  const log = loadAlertLog();
+  const alerts = evaluateWatchRules(config.rules, candidates, log, Date.now());
+  if (alerts.length === 0) return alerts;
+
+  saveAlertLog([...alerts, ...log].slice(0, MAX_LOGGED_ALERTS));
+  alerts.forEach(showNotification);
+  if (config.playSound) playAlertSound();
+  return alerts;
+};
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runBacktest } from '../services/backtestService';
+import { HypixelSnapshot } from '../services/hypixelClient';
+import { RawBazaarProduct } from '../types';
+import { encodeItemBytes } from './helpers/itemBytes';
+
+const T = 1760000000000;
+const HOUR = 60 * 60 * 1000;
+
+type ItemAttributes = Parameters<typeof encodeItemBytes>[0];
+
+let n = 0;
+const listing = (name: string, price: number, attributes: ItemAttributes) => ({
+  uuid: `auction-${++n}`, item_name: name, tier: 'RARE', starting_bid: price, bin: true, claimed: false,
+  start: T - HOUR, end: T + 47 * HOUR, item_lore: '',
+  item_bytes: encodeItemBytes({ uuid: `item-${n}`, ...attributes }),
+});
+const aote = (price: number) => listing('Aspect of the End', price, { id: 'ASPECT_OF_THE_END' });
+const midas = (price: number) => listing("Midas' Sword", price, { id: 'MIDAS_SWORD' });
+
+const sale = (id: string, price: number, timestamp: number, attributes: ItemAttributes, displayName: string) => ({
+  auction_id: `sale-${id}`, seller: 'seller', buyer: 'buyer', timestamp, price, bin: true,
+  item_bytes: encodeItemBytes(attributes, displayName),
+});
+
+const diamond = (buyPrice: number): RawBazaarProduct => ({
+  product_id: 'ENCHANTED_DIAMOND',
+  sell_summary: [{ amount: 5000, pricePerUnit: 1500, orders: 6 }],
+  buy_summary: [{ amount: 4000, pricePerUnit: buyPrice, orders: 4 }],
+  quick_status: {
+    productId: 'ENCHANTED_DIAMOND', buyPrice, sellPrice: 1500, buyVolume: 400000, sellVolume: 900000,
+    buyMovingWeek: 8_000_000, sellMovingWeek: 7_500_000, buyOrders: 120, sellOrders: 300,
+  },
+});
+
+const snapshot = (recordedAt: number, auctions: unknown[], ended: unknown[], bazaarBuyPrice: number): HypixelSnapshot => ({
+  version: 1,
+  recordedAt,
+  responses: {
+    'auctions?page=0': { success: true, page: 0, totalPages: 1, totalAuctions: auctions.length, lastUpdated: recordedAt, auctions },
+    'auctions_ended': { success: true, lastUpdated: recordedAt, auctions: ended },
+    'bazaar': { success: true, lastUpdated: recordedAt, products: { ENCHANTED_DIAMOND: diamond(bazaarBuyPrice) } },
+  },
+});
+
+// Both items have one listing far under the rest. An Aspect of the End then sells at the
+// market price within the hour; no Midas' Sword sells at all. The bazaar spread holds.
+const market = () => [
+  aote(100_000), aote(300_000), aote(310_000), aote(320_000), aote(330_000),
+  midas(20_000_000), midas(50_000_000), midas(51_000_000), midas(52_000_000), midas(53_000_000),
+];
+const snapshots = [
+  snapshot(T, market(), [], 1750),
+  snapshot(T + HOUR, [], [sale('aote', 305_000, T + 30 * 60 * 1000, { id: 'ASPECT_OF_THE_END' }, 'Aspect of the End')], 1800),
+  snapshot(T + 7 * HOUR, [], [], 1800),
+];
+
+describe('runBacktest', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs the default strategies that need no price history, without warnings', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    const report = await runBacktest(snapshots);
+    expect(report.strategies.map(s => s.strategyId)).not.toContain('auction-flips:historyFloor');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('scores auction flips against comparable sales within the horizon', async () => {
+    const report = await runBacktest(snapshots);
+    const outcomes = report.outcomes.filter(o => o.strategyId === 'auction-flips:iqrWall');
+    expect(outcomes.map(o => [o.recommendation.itemName, o.status])).toEqual(
+      expect.arrayContaining([['Aspect of the End', 'hit'], ["Midas' Sword", 'miss']])
+    );
+
+    const hit = outcomes.find(o => o.status === 'hit')!;
+    expect(hit.timeToSell).toBe(30 * 60 * 1000);
+    expect(hit.observedSalePrice).toBe(305_000);
+    expect(hit.realizedSalePrice).toBe(hit.recommendation.predictedSalePrice);
+    expect(hit.realizedProfit).toBe(hit.recommendation.predictedProfit);
+
+    const summary = report.strategies.find(s => s.strategyId === 'auction-flips:iqrWall')!;
+    expect(summary.evaluated).toBe(2);
+    expect(summary.hits).toBe(1);
+    expect(summary.precision).toBe(0.5);
+    expect(summary.expectedProfit).toBeCloseTo(hit.realizedProfit / 2);
+  });
+
+  it('scores bazaar flips against the next snapshots and counts each product once', async () => {
+    const report = await runBacktest(snapshots);
+    for (const id of ['bazaar-instant', 'bazaar-orders']) {
+      const summary = report.strategies.find(s => s.strategyId === id)!;
+      // Recommended again at the later steps, but only the first recommendation is scored.
+      expect(summary.recommendations).toBe(1);
+      expect(summary.hits).toBe(1);
+      expect(summary.medianTimeToSell).toBe(HOUR);
+    }
+  });
+
+  it('leaves recommendations whose horizon has not elapsed pending', async () => {
+    const report = await runBacktest(snapshots.slice(0, 2));
+    const midasOutcome = report.outcomes.find(o => o.recommendation.itemName === "Midas' Sword")!;
+    expect(midasOutcome.status).toBe('pending');
+    const summary = report.strategies.find(s => s.strategyId === 'auction-flips:iqrWall')!;
+    expect(summary.evaluated).toBe(1);
+    expect(summary.precision).toBe(1);
+  });
+
+  it('misses bazaar flips once the price drops below the prediction', async () => {
+    const report = await runBacktest([snapshot(T, [], [], 1750), snapshot(T + 7 * HOUR, [], [], 1600)], { horizon: 8 * HOUR });
+    expect(report.outcomes.filter(o => o.strategyId === 'bazaar-instant').map(o => o.status)).toEqual(['pending']);
+    const expired = await runBacktest([snapshot(T, [], [], 1750), snapshot(T + 7 * HOUR, [], [], 1600)]);
+    expect(expired.outcomes.filter(o => o.strategyId === 'bazaar-instant').map(o => [o.status, o.observedSalePrice])).toEqual([['miss', undefined]]);
+  });
+});
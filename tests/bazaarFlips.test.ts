@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { computeBazaarFlips, computeBazaarOrderFlips } from '../services/hypixelService';
+import { DEFAULT_SCANNER_SETTINGS } from '../services/scannerSettingsService';
+import { RawBazaarProduct } from '../types';
+
+const product = (
+  productId: string,
+  quick: { buyPrice: number; sellPrice: number; buyMovingWeek: number; sellMovingWeek: number },
+  topBuyOrder?: { pricePerUnit: number; orders: number },
+  topSellOffer?: { pricePerUnit: number; orders: number }
+): RawBazaarProduct => ({
+  product_id: productId,
+  sell_summary: topBuyOrder ? [{ amount: 1000, ...topBuyOrder }] : [],
+  buy_summary: topSellOffer ? [{ amount: 1000, ...topSellOffer }] : [],
+  quick_status: { productId, buyVolume: 0, sellVolume: 0, buyOrders: 0, sellOrders: 0, ...quick },
+});
+
+describe('computeBazaarFlips', () => {
+  it('buys at the buy order price and sells at the sell offer price, net of tax', () => {
+    const [flip] = computeBazaarFlips({
+      ENCHANTED_DIAMOND: product('ENCHANTED_DIAMOND', { buyPrice: 1750, sellPrice: 1500, buyMovingWeek: 1_000_000, sellMovingWeek: 1_000_000 }),
+    });
+    expect(flip.itemName).toBe('Enchanted Diamond');
+    expect(flip.buyPrice).toBe(1500);
+    expect(flip.sellPrice).toBe(1750);
+    expect(flip.grossProfit).toBe(250);
+    expect(flip.fees).toBeCloseTo(21.875);
+    expect(flip.profit).toBeCloseTo(228.125);
+  });
+
+  it('drops thin spreads, illiquid products and one-sided books', () => {
+    const flips = computeBazaarFlips({
+      THIN: product('THIN', { buyPrice: 1010, sellPrice: 1000, buyMovingWeek: 1_000_000, sellMovingWeek: 1_000_000 }),
+      ILLIQUID: product('ILLIQUID', { buyPrice: 5000, sellPrice: 1000, buyMovingWeek: 50, sellMovingWeek: 50 }),
+      ONE_SIDED: product('ONE_SIDED', { buyPrice: 5000, sellPrice: 0, buyMovingWeek: 1_000_000, sellMovingWeek: 0 }),
+    });
+    expect(flips).toEqual([]);
+  });
+});
+
+describe('computeBazaarOrderFlips', () => {
+  it('places orders one tick inside the spread', () => {
+    const [flip] = computeBazaarOrderFlips({
+      ENCHANTED_DIAMOND: product(
+        'ENCHANTED_DIAMOND',
+        { buyPrice: 1750, sellPrice: 1500, buyMovingWeek: 168_000, sellMovingWeek: 168_000 },
+        { pricePerUnit: 1500, orders: 1 },
+        { pricePerUnit: 1750, orders: 1 }
+      ),
+    });
+    expect(flip.buyOrderPrice).toBeCloseTo(1500.1);
+    expect(flip.sellOfferPrice).toBeCloseTo(1749.9);
+    // 1000 fills per hour on each side, shared with one competing order.
+    expect(flip.unitsPerHour).toBe(500);
+    expect(flip.coinsPerHour).toBe(Math.round(500 * flip.profit));
+  });
+
+  it('requires orders on both sides of the book', () => {
+    expect(computeBazaarOrderFlips({
+      EMPTY: product('EMPTY', { buyPrice: 1750, sellPrice: 0, buyMovingWeek: 168_000, sellMovingWeek: 0 }, undefined, { pricePerUnit: 1750, orders: 1 }),
+    })).toEqual([]);
+  });
+
+  it('drops flips below the coins per hour floor', () => {
+    expect(computeBazaarOrderFlips({
+      SLOW: product('SLOW', { buyPrice: 1750, sellPrice: 1500, buyMovingWeek: 168, sellMovingWeek: 168 }, { pricePerUnit: 1500, orders: 9 }, { pricePerUnit: 1750, orders: 9 }),
+    })).toEqual([]);
+  });
+
+  it('reads the coins per hour floor from the settings', () => {
+    const slow = {
+      SLOW: product('SLOW', { buyPrice: 1750, sellPrice: 1500, buyMovingWeek: 168, sellMovingWeek: 168 }, { pricePerUnit: 1500, orders: 9 }, { pricePerUnit: 1750, orders: 9 }),
+    };
+    expect(computeBazaarOrderFlips(slow, undefined, { ...DEFAULT_SCANNER_SETTINGS, orderFlipMinCoinsPerHour: 0 })).toHaveLength(1);
+  });
+});
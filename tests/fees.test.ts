@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { calculateAuctionFees, calculateBazaarFees, DEFAULT_FEE_SETTINGS, FeeSettings, loadFeeSettings } from '../services/feeService';
+
+const settings = (overrides: Partial<FeeSettings>): FeeSettings => ({ ...DEFAULT_FEE_SETTINGS, ...overrides });
+
+describe('calculateAuctionFees', () => {
+  it('charges 1% listing and no claim tax below 1M', () => {
+    const fees = calculateAuctionFees(500_000);
+    expect(fees.listingFee).toBe(5_000);
+    expect(fees.claimTax).toBe(0);
+    expect(fees.durationFee).toBe(1_200);
+    expect(fees.total).toBe(6_200);
+  });
+
+  it('adds the 1% claim tax from 1M', () => {
+    const fees = calculateAuctionFees(1_000_000);
+    expect(fees.listingFee).toBe(10_000);
+    expect(fees.claimTax).toBe(10_000);
+  });
+
+  it.each([
+    [9_999_999, 0.01],
+    [10_000_000, 0.02],
+    [99_999_999, 0.02],
+    [100_000_000, 0.025],
+  ])('uses the listing bracket for %i', (price, rate) => {
+    expect(calculateAuctionFees(price).listingFee).toBeCloseTo(price * rate);
+  });
+
+  it('charges the duration fee of the configured duration', () => {
+    expect(calculateAuctionFees(1_000, settings({ auctionDuration: 1 })).durationFee).toBe(20);
+    expect(calculateAuctionFees(1_000, settings({ auctionDuration: 24 })).durationFee).toBe(350);
+  });
+
+  it('quadruples percentage fees under Derpy but not the duration fee', () => {
+    const fees = calculateAuctionFees(2_000_000, settings({ mayorPerks: { quadTaxing: true } }));
+    expect(fees.listingFee).toBe(80_000);
+    expect(fees.claimTax).toBe(80_000);
+    expect(fees.durationFee).toBe(1_200);
+  });
+
+  it('never charges bazaar tax', () => {
+    expect(calculateAuctionFees(5_000_000).bazaarTax).toBe(0);
+  });
+});
+
+describe('calculateBazaarFees', () => {
+  it.each([
+    [0, 12.5],
+    [1, 11.25],
+    [2, 10],
+  ] as const)('taxes 1000 coins at Bazaar Flipper level %i', (level, tax) => {
+    const fees = calculateBazaarFees(1_000, settings({ bazaarFlipperLevel: level }));
+    expect(fees.bazaarTax).toBeCloseTo(tax);
+    expect(fees.total).toBeCloseTo(tax);
+  });
+
+  it('ignores mayor perks', () => {
+    expect(calculateBazaarFees(1_000, settings({ mayorPerks: { quadTaxing: true } })).total).toBeCloseTo(12.5);
+  });
+});
+
+describe('loadFeeSettings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const load = (stored: unknown) => {
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    return loadFeeSettings();
+  };
+
+  it('keeps valid stored settings', () => {
+    const stored: FeeSettings = { auctionDuration: 12, bazaarFlipperLevel: 2, mayorPerks: { quadTaxing: true } };
+    expect(load(stored)).toEqual(stored);
+  });
+
+  it('falls back to the default for each invalid field', () => {
+    expect(load({ auctionDuration: 7, bazaarFlipperLevel: 1, mayorPerks: { quadTaxing: 'yes' } }))
+      .toEqual({ ...DEFAULT_FEE_SETTINGS, bazaarFlipperLevel: 1 });
+    expect(load({ auctionDuration: 6, bazaarFlipperLevel: '2', mayorPerks: null }))
+      .toEqual({ ...DEFAULT_FEE_SETTINGS, auctionDuration: 6 });
+    expect(load(null)).toEqual(DEFAULT_FEE_SETTINGS);
+  });
+});
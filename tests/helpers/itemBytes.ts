@@ -0,0 +1,54 @@
+import { gzipSync } from 'zlib';
+
+// Builds `item_bytes` blobs for test auctions: a gzipped, base64-encoded NBT compound
+// holding one item with the given ExtraAttributes, the same shape the auctions API returns.
+
+type NbtInput = number | string | NbtInput[] | { [key: string]: NbtInput };
+
+const TAG_END = 0;
+const TAG_INT = 3;
+const TAG_STRING = 8;
+const TAG_LIST = 9;
+const TAG_COMPOUND = 10;
+
+const tagType = (value: NbtInput): number => {
+  if (typeof value === 'number') return TAG_INT;
+  if (typeof value === 'string') return TAG_STRING;
+  if (Array.isArray(value)) return TAG_LIST;
+  return TAG_COMPOUND;
+};
+
+const encodeString = (value: string): Buffer => {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+};
+
+const encodePayload = (value: NbtInput): Buffer => {
+  if (typeof value === 'number') {
+    const buffer = Buffer.alloc(4);
+    buffer.writeInt32BE(value);
+    return buffer;
+  }
+  if (typeof value === 'string') return encodeString(value);
+  if (Array.isArray(value)) {
+    const header = Buffer.alloc(5);
+    header.writeUInt8(value.length > 0 ? tagType(value[0]) : TAG_END);
+    header.writeInt32BE(value.length, 1);
+    return Buffer.concat([header, ...value.map(encodePayload)]);
+  }
+  const entries = Object.entries(value).map(([name, entry]) =>
+    Buffer.concat([Buffer.from([tagType(entry)]), encodeString(name), encodePayload(entry)])
+  );
+  return Buffer.concat([...entries, Buffer.from([TAG_END])]);
+};
+
+export const encodeItemBytes = (extraAttributes: { [key: string]: NbtInput }, displayName?: string): string => {
+  const tag = displayName === undefined
+    ? { ExtraAttributes: extraAttributes }
+    : { ExtraAttributes: extraAttributes, display: { Name: displayName } };
+  const root = { i: [{ id: 276, Count: 1, tag }] };
+  const nbt = Buffer.concat([Buffer.from([TAG_COMPOUND]), encodeString(''), encodePayload(root)]);
+  return gzipSync(nbt).toString('base64');
+};
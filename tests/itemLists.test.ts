@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createItemFilter, EMPTY_ITEM_LISTS, ListedItem, validateItemRule } from '../services/itemListService';
+import { Rarity } from '../types';
+
+const hyperion: ListedItem = { itemId: 'HYPERION', name: 'Hyperion', rarity: Rarity.LEGENDARY, category: 'SWORD' };
+const diamond: ListedItem = { itemId: 'ENCHANTED_DIAMOND', name: 'Enchanted Diamond' };
+const bow: ListedItem = { itemId: 'JUJU_SHORTBOW', name: 'Juju Shortbow', rarity: Rarity.EPIC, category: 'BOW' };
+
+describe('createItemFilter', () => {
+  it('allows everything without rules', () => {
+    const isAllowed = createItemFilter(EMPTY_ITEM_LISTS);
+    expect([hyperion, diamond, bow].every(isAllowed)).toBe(true);
+  });
+
+  it('blocks by item id, normalized name, regex, rarity and category', () => {
+    const blocks = (kind: 'itemId' | 'name' | 'regex' | 'rarity' | 'category', value: string) =>
+      [hyperion, diamond, bow].filter(item => !createItemFilter({ block: [{ kind, value }], allow: [] })(item));
+    expect(blocks('itemId', 'hyperion')).toEqual([hyperion]);
+    expect(blocks('name', '  §6enchanted   DIAMOND ')).toEqual([diamond]);
+    expect(blocks('regex', 'short|hyper')).toEqual([hyperion, bow]);
+    expect(blocks('rarity', Rarity.EPIC)).toEqual([bow]);
+    expect(blocks('category', 'sword')).toEqual([hyperion]);
+  });
+
+  it('only allows allow-listed items, but blocks still win', () => {
+    const isAllowed = createItemFilter({
+      block: [{ kind: 'itemId', value: 'JUJU_SHORTBOW' }],
+      allow: [{ kind: 'itemId', value: 'HYPERION' }, { kind: 'category', value: 'BOW' }],
+    });
+    expect([hyperion, diamond, bow].filter(isAllowed)).toEqual([hyperion]);
+  });
+
+  it('skips invalid rules instead of failing', () => {
+    const isAllowed = createItemFilter({ block: [], allow: [{ kind: 'regex', value: '(' }] });
+    expect([hyperion, diamond].every(isAllowed)).toBe(true);
+  });
+});
+
+describe('validateItemRule', () => {
+  it('rejects empty values, unknown rarities and invalid regexes', () => {
+    expect(validateItemRule({ kind: 'itemId', value: ' ' })).toBe('Enter a value');
+    expect(validateItemRule({ kind: 'rarity', value: 'SUPREME' })).toBe('Unknown rarity');
+    expect(validateItemRule({ kind: 'regex', value: '[' })).toBe('Invalid regular expression');
+    expect(validateItemRule({ kind: 'regex', value: '^Ancient' })).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  closeJournalEntry, compareStrategies, createJournalEntry, holdTime, JournalEntry, journalToCsv, parseJournalCsv, periodStart, priceInputValue,
+  realizedProfit, realizedRoi, summarizeByPeriod,
+} from '../services/journalService';
+
+const HOUR = 60 * 60 * 1000;
+// A Wednesday, at noon local time so day and week boundaries do not depend on the time zone.
+const WEDNESDAY = new Date(2025, 9, 15, 12).getTime();
+
+const entry = (overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  ...createJournalEntry({
+    source: 'auction',
+    priceStrategy: 'iqrWall',
+    itemId: 'HYPERION',
+    itemName: 'Hyperion',
+    buyPrice: 800_000_000,
+    predictedSellPrice: 850_000_000,
+    predictedUnitProfit: 30_000_000,
+  }, 1, '', WEDNESDAY - 6 * HOUR),
+  ...overrides,
+});
+
+const sold = (overrides: Partial<JournalEntry> = {}): JournalEntry =>
+  closeJournalEntry(entry(overrides), 840_000_000, 20_000_000, WEDNESDAY);
+
+describe('realized profit', () => {
+  it('is the sale minus the fees and the cost, with hold time and ROI', () => {
+    const flip = sold();
+    expect(realizedProfit(flip)).toBe(20_000_000);
+    expect(realizedRoi(flip)).toBeCloseTo(0.025);
+    expect(holdTime(flip)).toBe(6 * HOUR);
+  });
+
+  it('scales with the quantity and is null while the flip is open', () => {
+    const bazaar = entry({ source: 'bazaar', quantity: 100, buyPrice: 1_000 });
+    expect(realizedProfit(bazaar)).toBeNull();
+    expect(realizedProfit(closeJournalEntry(bazaar, 1_200, 1_500, WEDNESDAY))).toBe(100 * 1_200 - 1_500 - 100 * 1_000);
+  });
+});
+
+describe('summarizeByPeriod', () => {
+  const flips = [
+    sold(),
+    closeJournalEntry(entry(), 790_000_000, 0, WEDNESDAY + 24 * HOUR),
+    closeJournalEntry(entry(), 900_000_000, 0, WEDNESDAY + 6 * 24 * HOUR), // Next Tuesday
+    entry(), // Still open
+  ];
+
+  it('groups sales by day, newest first', () => {
+    const days = summarizeByPeriod(flips, 'day');
+    expect(days.map(day => day.realizedProfit)).toEqual([100_000_000, -10_000_000, 20_000_000]);
+    expect(days[2].periodStart).toBe(new Date(2025, 9, 15).getTime());
+  });
+
+  it('groups sales by week starting on Monday', () => {
+    expect(periodStart(WEDNESDAY, 'week')).toBe(new Date(2025, 9, 13).getTime());
+    const weeks = summarizeByPeriod(flips, 'week');
+    expect(weeks.map(week => [week.flips, week.realizedProfit])).toEqual([[1, 100_000_000], [2, 10_000_000]]);
+    expect(weeks[1].roi).toBeCloseTo(10_000_000 / 1_600_000_000);
+  });
+});
+
+describe('compareStrategies', () => {
+  it('compares predicted and realized profit per finder and price strategy', () => {
+    const strategies = compareStrategies([
+      sold(),
+      sold({ priceStrategy: 'recentSales' }),
+      sold({ priceStrategy: 'recentSales' }),
+      closeJournalEntry(entry({ source: 'bazaar', priceStrategy: undefined, predictedProfit: 500 }), 800_000_100, 0, WEDNESDAY),
+      entry(),
+    ]);
+    expect(strategies.map(s => [s.strategy, s.flips, s.predictedProfit, s.realizedProfit])).toEqual([
+      ['auction:recentSales', 2, 60_000_000, 40_000_000],
+      ['auction:iqrWall', 1, 30_000_000, 20_000_000],
+      ['bazaar', 1, 500, 100],
+    ]);
+    expect(strategies[0].accuracy).toBeCloseTo(2 / 3);
+    expect(strategies[0].averageHoldTime).toBe(6 * HOUR);
+  });
+});
+
+describe('journal CSV', () => {
+  it('round-trips entries, including quoted names and notes', () => {
+    const entries = [sold({ notes: 'Sold to "Steve", finally' }), entry({ itemName: 'Hyperion, Withered', source: 'manual', priceStrategy: undefined })];
+    expect(parseJournalCsv(journalToCsv(entries))).toEqual(entries);
+  });
+
+  it('rejects files with missing columns or malformed rows', () => {
+    expect(() => parseJournalCsv('id,itemId\n1,HYPERION\n')).toThrow(/Missing columns/);
+    const csv = journalToCsv([entry()]).replace('800000000', 'lots');
+    expect(() => parseJournalCsv(csv)).toThrow('Line 2: invalid buyPrice "lots"');
+  });
+
+  it('rejects prototype keys as sources or strategies, empty quantities and negative prices', () => {
+    const csv = journalToCsv([entry()]);
+    expect(() => parseJournalCsv(csv.replace(',auction,', ',constructor,'))).toThrow('invalid source');
+    expect(() => parseJournalCsv(csv.replace(',iqrWall,', ',toString,'))).toThrow('invalid priceStrategy');
+    expect(() => parseJournalCsv(journalToCsv([entry({ quantity: 0 })]))).toThrow('invalid quantity');
+    expect(() => parseJournalCsv(journalToCsv([entry({ quantity: 1.5 })]))).toThrow('invalid quantity');
+    expect(() => parseJournalCsv(journalToCsv([entry({ buyPrice: -1 })]))).toThrow('invalid buyPrice');
+    expect(() => parseJournalCsv(journalToCsv([closeJournalEntry(entry(), 840_000_000, -5, WEDNESDAY)]))).toThrow('invalid sellFees');
+  });
+});
+
+describe('priceInputValue', () => {
+  it('keeps the bazaar tenth of a coin and whole auction prices', () => {
+    expect(priceInputValue(3.4)).toBe('3.4');
+    expect(priceInputValue(0.7000000001)).toBe('0.7');
+    expect(priceInputValue(850_000_000)).toBe('850000000');
+  });
+});
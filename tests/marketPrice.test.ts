@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MARKET_PRICE_OPTIONS, findMarketPriceAuction } from '../services/priceStrategyService';
+
+// Ladders are sorted ascending; the first entry is the auction being bought.
+const ladder = (...prices: number[]) => prices.map(starting_bid => ({ starting_bid }));
+const marketPrice = (...prices: number[]) => findMarketPriceAuction(ladder(...prices))?.starting_bid ?? null;
+
+describe('findMarketPriceAuction', () => {
+  describe('tiny groups', () => {
+    it('returns null without any comparables', () => {
+      expect(marketPrice()).toBeNull();
+      expect(marketPrice(100)).toBeNull();
+    });
+
+    it('uses the only comparable of a pair', () => {
+      expect(marketPrice(100, 250)).toBe(250);
+    });
+
+    it('prices three listings from the two comparables', () => {
+      expect(marketPrice(100, 200, 205)).toBe(200);
+    });
+  });
+
+  describe('walls', () => {
+    it('uses the cheapest comparable when prices are clustered', () => {
+      expect(marketPrice(50, 100, 102, 104, 106, 108)).toBe(100);
+    });
+
+    it('skips undercuts below a wall', () => {
+      expect(marketPrice(50, 80, 100, 101, 102, 103, 104)).toBe(100);
+    });
+
+    it('starts the wall after the first significant jump only', () => {
+      expect(marketPrice(10, 50, 60, 70, 71, 72, 73, 74, 75)).toBe(60);
+    });
+
+    it('does not treat a jump at the threshold as a wall', () => {
+      expect(marketPrice(50, 100, 108, 109, 110)).toBe(100);
+    });
+  });
+
+  describe('outliers', () => {
+    it('trims extreme listings before looking for a wall', () => {
+      expect(marketPrice(800, 1000, 1010, 1020, 1030, 1040, 1050, 5000)).toBe(1000);
+    });
+
+    it('lets a lone outlier become the wall in a small group', () => {
+      // Q3 is the outlier itself, so the IQR cannot trim it.
+      expect(marketPrice(800, 1000, 1010, 1020, 5000)).toBe(5000);
+    });
+
+    it('falls back to the cheapest comparable when trimming leaves too little', () => {
+      expect(marketPrice(10, 20, 20, 20, 20, 20, 20, 20, 200000)).toBe(20);
+    });
+  });
+
+  describe('equal prices', () => {
+    it('returns the first comparable when all prices match', () => {
+      const auctions = ladder(600, 600, 600, 600, 600);
+      expect(findMarketPriceAuction(auctions)).toBe(auctions[1]);
+    });
+
+    it('handles a ladder of zero prices', () => {
+      expect(marketPrice(0, 0, 0, 0)).toBe(0);
+    });
+  });
+
+  describe('options', () => {
+    it('finds more walls with a lower gap threshold', () => {
+      const prices = [50, 100, 105, 106, 107];
+      expect(marketPrice(...prices)).toBe(100);
+      expect(findMarketPriceAuction(ladder(...prices), { ...DEFAULT_MARKET_PRICE_OPTIONS, gapThreshold: 0.04 })?.starting_bid).toBe(105);
+    });
+
+    it('trims more with a lower IQR multiplier', () => {
+      const prices = [50, 100, 101, 102, 103, 104, 110, 125];
+      expect(marketPrice(...prices)).toBe(125);
+      expect(findMarketPriceAuction(ladder(...prices), { ...DEFAULT_MARKET_PRICE_OPTIONS, iqrMultiplier: 1 })?.starting_bid).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { gzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { decodeItem, decodeItemBytes, decodeNbt, resolveItemId } from '../services/nbtService';
+import { ExtraAttributes, Rarity } from '../types';
+import { encodeItemBytes } from './helpers/itemBytes';
+
+const attributes = (overrides: Partial<ExtraAttributes> = {}): ExtraAttributes => ({
+  id: 'HYPERION',
+  enchantments: {},
+  hot_potato_count: 0,
+  rarity_upgrades: 0,
+  upgrade_level: 0,
+  gems: {},
+  ...overrides,
+});
+
+describe('decodeItem', () => {
+  it('decodes the typed attributes and display name of the item', async () => {
+    const itemBytes = encodeItemBytes({
+      id: 'HYPERION',
+      uuid: 'abc',
+      modifier: 'heroic',
+      enchantments: { ultimate_wise: 5, sharpness: 6 },
+      hot_potato_count: 15,
+      rarity_upgrades: 1,
+      upgrade_level: 5,
+      gems: { SAPPHIRE_0: 'PERFECT', COMBAT_0: { quality: 'FLAWLESS' } },
+    }, '§dHeroic Hyperion');
+
+    const item = await decodeItem(itemBytes);
+    expect(item?.displayName).toBe('§dHeroic Hyperion');
+    expect(item?.attributes).toEqual(attributes({
+      uuid: 'abc',
+      modifier: 'heroic',
+      enchantments: { ultimate_wise: 5, sharpness: 6 },
+      hot_potato_count: 15,
+      rarity_upgrades: 1,
+      upgrade_level: 5,
+      gems: { SAPPHIRE_0: 'PERFECT', COMBAT_0: 'FLAWLESS' },
+    }));
+  });
+
+  it('defaults missing counters and reads stars from the older dungeon_item_level', async () => {
+    const decoded = await decodeItemBytes(encodeItemBytes({ id: 'LIVID_DAGGER', dungeon_item_level: 3 }));
+    expect(decoded).toEqual(attributes({ id: 'LIVID_DAGGER', upgrade_level: 3 }));
+  });
+
+  it('parses the pet info JSON', async () => {
+    const decoded = await decodeItemBytes(encodeItemBytes({
+      id: 'PET',
+      petInfo: JSON.stringify({ type: 'ENDER_DRAGON', tier: 'LEGENDARY', exp: 25_000_000, active: false, heldItem: 'PET_ITEM_TIER_BOOST' }),
+    }));
+    expect(decoded?.petInfo).toEqual({
+      type: 'ENDER_DRAGON', tier: Rarity.LEGENDARY, exp: 25_000_000, active: false, candyUsed: 0, heldItem: 'PET_ITEM_TIER_BOOST', skin: undefined,
+    });
+  });
+
+  it('drops pet info without a string type and tier', async () => {
+    const petInfo = async (info: unknown) =>
+      (await decodeItemBytes(encodeItemBytes({ id: 'PET', petInfo: JSON.stringify(info) })))?.petInfo;
+    expect(await petInfo({ type: 'ENDER_DRAGON' })).toBeUndefined();
+    expect(await petInfo({ type: 7, tier: 'LEGENDARY' })).toBeUndefined();
+    expect(await petInfo(['ENDER_DRAGON', 'LEGENDARY'])).toBeUndefined();
+    expect(await petInfo(null)).toBeUndefined();
+    expect(await petInfo({ type: 'ENDER_DRAGON', tier: 'LEGENDARY', exp: 'lots', heldItem: 3 })).toEqual({
+      type: 'ENDER_DRAGON', tier: Rarity.LEGENDARY, exp: 0, active: false, candyUsed: 0, heldItem: undefined, skin: undefined,
+    });
+  });
+
+  it('returns null for blobs without a SkyBlock item', async () => {
+    const noAttributes = gzipSync(Buffer.from([10, 0, 0, 0])).toString('base64'); // Empty root compound
+    expect(await decodeItem(noAttributes)).toBeNull();
+  });
+
+  it('rejects blobs whose root is not a compound', async () => {
+    const rootString = gzipSync(Buffer.from([8, 0, 0, 0, 1, 0x41])).toString('base64');
+    await expect(decodeNbt(rootString)).rejects.toThrow('Expected root NBT compound, got tag type 8');
+  });
+});
+
+describe('resolveItemId', () => {
+  const pet = (tier: string) => attributes({
+    id: 'PET',
+    petInfo: { type: 'ENDER_DRAGON', tier: tier as Rarity, exp: 0, active: false, candyUsed: 0 },
+  });
+
+  it('keys pets by type and NEU rarity index', () => {
+    expect(resolveItemId(pet('COMMON'))).toBe('ENDER_DRAGON;0');
+    expect(resolveItemId(pet('MYTHIC'))).toBe('ENDER_DRAGON;5');
+  });
+
+  it('keeps the tier name for pet tiers without an index', () => {
+    expect(resolveItemId(pet('SPECIAL'))).toBe('ENDER_DRAGON;SPECIAL');
+  });
+
+  it('keys single-enchant books by enchant and level, and leaves other items alone', () => {
+    expect(resolveItemId(attributes({ id: 'ENCHANTED_BOOK', enchantments: { ultimate_wise: 5 } }))).toBe('ULTIMATE_WISE;5');
+    expect(resolveItemId(attributes({ id: 'ENCHANTED_BOOK', enchantments: { sharpness: 6, smite: 6 } }))).toBe('ENCHANTED_BOOK');
+    expect(resolveItemId(attributes())).toBe('HYPERION');
+  });
+});
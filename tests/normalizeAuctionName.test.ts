@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeAuctionName } from '../services/hypixelService';
+
+describe('normalizeAuctionName', () => {
+  it('strips colour and format codes', () => {
+    expect(normalizeAuctionName('§6§lLegendary §r§dItem')).toBe('Legendary Item');
+  });
+
+  it('strips dungeon stars and the fragged prefix', () => {
+    expect(normalizeAuctionName('§d⚚ Hyperion §6✪✪✪✪✪')).toBe('Hyperion');
+  });
+
+  it('keeps reforges and pet levels', () => {
+    expect(normalizeAuctionName('§6Heroic Hyperion')).toBe('Heroic Hyperion');
+    expect(normalizeAuctionName('§7[Lvl 100] §6Ender Dragon')).toBe('[Lvl 100] Ender Dragon');
+  });
+
+  it('leaves plain names alone', () => {
+    expect(normalizeAuctionName('Aspect of the End')).toBe('Aspect of the End');
+  });
+});
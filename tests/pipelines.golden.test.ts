@@ -0,0 +1,48 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { fetchAuctionFlips, fetchBazaarFlips, fetchBazaarOrderFlips, setHypixelClient } from '../services/hypixelService';
+import { createReplayClient, HypixelSnapshot } from '../services/hypixelClient';
+import { DEFAULT_COMPARABLE_CONFIG } from '../services/comparablesService';
+import { DEFAULT_FEE_SETTINGS } from '../services/feeService';
+
+// Runs the full flip pipelines over each recorded snapshot in fixtures/snapshots and compares
+// the output with fixtures/golden. After an intended change, review and refresh the golden
+// files with `npm test -- -u`. Recordings made in record mode can be dropped in as snapshots.
+
+const SNAPSHOT_DIR = path.join(__dirname, 'fixtures', 'snapshots');
+const GOLDEN_DIR = path.join(__dirname, 'fixtures', 'golden');
+
+const snapshotNames = readdirSync(SNAPSHOT_DIR).filter(file => file.endsWith('.json')).map(file => file.replace(/\.json$/, ''));
+
+const toGolden = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+describe.each(snapshotNames)('snapshot %s', name => {
+  let snapshot: HypixelSnapshot;
+
+  beforeAll(() => {
+    snapshot = JSON.parse(readFileSync(path.join(SNAPSHOT_DIR, `${name}.json`), 'utf8'));
+  });
+
+  beforeEach(() => {
+    setHypixelClient(createReplayClient(snapshot), { recordHistory: false });
+  });
+
+  it('auction flips match the golden file', async () => {
+    if (!Object.keys(snapshot.responses).some(key => key.startsWith('auctions?'))) return;
+    const flips = await fetchAuctionFlips(DEFAULT_COMPARABLE_CONFIG, DEFAULT_FEE_SETTINGS);
+    await expect(toGolden(flips)).toMatchFileSnapshot(path.join(GOLDEN_DIR, `${name}.auction-flips.json`));
+  });
+
+  it('bazaar flips match the golden file', async () => {
+    if (!('bazaar' in snapshot.responses)) return;
+    const flips = await fetchBazaarFlips(DEFAULT_FEE_SETTINGS);
+    await expect(toGolden(flips)).toMatchFileSnapshot(path.join(GOLDEN_DIR, `${name}.bazaar-flips.json`));
+  });
+
+  it('bazaar order flips match the golden file', async () => {
+    if (!('bazaar' in snapshot.responses)) return;
+    const flips = await fetchBazaarOrderFlips(DEFAULT_FEE_SETTINGS);
+    await expect(toGolden(flips)).toMatchFileSnapshot(path.join(GOLDEN_DIR, `${name}.bazaar-order-flips.json`));
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  auctionPortfolioCandidates, bazaarPortfolioCandidates, planPortfolio, PortfolioCandidate, PortfolioOptions,
+} from '../services/portfolioService';
+import { AuctionFlip, Rarity } from '../types';
+
+const options = (overrides: Partial<PortfolioOptions> = {}): PortfolioOptions => ({
+  budget: 1_000_000,
+  auctionSlots: 14,
+  maxItemShare: 1,
+  horizonHours: 24,
+  ...overrides,
+});
+
+const candidate = (overrides: Partial<PortfolioCandidate> = {}): PortfolioCandidate => ({
+  key: 'auction:1',
+  source: 'auction',
+  itemId: 'ITEM_1',
+  itemName: 'Item 1',
+  unitCost: 100_000,
+  unitProfit: 20_000,
+  maxUnits: 1,
+  usesAuctionSlot: true,
+  sellProbability: 1,
+  ...overrides,
+});
+
+const pickedKeys = (candidates: PortfolioCandidate[], opts: PortfolioOptions) =>
+  planPortfolio(candidates, opts).picks.map(pick => pick.candidate.key).sort();
+
+describe('planPortfolio', () => {
+  it('stays within the budget and reports capital, expected return and ROI', () => {
+    const plan = planPortfolio([
+      candidate({ key: 'a', itemId: 'A', unitCost: 600_000, unitProfit: 120_000 }),
+      candidate({ key: 'b', itemId: 'B', unitCost: 500_000, unitProfit: 50_000 }),
+      candidate({ key: 'c', itemId: 'C', unitCost: 300_000, unitProfit: 45_000 }),
+    ], options());
+    expect(plan.picks.map(pick => pick.candidate.key).sort()).toEqual(['a', 'c']);
+    expect(plan.totalCost).toBe(900_000);
+    expect(plan.expectedProfit).toBe(165_000);
+    expect(plan.roi).toBeCloseTo(165_000 / 900_000);
+    expect(plan.slotsUsed).toBe(2);
+  });
+
+  it('fills no more auction slots than are free', () => {
+    const candidates = [1, 2, 3].map(i => candidate({ key: `a${i}`, itemId: `A${i}`, unitCost: 10_000, unitProfit: 1_000 * i }));
+    expect(pickedKeys(candidates, options({ auctionSlots: 2 }))).toEqual(['a2', 'a3']);
+  });
+
+  it('prefers a big flip over small ones when slots, not coins, are the limit', () => {
+    const candidates = [
+      candidate({ key: 'big', itemId: 'BIG', unitCost: 900_000, unitProfit: 100_000 }),
+      candidate({ key: 'small', itemId: 'SMALL', unitCost: 10_000, unitProfit: 5_000 }),
+    ];
+    expect(pickedKeys(candidates, options({ auctionSlots: 1 }))).toEqual(['big']);
+  });
+
+  it('caps the capital put into any one item', () => {
+    const plan = planPortfolio([
+      candidate({ key: 'bz', source: 'bazaar', itemId: 'ENCHANTED_DIAMOND', unitCost: 1_000, unitProfit: 100, maxUnits: 10_000, usesAuctionSlot: false }),
+    ], options({ maxItemShare: 0.25 }));
+    expect(plan.picks[0].units).toBe(250);
+    expect(plan.totalCost).toBe(250_000);
+  });
+
+  it('discounts illiquid items by their chance to sell', () => {
+    const plan = planPortfolio([
+      candidate({ key: 'liquid', itemId: 'LIQUID', unitProfit: 30_000, sellProbability: 0.9 }),
+      candidate({ key: 'illiquid', itemId: 'ILLIQUID', unitProfit: 50_000, sellProbability: 0.2 }),
+    ], options({ auctionSlots: 1 }));
+    expect(plan.picks.map(pick => pick.candidate.key)).toEqual(['liquid']);
+    expect(plan.expectedProfit).toBeCloseTo(27_000);
+  });
+
+  it('skips candidates with no expected profit', () => {
+    const candidates = [
+      candidate({ key: 'loss', unitProfit: -5_000 }),
+      candidate({ key: 'never-sells', sellProbability: 0 }),
+      candidate({ key: 'no-volume', maxUnits: 0 }),
+    ];
+    expect(planPortfolio(candidates, options()).picks).toEqual([]);
+  });
+});
+
+describe('bazaarPortfolioCandidates', () => {
+  it('limits units to a share of the volume traded within the horizon', () => {
+    const [bazaar] = bazaarPortfolioCandidates([{
+      id: 'ENCHANTED_DIAMOND',
+      itemName: 'Enchanted Diamond',
+      buyPrice: 1_000,
+      sellPrice: 1_100,
+      grossProfit: 100,
+      fees: 1,
+      profit: 99,
+      buyVolume: 168_000,
+      sellVolume: 336_000,
+    }], 24);
+    // 1,000 units an hour on the thinner side, 24 hours, 10% of it
+    expect(bazaar.maxUnits).toBe(2_400);
+    expect(bazaar.usesAuctionSlot).toBe(false);
+  });
+});
+
+describe('auctionPortfolioCandidates', () => {
+  const flip = (overrides: Partial<AuctionFlip> = {}): AuctionFlip => ({
+    id: 'auction-1',
+    itemId: 'HYPERION',
+    itemName: 'Hyperion',
+    rarity: Rarity.LEGENDARY,
+    lore: '',
+    lowestBin: 800_000_000,
+    marketPrice: 850_000_000,
+    grossProfit: 50_000_000,
+    fees: 20_000_000,
+    profit: 30_000_000,
+    comparableKey: 'HYPERION',
+    confidence: 0.8,
+    priceStrategy: 'iqrWall',
+    salesPerHour: 0.5,
+    medianTimeToSell: 60 * 60 * 1000,
+    coinsPerHour: 30_000_000,
+    ...overrides,
+  });
+
+  it('discounts by the chance of a sale at the observed rate and by confidence', () => {
+    const [candidate] = auctionPortfolioCandidates([flip()], 2);
+    expect(candidate.sellProbability).toBeCloseTo((1 - Math.exp(-1)) * 0.8);
+  });
+
+  it('treats buckets without any observed sale as unknown rather than unsellable', () => {
+    const [candidate] = auctionPortfolioCandidates([flip({ salesPerHour: 0, medianTimeToSell: 60 * 60 * 1000 })], 24);
+    expect(candidate.sellProbability).toBeCloseTo(0.5 * 0.8);
+  });
+
+  it('uses the sales rate even when no time to sell is known', () => {
+    const [candidate] = auctionPortfolioCandidates([flip({ medianTimeToSell: null })], 2);
+    expect(candidate.sellProbability).toBeCloseTo((1 - Math.exp(-1)) * 0.8);
+  });
+});
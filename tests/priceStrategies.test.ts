@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MARKET_PRICE_OPTIONS, PRICE_STRATEGIES, PricingInput } from '../services/priceStrategyService';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1760000000000;
+
+const input = (overrides: Partial<PricingInput>): PricingInput => ({
+  buyPrice: 100,
+  listings: [],
+  sales: [],
+  history: [],
+  itemMarketPrice: null,
+  now: NOW,
+  marketPriceOptions: DEFAULT_MARKET_PRICE_OPTIONS,
+  ...overrides,
+});
+
+describe('iqrWall', () => {
+  const { estimate } = PRICE_STRATEGIES.iqrWall;
+
+  it('prices at the market wall', () => {
+    expect(estimate(input({ listings: [150, 200, 201, 202, 203] }))?.price).toBe(200);
+  });
+
+  it('is more confident with more, tighter listings', () => {
+    const few = estimate(input({ listings: [200, 201] }))!;
+    const many = estimate(input({ listings: Array.from({ length: 12 }, (_, i) => 200 + i) }))!;
+    const spread = estimate(input({ listings: [200, 260, 320, 400, 450, 500, 560, 600, 700, 800] }))!;
+    expect(many.confidence).toBeGreaterThan(few.confidence);
+    expect(many.confidence).toBeGreaterThan(spread.confidence);
+    expect(many.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('returns null without comparables', () => {
+    expect(estimate(input({ listings: [] }))).toBeNull();
+  });
+});
+
+describe('lowestMedian', () => {
+  it('takes the median of the five cheapest listings', () => {
+    const estimate = PRICE_STRATEGIES.lowestMedian.estimate(input({ listings: [200, 210, 220, 230, 240, 900, 1000] }))!;
+    expect(estimate.price).toBe(220);
+  });
+
+  it('scales confidence with the number of listings up to five', () => {
+    const two = PRICE_STRATEGIES.lowestMedian.estimate(input({ listings: [200, 200] }))!;
+    const five = PRICE_STRATEGIES.lowestMedian.estimate(input({ listings: [200, 200, 200, 200, 200] }))!;
+    expect(two.confidence).toBeCloseTo(0.4);
+    expect(five.confidence).toBe(1);
+  });
+});
+
+describe('recentSales', () => {
+  const { estimate } = PRICE_STRATEGIES.recentSales;
+
+  it('weights recent sales more than old ones', () => {
+    const sales = [
+      { price: 100, timestamp: NOW - 40 * HOUR },
+      { price: 100, timestamp: NOW - 30 * HOUR },
+      { price: 300, timestamp: NOW - HOUR },
+    ];
+    expect(estimate(input({ sales }))?.price).toBe(300);
+  });
+
+  it('ignores sales outside the window and in the future', () => {
+    const sales = [{ price: 100, timestamp: NOW - 50 * HOUR }, { price: 100, timestamp: NOW + HOUR }];
+    expect(estimate(input({ sales }))).toBeNull();
+  });
+
+  it('counts old sales for less confidence', () => {
+    const fresh = Array.from({ length: 5 }, () => ({ price: 200, timestamp: NOW }));
+    const stale = fresh.map(sale => ({ ...sale, timestamp: NOW - 24 * HOUR }));
+    expect(estimate(input({ sales: fresh }))!.confidence).toBe(1);
+    expect(estimate(input({ sales: stale }))!.confidence).toBeLessThan(0.1);
+  });
+});
+
+describe('historyFloor', () => {
+  const { estimate } = PRICE_STRATEGIES.historyFloor;
+  const listings = [200, 201, 202, 203, 204, 205, 206, 207, 208, 209];
+
+  it('moves the current wall towards the smoothed history', () => {
+    const history = Array.from({ length: 24 }, (_, i) => ({ timestamp: NOW - (24 - i) * HOUR, marketPrice: 1000, samples: 1 }));
+    // The item is 20% above its usual level today, so the bucket is priced below its current wall.
+    const result = estimate(input({ listings, history, itemMarketPrice: 1200 }))!;
+    expect(result.price).toBeLessThan(200);
+    expect(result.price).toBeGreaterThan(170);
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('needs recorded history', () => {
+    expect(estimate(input({ listings, itemMarketPrice: 1200 }))).toBeNull();
+  });
+});
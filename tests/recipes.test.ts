@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildCostTree, IngredientPrice, RecipeDatabase, RecipeEntry } from '../services/recipeService';
+
+const recipe = (itemId: string, ingredients: Record<string, number>, outputCount = 1): RecipeEntry => ({
+  itemId,
+  outputCount,
+  ingredients: Object.entries(ingredients).map(([ingredientId, quantity]) => ({ ingredientId, quantity })),
+});
+
+const database = (...entries: RecipeEntry[]): RecipeDatabase => new Map(entries.map(entry => [entry.itemId, entry]));
+
+const prices = (instaBuy: Record<string, number>): Map<string, IngredientPrice> =>
+  new Map(Object.entries(instaBuy).map(([id, instaBuyPrice]) => [id, { name: id, instaBuyPrice }]));
+
+describe('buildCostTree', () => {
+  it('crafts ingredients when that is cheaper and scales them by quantity', () => {
+    const tree = buildCostTree('BLOCK', database(
+      recipe('BLOCK', { ENCHANTED_IRON: 9 }),
+      recipe('ENCHANTED_IRON', { IRON: 160 }, 2),
+    ), prices({ ENCHANTED_IRON: 1000, IRON: 5 }), { useBuyOrders: false });
+
+    expect(tree?.totalCost).toBe(9 * 80 * 5);
+    expect(tree?.children[0]).toMatchObject({ itemId: 'ENCHANTED_IRON', quantity: 9, method: 'craft', unitCost: 400 });
+    expect(tree?.children[0].children[0]).toMatchObject({ itemId: 'IRON', quantity: 720, method: 'instabuy', totalCost: 3600 });
+  });
+
+  it('buys an item inside its own subtree instead of crafting it in a cycle', () => {
+    const tree = buildCostTree('ROOT', database(
+      recipe('ROOT', { A: 1, B: 1 }),
+      recipe('A', { B: 2 }),
+      recipe('B', { A: 1 }),
+    ), prices({ A: 100, B: 30 }), { useBuyOrders: false });
+
+    // A costs 60 crafted from two bought B; B cannot be crafted from A inside A's subtree.
+    expect(tree?.children.map(child => [child.itemId, child.method, child.totalCost])).toEqual([['A', 'craft', 60], ['B', 'instabuy', 30]]);
+  });
+
+  it('returns null when a cycle leaves an ingredient that cannot be bought', () => {
+    const tree = buildCostTree('A', database(recipe('A', { B: 1 }), recipe('B', { A: 1 })), prices({}), { useBuyOrders: false });
+    expect(tree).toBeNull();
+  });
+});
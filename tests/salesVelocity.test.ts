@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { computeSalesVelocity, expectedCoinsPerHour } from '../services/salesVelocityService';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = 1760000000000;
+
+describe('computeSalesVelocity', () => {
+  it('counts sales per hour over the observed period', () => {
+    const sales = [10, 20, 30, 40, 50, 60].map(minutes => ({ price: 100, timestamp: NOW - minutes * MINUTE }));
+    expect(computeSalesVelocity(sales, NOW - 2 * HOUR, NOW).salesPerHour).toBe(3);
+  });
+
+  it('ignores sales outside the observed period', () => {
+    const sales = [{ price: 100, timestamp: NOW - 3 * HOUR }, { price: 100, timestamp: NOW + MINUTE }];
+    expect(computeSalesVelocity(sales, NOW - HOUR, NOW).salesPerHour).toBe(0);
+  });
+
+  it('takes the median time to sell from sales of known listings', () => {
+    const sales = [
+      { price: 100, timestamp: NOW - MINUTE, listedAt: NOW - 11 * MINUTE },
+      { price: 100, timestamp: NOW - MINUTE, listedAt: NOW - 31 * MINUTE },
+      { price: 100, timestamp: NOW - MINUTE, listedAt: NOW - 21 * MINUTE },
+      { price: 100, timestamp: NOW - MINUTE }, // Listed before we started watching
+    ];
+    const velocity = computeSalesVelocity(sales, NOW - HOUR, NOW);
+    expect(velocity.medianTimeToSell).toBe(20 * MINUTE);
+    expect(velocity.salesPerHour).toBe(4);
+  });
+
+  it('has no time to sell without known listings', () => {
+    expect(computeSalesVelocity([{ price: 100, timestamp: NOW - MINUTE }], NOW - HOUR, NOW).medianTimeToSell).toBeNull();
+  });
+});
+
+describe('expectedCoinsPerHour', () => {
+  it('divides the profit by the median time to sell', () => {
+    expect(expectedCoinsPerHour(1_000_000, { salesPerHour: 1, medianTimeToSell: 30 * MINUTE })).toBe(2_000_000);
+  });
+
+  it('falls back to the gap between sales', () => {
+    expect(expectedCoinsPerHour(1_000_000, { salesPerHour: 0.5, medianTimeToSell: null })).toBe(500_000);
+  });
+
+  it('is zero for items that have not sold', () => {
+    expect(expectedCoinsPerHour(1_000_000, { salesPerHour: 0, medianTimeToSell: null })).toBe(0);
+  });
+
+  it('caps items that sell almost instantly at one sale a minute', () => {
+    expect(expectedCoinsPerHour(1_000, { salesPerHour: 600, medianTimeToSell: 1000 })).toBe(60_000);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FEE_SETTINGS } from '../services/feeService';
+import { DEFAULT_SCANNER_SETTINGS, parseSettingsProfile, validateScannerSettings } from '../services/scannerSettingsService';
+
+const profile = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({ version: 1, scanner: DEFAULT_SCANNER_SETTINGS, fees: DEFAULT_FEE_SETTINGS, ...overrides });
+
+describe('validateScannerSettings', () => {
+  it('accepts the defaults', () => {
+    expect(validateScannerSettings({ ...DEFAULT_SCANNER_SETTINGS })).toEqual({});
+  });
+
+  it('rejects missing, fractional and out-of-range values', () => {
+    const errors = validateScannerSettings({
+      ...DEFAULT_SCANNER_SETTINGS,
+      auctionMinProfit: NaN,
+      trendAnalysisItems: 2.5,
+      auctionRefreshSeconds: 5,
+      gapThreshold: undefined,
+    });
+    expect(Object.keys(errors).sort()).toEqual(['auctionMinProfit', 'auctionRefreshSeconds', 'gapThreshold', 'trendAnalysisItems']);
+    expect(errors.trendAnalysisItems).toBe('Must be a whole number');
+    expect(errors.auctionRefreshSeconds).toBe('Must be between 20 and 3600');
+  });
+});
+
+describe('parseSettingsProfile', () => {
+  it('round-trips a profile', () => {
+    const scanner = { ...DEFAULT_SCANNER_SETTINGS, auctionMinProfit: 250000 };
+    const fees = { ...DEFAULT_FEE_SETTINGS, auctionDuration: 12 };
+    expect(parseSettingsProfile(profile({ scanner, fees }))).toEqual({ version: 1, scanner, fees });
+  });
+
+  it('fills settings missing from older profiles with the defaults', () => {
+    const parsed = parseSettingsProfile(profile({ scanner: { auctionMinProfit: 1000 } }));
+    expect(parsed.scanner).toEqual({ ...DEFAULT_SCANNER_SETTINGS, auctionMinProfit: 1000 });
+  });
+
+  it('drops unknown fields', () => {
+    const parsed = parseSettingsProfile(profile({ scanner: { ...DEFAULT_SCANNER_SETTINGS, unknown: 1 }, fees: { ...DEFAULT_FEE_SETTINGS, apiKey: 'x' } }));
+    expect(parsed.scanner).not.toHaveProperty('unknown');
+    expect(parsed.fees).not.toHaveProperty('apiKey');
+  });
+
+  it('rejects invalid files with a readable message', () => {
+    expect(() => parseSettingsProfile('not json')).toThrow('not valid JSON');
+    expect(() => parseSettingsProfile(JSON.stringify({ scanner: {} }))).toThrow('not a settings profile');
+    expect(() => parseSettingsProfile(profile({ scanner: { bazaarRefreshSeconds: 1 } }))).toThrow('bazaarRefreshSeconds: Must be between 10 and 3600');
+    expect(() => parseSettingsProfile(profile({ fees: { ...DEFAULT_FEE_SETTINGS, auctionDuration: 7 } }))).toThrow('fee settings');
+  });
+
+  it('rejects null sections instead of failing on them', () => {
+    expect(() => parseSettingsProfile('null')).toThrow('not a settings profile');
+    expect(() => parseSettingsProfile(profile({ fees: null }))).toThrow('not a settings profile');
+    expect(() => parseSettingsProfile(profile({ scanner: null }))).toThrow('not a settings profile');
+    expect(() => parseSettingsProfile(profile({ fees: { ...DEFAULT_FEE_SETTINGS, mayorPerks: null } }))).toThrow('fee settings');
+  });
+});
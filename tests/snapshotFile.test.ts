@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRecordingClient, createReplayClient, HypixelClient, loadHypixelClientConfig, parseSnapshotFile } from '../services/hypixelClient';
+
+const bazaar = { success: true, lastUpdated: 1000, products: {} };
+const page = (n: number) => ({ success: true, page: n, totalPages: 2, totalAuctions: 0, lastUpdated: 2000, auctions: [] });
+const ended = { success: true, lastUpdated: 1500, auctions: [] };
+
+describe('parseSnapshotFile', () => {
+  it('reads our own snapshot format', () => {
+    const snapshot = { version: 1, recordedAt: 42, responses: { bazaar } };
+    expect(parseSnapshotFile(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it('reads JSONL of raw API responses and keys them by shape', () => {
+    const text = [bazaar, page(0), page(1), ended].map(line => JSON.stringify(line)).join('\n') + '\n';
+    const snapshot = parseSnapshotFile(text);
+    expect(Object.keys(snapshot.responses).sort()).toEqual(['auctions?page=0', 'auctions?page=1', 'auctions_ended', 'bazaar']);
+    expect(snapshot.recordedAt).toBe(2000);
+  });
+
+  it('reads a JSON array and keyed JSONL lines', () => {
+    expect(Object.keys(parseSnapshotFile(JSON.stringify([bazaar, page(0)])).responses)).toEqual(['bazaar', 'auctions?page=0']);
+    const keyed = JSON.stringify({ key: 'items', response: { success: true, lastUpdated: 5, items: [] } });
+    expect(parseSnapshotFile(keyed + '\n' + JSON.stringify(bazaar)).responses.items).toBeDefined();
+  });
+
+  it('reads a single raw response', () => {
+    expect(parseSnapshotFile(JSON.stringify(bazaar)).responses).toEqual({ bazaar });
+  });
+
+  it('rejects responses from unknown endpoints', () => {
+    expect(() => parseSnapshotFile(JSON.stringify([{ success: true }]))).toThrow(/unknown endpoint/);
+  });
+
+  it('rejects snapshots whose responses are not keyed by endpoint', () => {
+    expect(() => parseSnapshotFile(JSON.stringify({ version: 1, recordedAt: 42, responses: [bazaar] }))).toThrow(/keyed by endpoint/);
+    expect(() => parseSnapshotFile(JSON.stringify({ version: 1, responses: 'bazaar' }))).toThrow(/keyed by endpoint/);
+  });
+});
+
+describe('createReplayClient', () => {
+  it('serves recorded responses and fails on missing ones', async () => {
+    const client = createReplayClient({ version: 1, recordedAt: 2000, responses: { 'auctions?page=0': page(0) } });
+    await expect(client.getAuctionsPage(0)).resolves.toEqual(page(0));
+    await expect(client.getBazaar()).rejects.toThrow(/No recorded response for bazaar/);
+  });
+
+  it('replays a missing auctions_ended as empty', async () => {
+    const client = createReplayClient({ version: 1, recordedAt: 2000, responses: {} });
+    await expect(client.getEndedAuctions()).resolves.toMatchObject({ lastUpdated: 2000, auctions: [] });
+  });
+});
+
+describe('createRecordingClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Serves auction pages whose lastUpdated is read from `lastUpdated` when each page is requested.
+  const recordPages = async (requests: [page: number, lastUpdated: number][]) => {
+    vi.useFakeTimers();
+    const batches: Record<string, unknown>[] = [];
+    const inner: HypixelClient = {
+      ...createReplayClient({ version: 1, recordedAt: 0, responses: {} }),
+      getAuctionsPage: n => Promise.resolve({ ...page(n), lastUpdated: requests.find(([p]) => p === n)![1] }),
+    };
+    const client = createRecordingClient(inner, async responses => { batches.push(responses); });
+    for (const [n] of requests) await client.getAuctionsPage(n);
+    await vi.runAllTimersAsync();
+    return Object.assign({}, ...batches) as Record<string, { lastUpdated: number }>;
+  };
+
+  it('records every page of a scan once all of them arrived', async () => {
+    const recorded = await recordPages([[0, 2000], [1, 2000]]);
+    expect(Object.keys(recorded).sort()).toEqual(['auctions?page=0', 'auctions?page=1']);
+  });
+
+  it('drops scans whose pages come from different snapshots', async () => {
+    expect(await recordPages([[0, 2000], [1, 3000]])).toEqual({});
+  });
+
+  it('drops incremental syncs that only fetch page 0', async () => {
+    expect(await recordPages([[0, 2000]])).toEqual({});
+  });
+});
+
+describe('loadHypixelClientConfig', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('falls back to the default for each invalid field', () => {
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify({ mode: 'offline', recordingName: 7, apiKey: 'key' }) });
+    expect(loadHypixelClientConfig()).toEqual({ mode: 'live', recordingName: 'session', apiKey: 'key' });
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify({ mode: 'replay', recordingName: 'monday', apiKey: null }) });
+    expect(loadHypixelClientConfig()).toEqual({ mode: 'replay', recordingName: 'monday', apiKey: '' });
+  });
+});
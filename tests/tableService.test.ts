@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { emptyTableFilters, filterRows, hasActiveFilters, sortRows, toggleSort } from '../services/tableService';
+import { Rarity, SortConfig } from '../types';
+
+interface Row {
+  name: string;
+  rarity: Rarity;
+  profit: number;
+  timeToSell: number | null;
+}
+
+const rows: Row[] = [
+  { name: 'Hyperion', rarity: Rarity.LEGENDARY, profit: 500, timeToSell: 60 },
+  { name: 'Aspect of the End', rarity: Rarity.RARE, profit: 100, timeToSell: null },
+  { name: 'Hyperion Shard', rarity: Rarity.EPIC, profit: 100, timeToSell: 30 },
+  { name: 'Dirt', rarity: Rarity.COMMON, profit: 5, timeToSell: 10 },
+];
+
+const accessors = { getName: (row: Row) => row.name, getRarity: (row: Row) => row.rarity };
+const names = (result: Row[]) => result.map(row => row.name);
+
+describe('filterRows', () => {
+  it('searches names case-insensitively', () => {
+    const filters = { ...emptyTableFilters<'profit'>(), search: ' hyper' };
+    expect(names(filterRows(rows, filters, accessors))).toEqual(['Hyperion', 'Hyperion Shard']);
+  });
+
+  it('keeps any of the selected rarities', () => {
+    const filters = { ...emptyTableFilters<'profit'>(), rarities: [Rarity.RARE, Rarity.COMMON] };
+    expect(names(filterRows(rows, filters, accessors))).toEqual(['Aspect of the End', 'Dirt']);
+  });
+
+  it('applies inclusive ranges and drops rows without a value', () => {
+    const filters = { ...emptyTableFilters<'profit' | 'timeToSell'>(), ranges: { profit: { min: 100 }, timeToSell: { max: 60 } } };
+    expect(names(filterRows(rows, filters, accessors))).toEqual(['Hyperion', 'Hyperion Shard']);
+  });
+
+  it('ignores empty ranges', () => {
+    const filters = { ...emptyTableFilters<'profit'>(), ranges: { profit: {} } };
+    expect(hasActiveFilters(filters)).toBe(false);
+    expect(filterRows(rows, filters, accessors)).toHaveLength(4);
+  });
+});
+
+describe('sortRows', () => {
+  it('breaks ties with later sort keys', () => {
+    const sorts: SortConfig<keyof Row>[] = [{ key: 'profit', direction: 'descending' }, { key: 'name', direction: 'descending' }];
+    expect(names(sortRows(rows, sorts))).toEqual(['Hyperion', 'Hyperion Shard', 'Aspect of the End', 'Dirt']);
+  });
+
+  it('puts unknown values last in both directions', () => {
+    expect(names(sortRows(rows, [{ key: 'timeToSell', direction: 'ascending' }])).at(-1)).toBe('Aspect of the End');
+    expect(names(sortRows(rows, [{ key: 'timeToSell', direction: 'descending' }])).at(-1)).toBe('Aspect of the End');
+  });
+});
+
+describe('toggleSort', () => {
+  const profitDesc: SortConfig<string> = { key: 'profit', direction: 'descending' };
+
+  it('sorts by a single column and flips its direction', () => {
+    expect(toggleSort([profitDesc], 'fees', false)).toEqual([{ key: 'fees', direction: 'ascending' }]);
+    expect(toggleSort([{ key: 'fees', direction: 'ascending' }], 'fees', false)).toEqual([{ key: 'fees', direction: 'descending' }]);
+  });
+
+  it('adds, flips and removes tie-breakers', () => {
+    const added = toggleSort([profitDesc], 'fees', true);
+    expect(added).toEqual([profitDesc, { key: 'fees', direction: 'ascending' }]);
+    const flipped = toggleSort(added, 'fees', true);
+    expect(flipped).toEqual([profitDesc, { key: 'fees', direction: 'descending' }]);
+    expect(toggleSort(flipped, 'fees', true)).toEqual([profitDesc]);
+  });
+
+  it('keeps the last sort column when shift-clicking it', () => {
+    expect(toggleSort([profitDesc], 'profit', true)).toEqual([{ key: 'profit', direction: 'ascending' }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ALERT_COOLDOWN, evaluateWatchRules, loadAlertLog, loadWatchlistConfig, validateWatchRule, WatchCandidate, WatchRule,
+} from '../services/watchlistService';
+
+const NOW = 1760000000000;
+
+const rule = (overrides: Partial<WatchRule> = {}): WatchRule => ({
+  id: 'r1',
+  item: { kind: 'regex', value: 'hyperion' },
+  markets: ['auction'],
+  enabled: true,
+  ...overrides,
+});
+
+const candidate = (overrides: Partial<WatchCandidate> = {}): WatchCandidate => ({
+  key: 'auction-1',
+  market: 'auction',
+  itemId: 'HYPERION',
+  itemName: 'Hyperion',
+  buyPrice: 800_000_000,
+  profit: 20_000_000,
+  confidence: 0.8,
+  command: '/viewauction auction-1',
+  ...overrides,
+});
+
+describe('evaluateWatchRules', () => {
+  it('alerts on flips meeting every condition of a rule', () => {
+    const rules = [rule({ minProfit: 10_000_000, maxBuyPrice: 900_000_000, minConfidence: 0.5 })];
+    const [alert] = evaluateWatchRules(rules, [candidate()], [], NOW);
+    expect(alert).toMatchObject({ ruleId: 'r1', key: 'auction-1', command: '/viewauction auction-1', firedAt: NOW });
+  });
+
+  it('skips flips failing a condition, other markets and disabled rules', () => {
+    const candidates = [
+      candidate({ key: 'cheap-profit', profit: 1_000 }),
+      candidate({ key: 'too-expensive', buyPrice: 2_000_000_000 }),
+      candidate({ key: 'unsure', confidence: 0.1 }),
+      candidate({ key: 'other-item', itemId: 'TERMINATOR', itemName: 'Terminator' }),
+      candidate({ key: 'HYPERION', market: 'bazaar', confidence: undefined }),
+    ];
+    const rules = [rule({ minProfit: 10_000_000, maxBuyPrice: 900_000_000, minConfidence: 0.5 }), rule({ id: 'off', enabled: false })];
+    expect(evaluateWatchRules(rules, candidates, [], NOW)).toEqual([]);
+  });
+
+  it('alerts on the same flip again only after the cooldown', () => {
+    const [first] = evaluateWatchRules([rule()], [candidate()], [], NOW);
+    expect(evaluateWatchRules([rule()], [candidate()], [first], NOW + 60_000)).toEqual([]);
+    expect(evaluateWatchRules([rule()], [candidate()], [first], NOW + ALERT_COOLDOWN)).toHaveLength(1);
+  });
+});
+
+describe('validateWatchRule', () => {
+  it('needs an item, a market and sane limits', () => {
+    expect(validateWatchRule(rule())).toBeNull();
+    expect(validateWatchRule(rule({ item: { kind: 'regex', value: '(' } }))).toBe('Invalid regular expression');
+    expect(validateWatchRule(rule({ markets: [] }))).toBe('Pick at least one market');
+    expect(validateWatchRule(rule({ minProfit: NaN }))).toBe('Amounts must be positive numbers');
+    expect(validateWatchRule(rule({ minConfidence: 1.5 }))).toBe('Confidence must be between 0 and 100%');
+  });
+});
+
+describe('loadWatchlistConfig', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops stored rules that are malformed or watch an unknown kind of item', () => {
+    const stored = { rules: [rule(), { ...rule(), id: 'r2', item: { kind: 'tag', value: 'x' } }, null, { id: 'r3' }], playSound: true };
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    expect(loadWatchlistConfig()).toEqual({ rules: [rule()], playSound: true });
+  });
+});
+
+describe('loadAlertLog', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops stored alerts that are malformed', () => {
+    const [alert] = evaluateWatchRules([rule()], [candidate()], [], NOW);
+    const stored = [alert, { ...alert, market: 'bin' }, { ...alert, firedAt: 'now' }, null, 'alert'];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    expect(loadAlertLog()).toEqual([alert]);
+  });
+
+  it('reads a log that is not a list as empty', () => {
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify({ alerts: [] }) });
+    expect(loadAlertLog()).toEqual([]);
+  });
+});
@@ -10,14 +10,25 @@ export enum Rarity {
   VERY_SPECIAL = "VERY_SPECIAL",
 }
 
+export type PriceStrategyId = 'iqrWall' | 'lowestMedian' | 'recentSales' | 'historyFloor';
+
 export interface AuctionFlip {
   id: string; // uuid of the auction
+  itemId: string; // SkyBlock item id the auction was grouped by
   itemName: string;
   rarity: Rarity;
   lore: string;
   lowestBin: number;
-  marketPrice: number; // The 2nd lowest BIN price, used as the estimated market value
-  profit: number;
+  marketPrice: number; // The market wall price of the comparable bucket, used as the estimated market value
+  grossProfit: number; // marketPrice - lowestBin
+  fees: number; // Listing, duration and claim fees for reselling at marketPrice
+  profit: number; // Net profit after fees
+  comparableKey: string; // Bucket of comparable auctions the market price was taken from
+  confidence: number; // 0-1, how far the market price can be trusted given the sample size and spread
+  priceStrategy: PriceStrategyId; // Strategy the market price was estimated with
+  salesPerHour: number; // Observed sales per hour in the comparable bucket
+  medianTimeToSell: number | null; // ms from listing to sale in the bucket, null while unknown
+  coinsPerHour: number; // Net profit per hour of waiting for the sale
 }
 
 export interface BazaarFlip {
@@ -25,20 +36,41 @@ export interface BazaarFlip {
   itemName: string;
   buyPrice: number;
   sellPrice: number;
-  profit: number;
+  grossProfit: number;
+  fees: number; // Bazaar sales tax
+  profit: number; // Net profit per item after fees
   buyVolume: number;
   sellVolume: number;
 }
 
+export interface BazaarOrderFlip {
+  id: string; // product_id
+  itemName: string;
+  buyOrderPrice: number; // Suggested buy order, one tick above the best buy order
+  sellOfferPrice: number; // Suggested sell offer, one tick below the best sell offer
+  grossProfit: number; // Per-unit spread between the two suggested orders
+  fees: number; // Per-unit bazaar sales tax on the sell offer
+  profit: number; // Net per-unit profit after fees
+  unitsPerHour: number; // Estimated units we can cycle through both sides per hour
+  coinsPerHour: number; // Net profit per hour
+  buyOrderDepth: number; // Units already waiting at the top buy order level
+  sellOfferDepth: number; // Units already waiting at the top sell offer level
+}
+
 export interface MarketTrendFlip {
   id: string; // uuid of the auction
+  itemId: string;
   itemName: string;
   rarity: Rarity;
   lore: string;
   currentPrice: number;
   estimatedValue: number;
-  potentialProfit: number;
+  grossProfit: number; // estimatedValue - currentPrice
+  fees: number; // Auction fees for reselling at estimatedValue
+  potentialProfit: number; // Net profit after fees
   reasoning: string;
+  cacheHit: boolean; // Valuation came from the AI cache
+  analyzedAt: number; // When the valuation was produced
 }
 
 export interface Ingredient {
@@ -47,20 +79,37 @@ export interface Ingredient {
     quantity: number;
 }
 
+export interface CostNode {
+    itemId: string;
+    name: string;
+    quantity: number;
+    method: 'instabuy' | 'buy_order' | 'craft'; // Cheapest way found to get this node
+    unitCost: number;
+    totalCost: number;
+    children: CostNode[]; // Ingredients, only for crafted nodes
+}
+
 export interface CraftingFlip {
     id: string; // uuid of the auction
+    itemId: string;
     itemName: string;
     rarity: Rarity;
     marketPrice: number;
     craftCost: number;
+    grossProfit: number;
+    fees: number;
     profit: number;
-    recipe: Ingredient[];
+    recipe: Ingredient[]; // Everything bought, flattened from the cost tree
+    recipeSource: 'database' | 'ai'; // Where the recipe came from
+    recipeCacheHit?: boolean; // For AI recipes, whether it came from the AI cache
+    costTree: CostNode; // How each ingredient is sourced, cheapest option per node
 }
 
-export type SortableAuctionKeys = keyof Omit<AuctionFlip, 'id' | 'rarity' | 'itemName' | 'lore'>;
+export type SortableAuctionKeys = keyof Omit<AuctionFlip, 'id' | 'itemId' | 'rarity' | 'itemName' | 'lore' | 'comparableKey' | 'priceStrategy'>;
 export type SortableBazaarKeys = keyof Omit<BazaarFlip, 'id' | 'itemName'>;
-export type SortableTrendKeys = keyof Omit<MarketTrendFlip, 'id' | 'rarity' | 'itemName' | 'reasoning' | 'lore'>;
-export type SortableCraftingKeys = keyof Omit<CraftingFlip, 'id' | 'rarity' | 'itemName' | 'recipe'>;
+export type SortableBazaarOrderKeys = keyof Omit<BazaarOrderFlip, 'id' | 'itemName'>;
+export type SortableTrendKeys = keyof Omit<MarketTrendFlip, 'id' | 'itemId' | 'rarity' | 'itemName' | 'reasoning' | 'lore' | 'cacheHit'>;
+export type SortableCraftingKeys = keyof Omit<CraftingFlip, 'id' | 'itemId' | 'rarity' | 'itemName' | 'recipe' | 'recipeSource' | 'recipeCacheHit' | 'costTree'>;
 
 
 export interface SortConfig<T> {
@@ -76,5 +125,128 @@ export interface RawAuction {
   starting_bid: number;
   bin: boolean;
   claimed: boolean;
+  start: number; // ms timestamp the auction was listed
+  end: number; // ms timestamp the auction expires
   item_lore: string;
-}
\ No newline at end of file
+  item_bytes: string; // base64, gzipped NBT of the listed item
+}
+
+// Typed view of the `ExtraAttributes` NBT compound carried in `item_bytes`.
+export interface PetInfo {
+  type: string;
+  tier: Rarity;
+  exp: number;
+  active: boolean;
+  candyUsed: number;
+  heldItem?: string;
+  skin?: string;
+}
+
+export interface ExtraAttributes {
+  id: string; // SkyBlock item id, e.g. HYPERION
+  uuid?: string;
+  enchantments: Record<string, number>;
+  modifier?: string; // Reforge
+  hot_potato_count: number; // Hot Potato + Fuming Potato books applied
+  rarity_upgrades: number; // 1 when recombobulated
+  upgrade_level: number; // Stars
+  gems: Record<string, string>; // Gem slot -> quality
+  skin?: string;
+  petInfo?: PetInfo;
+}
+
+export interface DecodedAuction extends RawAuction {
+  itemId: string;
+  attributes: ExtraAttributes;
+}
+export interface RawBazaarOrder {
+  amount: number;
+  pricePerUnit: number;
+  orders: number;
+}
+
+export interface RawBazaarQuickStatus {
+  productId: string;
+  buyPrice: number; // Insta-buy price (lowest sell offer)
+  sellPrice: number; // Insta-sell price (highest buy order)
+  buyVolume: number;
+  sellVolume: number;
+  buyMovingWeek: number; // Units insta-bought over the last 7 days
+  sellMovingWeek: number; // Units insta-sold over the last 7 days
+  buyOrders: number;
+  sellOrders: number;
+}
+
+export interface RawBazaarProduct {
+  product_id: string;
+  sell_summary: RawBazaarOrder[]; // Buy orders, best (highest) first
+  buy_summary: RawBazaarOrder[]; // Sell offers, best (lowest) first
+  quick_status: RawBazaarQuickStatus;
+}
+
+// Responses of the Hypixel SkyBlock API endpoints used through `HypixelClient`.
+export interface RawApiResponse {
+  success: boolean;
+  cause?: string; // Error message when success is false
+}
+
+export interface RawBazaarResponse extends RawApiResponse {
+  lastUpdated: number;
+  products: Record<string, RawBazaarProduct>;
+}
+
+export interface RawAuctionsPage extends RawApiResponse {
+  page: number;
+  totalPages: number;
+  totalAuctions: number;
+  lastUpdated: number;
+  auctions: RawAuction[];
+}
+
+export interface RawEndedAuction {
+  auction_id: string;
+  seller: string;
+  buyer: string;
+  timestamp: number; // ms timestamp the auction was bought
+  price: number;
+  bin: boolean;
+  item_bytes: string;
+}
+
+export interface RawEndedAuctionsResponse extends RawApiResponse {
+  lastUpdated: number;
+  auctions: RawEndedAuction[]; // Auctions that ended in the last 60 seconds
+}
+
+export interface RawSkyblockItem {
+  id: string;
+  name: string;
+  material: string;
+  tier?: Rarity;
+  category?: string;
+  npc_sell_price?: number;
+}
+
+export interface RawItemsResponse extends RawApiResponse {
+  lastUpdated: number;
+  items: RawSkyblockItem[];
+}
+
+export interface RawMayorPerk {
+  name: string;
+  description: string;
+}
+
+export interface RawElectionResponse extends RawApiResponse {
+  lastUpdated: number;
+  mayor: {
+    key: string;
+    name: string;
+    perks: RawMayorPerk[];
+    minister?: { key: string; name: string; perk: RawMayorPerk };
+  };
+}
+
+export interface RawPlayerAuctionsResponse extends RawApiResponse {
+  auctions: RawAuction[];
+}
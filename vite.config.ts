@@ -1,9 +1,80 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+const RECORDINGS_DIR = path.resolve(__dirname, 'recordings');
+
+// Dev-server endpoint behind the Hypixel client's record and replay modes.
+// PUT /__recordings/<name> merges captured responses into recordings/<name>.json;
+// GET /__recordings/<name> serves the file back.
+const hypixelRecorder = (): Plugin => ({
+  name: 'hypixel-recorder',
+  configureServer(server) {
+    server.middlewares.use('/__recordings', (req, res) => {
+      const name = decodeURIComponent((req.url ?? '').replace(/^\//, '').split('?')[0]);
+      if (!/^[\w.-]+$/.test(name)) {
+        res.statusCode = 400;
+        res.end('Invalid recording name');
+        return;
+      }
+      const file = path.join(RECORDINGS_DIR, `${name}.json`);
+
+      if (req.method === 'GET') {
+        if (!fs.existsSync(file)) {
+          res.statusCode = 404;
+          res.end('Recording not found');
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        fs.createReadStream(file).pipe(res);
+        return;
+      }
+
+      if (req.method === 'PUT') {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+          let batch;
+          try {
+            batch = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          } catch {
+            res.statusCode = 400;
+            res.end('Invalid JSON');
+            return;
+          }
+          let existing;
+          try {
+            existing = fs.existsSync(file)
+              ? JSON.parse(fs.readFileSync(file, 'utf8'))
+              : { version: 1, recordedAt: batch.recordedAt, responses: {} };
+          } catch {
+            res.statusCode = 500;
+            res.end('Existing recording could not be read');
+            return;
+          }
+          const snapshot = {
+            version: 1,
+            recordedAt: batch.recordedAt,
+            responses: { ...existing.responses, ...batch.responses },
+          };
+          fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+          fs.writeFileSync(file, JSON.stringify(snapshot));
+          res.statusCode = 204;
+          res.end();
+        });
+        return;
+      }
+
+      res.statusCode = 405;
+      res.end();
+    });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [hypixelRecorder()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)